@@ -1,5 +1,9 @@
 import { describe, expect, test } from "vitest";
-import { extractInternalLinkpathsFromCache } from "../services/reference-extractor";
+import {
+  extractEmbedLinkpathsFromCache,
+  extractInternalLinkpathsFromCache,
+  parseLinktext,
+} from "../services/reference-extractor";
 
 describe("extractInternalLinkpathsFromCache", () => {
   test("collects linkpaths from links/embeds/frontmatterLinks and strips subpaths", () => {
@@ -60,3 +64,71 @@ describe("extractInternalLinkpathsFromCache", () => {
     expect(extractInternalLinkpathsFromCache(cache)).toEqual(["dup", "unique"]);
   });
 });
+
+describe("extractEmbedLinkpathsFromCache", () => {
+  test("collects embeds but not plain links", () => {
+    const cache = {
+      links: [{ link: "linked", original: "[[linked]]" }],
+      embeds: [{ link: "embedded", original: "![[embedded]]" }],
+    };
+
+    expect(extractEmbedLinkpathsFromCache(cache)).toEqual(["embedded"]);
+  });
+
+  test("strips subpaths and deduplicates", () => {
+    const cache = {
+      embeds: [
+        { link: "notes/plan#Goals", original: "![[notes/plan#Goals]]" },
+        { link: "notes/plan#^step-1", original: "![[notes/plan#^step-1]]" },
+        { link: "notes/other", original: "![[notes/other]]" },
+      ],
+    };
+
+    expect(extractEmbedLinkpathsFromCache(cache)).toEqual(["notes/plan", "notes/other"]);
+  });
+
+  test("includes asset embeds and skips external ones", () => {
+    const cache = {
+      embeds: [
+        { link: "assets/image.png", original: "![[assets/image.png]]" },
+        { link: "https://example.com/remote.png", original: "![](https://example.com/remote.png)" },
+        { link: "docs/guide.pdf#page=2", original: "![[docs/guide.pdf#page=2]]" },
+      ],
+    };
+
+    expect(extractEmbedLinkpathsFromCache(cache)).toEqual(["assets/image.png", "docs/guide.pdf"]);
+  });
+
+  test("returns nothing without a cache", () => {
+    expect(extractEmbedLinkpathsFromCache(null)).toEqual([]);
+  });
+});
+
+describe("parseLinktext", () => {
+  test("splits a heading subpath from the path", () => {
+    expect(parseLinktext("notes/plan#Goals")).toEqual({ linkpath: "notes/plan", subpath: "Goals" });
+  });
+
+  test("keeps the caret of block references", () => {
+    expect(parseLinktext("plan#^abc123")).toEqual({ linkpath: "plan", subpath: "^abc123" });
+  });
+
+  test("keeps nested headings in the subpath", () => {
+    expect(parseLinktext("plan#Goals#This week")).toEqual({
+      linkpath: "plan",
+      subpath: "Goals#This week",
+    });
+  });
+
+  test("drops the alias", () => {
+    expect(parseLinktext("plan#Goals|the goals")).toEqual({ linkpath: "plan", subpath: "Goals" });
+  });
+
+  test("drops an alias behind an escaped pipe", () => {
+    expect(parseLinktext("plan\\|the plan")).toEqual({ linkpath: "plan", subpath: "" });
+  });
+
+  test("links within the note have an empty path", () => {
+    expect(parseLinktext("#Goals")).toEqual({ linkpath: "", subpath: "Goals" });
+  });
+});
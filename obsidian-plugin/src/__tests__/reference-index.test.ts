@@ -5,6 +5,7 @@ describe("ReferenceIndex", () => {
   const resolver: ReferenceResolver = (linkpath, _sourcePath) => {
     if (linkpath === "a.md") return { path: "a.md", kind: "note" };
     if (linkpath === "b.md") return { path: "b.md", kind: "note" };
+    if (linkpath === "c.md") return { path: "c.md", kind: "note" };
     if (linkpath === "img.png") return { path: "img.png", kind: "asset" };
     if (linkpath === "docs/diagram.svg") return { path: "docs/diagram.svg", kind: "asset" };
     return null;
@@ -73,4 +74,50 @@ describe("ReferenceIndex", () => {
     expect(index.getNotesForAsset("img.png")).toEqual(new Set());
     expect(index.isAssetReferenced("img.png")).toBe(false);
   });
+
+  test("keeps backlinks in step with updates", () => {
+    const index = new ReferenceIndex(resolver);
+    index.updateNote("a.md", ["c.md"]);
+    index.updateNote("b.md", ["c.md"]);
+    expect(index.getBacklinks("c.md")).toEqual(new Set(["a.md", "b.md"]));
+
+    index.updateNote("a.md", []);
+
+    expect(index.getBacklinks("c.md")).toEqual(new Set(["b.md"]));
+  });
+
+  test("removeNote drops the note's backlinks but keeps links to it", () => {
+    const index = new ReferenceIndex(resolver);
+    index.updateNote("a.md", ["b.md"]);
+    index.updateNote("b.md", ["c.md"]);
+
+    index.removeNote("b.md");
+
+    expect(index.getBacklinks("c.md").size).toBe(0);
+    expect(index.getBacklinks("b.md")).toEqual(new Set(["a.md"]));
+  });
+
+  test("renameNote moves links in both directions", () => {
+    const index = new ReferenceIndex(resolver);
+    index.updateNote("a.md", ["b.md"]);
+    index.updateNote("b.md", ["c.md"]);
+
+    index.renameNote("b.md", "d.md");
+
+    expect(index.getBacklinks("d.md")).toEqual(new Set(["a.md"]));
+    expect(index.getLinkedNotesForNote("a.md")).toEqual(new Set(["d.md"]));
+    expect(index.getBacklinks("c.md")).toEqual(new Set(["d.md"]));
+    expect(index.getBacklinks("b.md").size).toBe(0);
+  });
+
+  test("tracks embeds apart from links", () => {
+    const index = new ReferenceIndex(resolver);
+    index.updateNote("n.md", ["a.md", "b.md"], ["a.md"]);
+
+    expect(index.getNotesEmbedding("a.md")).toEqual(new Set(["n.md"]));
+    expect(index.getNotesEmbedding("b.md").size).toBe(0);
+
+    index.renameNote("a.md", "d.md");
+    expect(index.getNotesEmbedding("d.md")).toEqual(new Set(["n.md"]));
+  });
 });
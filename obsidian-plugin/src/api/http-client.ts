@@ -9,15 +9,62 @@ export interface HttpResponse {
   status: number;
   json: unknown;
   text: string;
+  headers?: Record<string, string>;
 }
 
 export interface HttpRequest {
   url: string;
   method: "GET" | "POST" | "PUT" | "DELETE";
   headers: Record<string, string>;
-  body?: string;
+  body?: string | ArrayBuffer;
+  /** Abort the request; the client rejects with a `RequestAbortedError` */
+  signal?: AbortSignal;
 }
 
 export interface HttpClient {
   request(req: HttpRequest): Promise<HttpResponse>;
 }
+
+export class RequestAbortedError extends Error {
+  constructor(message = "Request aborted") {
+    super(message);
+    this.name = "AbortError";
+  }
+}
+
+/**
+ * True for `RequestAbortedError` and platform abort errors (`DOMException`)
+ */
+export function isAbortError(error: unknown): boolean {
+  return error instanceof Error && error.name === "AbortError";
+}
+
+export function throwIfAborted(signal: AbortSignal | undefined): void {
+  if (signal?.aborted) throw new RequestAbortedError();
+}
+
+/**
+ * Settle with `promise`, or reject with `RequestAbortedError` as soon as the
+ * signal aborts (the underlying work is not cancelled)
+ */
+export function raceAbort<T>(promise: Promise<T>, signal: AbortSignal | undefined): Promise<T> {
+  if (!signal) return promise;
+  return new Promise<T>((resolve, reject) => {
+    if (signal.aborted) {
+      reject(new RequestAbortedError());
+      return;
+    }
+    const onAbort = () => reject(new RequestAbortedError());
+    signal.addEventListener("abort", onAbort, { once: true });
+    promise.then(
+      (value) => {
+        signal.removeEventListener("abort", onAbort);
+        resolve(value);
+      },
+      (error) => {
+        signal.removeEventListener("abort", onAbort);
+        reject(error);
+      },
+    );
+  });
+}
@@ -1,7 +1,23 @@
 /**
  * API barrel export
  */
-export type { HttpClient, HttpRequest, HttpResponse } from "./http-client";
+export {
+  type HttpClient,
+  type HttpRequest,
+  type HttpResponse,
+  isAbortError,
+  RequestAbortedError,
+  raceAbort,
+  throwIfAborted,
+} from "./http-client";
 export { ObsidianHttpClient } from "./obsidian-http-client";
+export {
+  computeBackoffDelay,
+  DEFAULT_RETRY_POLICY,
+  isRetryableStatus,
+  normalizeRetryPolicy,
+  parseRetryAfter,
+  RETRYABLE_STATUSES,
+} from "./retry";
 export * from "./sync-api";
 export { SyncApiClient } from "./sync-api";
@@ -5,22 +5,35 @@
  */
 
 import { requestUrl } from "obsidian";
-import type { HttpClient, HttpRequest, HttpResponse } from "./http-client";
+import {
+  type HttpClient,
+  type HttpRequest,
+  type HttpResponse,
+  raceAbort,
+  throwIfAborted,
+} from "./http-client";
 
 export class ObsidianHttpClient implements HttpClient {
   async request(req: HttpRequest): Promise<HttpResponse> {
-    const response = await requestUrl({
-      url: req.url,
-      method: req.method,
-      headers: req.headers,
-      body: req.body,
-      throw: false,
-    });
+    throwIfAborted(req.signal);
+    // requestUrl cannot be cancelled: an aborted request may still reach the
+    // server, but its response is discarded.
+    const response = await raceAbort(
+      requestUrl({
+        url: req.url,
+        method: req.method,
+        headers: req.headers,
+        body: req.body,
+        throw: false,
+      }),
+      req.signal,
+    );
 
     return {
       status: response.status,
       json: response.json,
       text: response.text,
+      headers: response.headers,
     };
   }
 }
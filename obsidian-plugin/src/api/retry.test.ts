@@ -0,0 +1,80 @@
+import { describe, expect, test } from "vitest";
+import {
+  computeBackoffDelay,
+  DEFAULT_RETRY_POLICY,
+  getHeader,
+  isRetryableStatus,
+  normalizeRetryPolicy,
+  parseRetryAfter,
+} from "./retry";
+
+describe("retry helpers", () => {
+  describe("isRetryableStatus", () => {
+    test("retries rate limits and gateway errors", () => {
+      expect(isRetryableStatus(429)).toBe(true);
+      expect(isRetryableStatus(502)).toBe(true);
+      expect(isRetryableStatus(503)).toBe(true);
+      expect(isRetryableStatus(504)).toBe(true);
+    });
+
+    test("does not retry client or application errors", () => {
+      expect(isRetryableStatus(200)).toBe(false);
+      expect(isRetryableStatus(400)).toBe(false);
+      expect(isRetryableStatus(401)).toBe(false);
+      expect(isRetryableStatus(500)).toBe(false);
+    });
+  });
+
+  describe("parseRetryAfter", () => {
+    test("parses delta seconds", () => {
+      expect(parseRetryAfter("3")).toBe(3000);
+      expect(parseRetryAfter(" 0 ")).toBe(0);
+    });
+
+    test("parses HTTP dates relative to now", () => {
+      const now = Date.parse("Wed, 21 Oct 2015 07:28:00 GMT");
+      expect(parseRetryAfter("Wed, 21 Oct 2015 07:28:05 GMT", now)).toBe(5000);
+      expect(parseRetryAfter("Wed, 21 Oct 2015 07:27:00 GMT", now)).toBe(0);
+    });
+
+    test("returns null for missing or invalid values", () => {
+      expect(parseRetryAfter(undefined)).toBeNull();
+      expect(parseRetryAfter("")).toBeNull();
+      expect(parseRetryAfter("soon")).toBeNull();
+    });
+  });
+
+  describe("computeBackoffDelay", () => {
+    const policy = { maxAttempts: 5, baseDelayMs: 100, maxDelayMs: 1000 };
+
+    test("grows exponentially with full jitter", () => {
+      expect(computeBackoffDelay(1, policy, () => 0.5)).toBe(50);
+      expect(computeBackoffDelay(2, policy, () => 0.5)).toBe(100);
+      expect(computeBackoffDelay(3, policy, () => 0.5)).toBe(200);
+      expect(computeBackoffDelay(3, policy, () => 0)).toBe(0);
+    });
+
+    test("caps the delay", () => {
+      expect(computeBackoffDelay(10, policy, () => 0.999)).toBe(999);
+    });
+  });
+
+  describe("normalizeRetryPolicy", () => {
+    test("falls back to defaults for invalid values", () => {
+      expect(
+        normalizeRetryPolicy({ maxAttempts: Number.NaN, baseDelayMs: undefined, maxDelayMs: -1 }),
+      ).toEqual({ ...DEFAULT_RETRY_POLICY, maxDelayMs: DEFAULT_RETRY_POLICY.baseDelayMs });
+    });
+
+    test("requires at least one attempt", () => {
+      expect(normalizeRetryPolicy({ maxAttempts: 0 }).maxAttempts).toBe(1);
+    });
+  });
+
+  describe("getHeader", () => {
+    test("looks headers up case-insensitively", () => {
+      expect(getHeader({ "Retry-After": "2" }, "retry-after")).toBe("2");
+      expect(getHeader(undefined, "retry-after")).toBeUndefined();
+    });
+  });
+});
@@ -0,0 +1,85 @@
+/**
+ * Retry helpers for publish requests.
+ *
+ * Pure functions - the client supplies the clock, sleep and randomness.
+ */
+
+import type { RetryPolicy } from "../domain/types";
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  maxAttempts: 4,
+  baseDelayMs: 500,
+  maxDelayMs: 30_000,
+};
+
+/**
+ * Statuses that signal a transient condition (rate limit, proxy or restart)
+ */
+export const RETRYABLE_STATUSES = new Set([429, 502, 503, 504]);
+
+export function isRetryableStatus(status: number): boolean {
+  return RETRYABLE_STATUSES.has(status);
+}
+
+/**
+ * Clamp user-provided values to something the client can work with
+ */
+export function normalizeRetryPolicy(policy: Partial<RetryPolicy>): RetryPolicy {
+  const toInt = (value: unknown, fallback: number, min: number): number => {
+    const parsed = typeof value === "number" ? value : Number(value);
+    return Number.isFinite(parsed) ? Math.max(min, Math.floor(parsed)) : fallback;
+  };
+  const baseDelayMs = toInt(policy.baseDelayMs, DEFAULT_RETRY_POLICY.baseDelayMs, 0);
+  return {
+    maxAttempts: toInt(policy.maxAttempts, DEFAULT_RETRY_POLICY.maxAttempts, 1),
+    baseDelayMs,
+    maxDelayMs: toInt(policy.maxDelayMs, DEFAULT_RETRY_POLICY.maxDelayMs, baseDelayMs),
+  };
+}
+
+/**
+ * Parse a `Retry-After` header (delta seconds or HTTP date)
+ * @returns Delay in milliseconds, or null when absent or invalid
+ */
+export function parseRetryAfter(
+  value: string | undefined,
+  now: number = Date.now(),
+): number | null {
+  if (!value) return null;
+  const trimmed = value.trim();
+  if (/^\d+$/.test(trimmed)) {
+    return Number(trimmed) * 1000;
+  }
+  const date = Date.parse(trimmed);
+  if (Number.isNaN(date)) return null;
+  return Math.max(0, date - now);
+}
+
+/**
+ * Full-jitter exponential backoff
+ * @param attempt - 1-based number of the attempt that just failed
+ */
+export function computeBackoffDelay(
+  attempt: number,
+  policy: RetryPolicy,
+  random: () => number = Math.random,
+): number {
+  const exponential = policy.baseDelayMs * 2 ** Math.max(0, attempt - 1);
+  const capped = Math.min(policy.maxDelayMs, exponential);
+  return Math.floor(random() * capped);
+}
+
+/**
+ * Case-insensitive header lookup
+ */
+export function getHeader(
+  headers: Record<string, string> | undefined,
+  name: string,
+): string | undefined {
+  if (!headers) return undefined;
+  const lower = name.toLowerCase();
+  for (const [key, value] of Object.entries(headers)) {
+    if (key.toLowerCase() === lower) return value;
+  }
+  return undefined;
+}
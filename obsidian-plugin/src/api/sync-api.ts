@@ -2,17 +2,56 @@
  * Snapshot-based sync API client.
  */
 
-import type { SyncConfig } from "../domain/types";
-import type { HttpClient } from "./http-client";
+import type {
+  CanvasMetadata,
+  NoteMetadata,
+  RetryPolicy,
+  SyncConfig,
+  UploadSession,
+} from "../domain/types";
+import { bytesToBase64 } from "../utils/encoding";
+import {
+  type HttpClient,
+  type HttpRequest,
+  type HttpResponse,
+  isAbortError,
+  raceAbort,
+  throwIfAborted,
+} from "./http-client";
+import {
+  computeBackoffDelay,
+  DEFAULT_RETRY_POLICY,
+  getHeader,
+  isRetryableStatus,
+  normalizeRetryPolicy,
+  parseRetryAfter,
+} from "./retry";
 
 export interface SyncSnapshotEntry {
   id: string;
   hash: string;
 }
 
+/**
+ * Limits on note deletions for a snapshot publish; 0 disables a limit.
+ * The server refuses the whole publish when either limit is exceeded.
+ */
+export interface DeletionGuard {
+  max_notes: number;
+  max_percent: number;
+}
+
+export interface DeletionGuardViolation {
+  notes_to_delete: number;
+  notes_on_server: number;
+  max_notes: number | null;
+  max_percent: number | null;
+}
+
 export interface SyncChangesRequest {
   notes: SyncSnapshotEntry[];
   assets: SyncSnapshotEntry[];
+  deletion_guard?: DeletionGuard;
 }
 
 export interface SyncChangesResponse {
@@ -25,16 +64,57 @@ export interface SyncChangesResponse {
     notes: SyncSnapshotEntry[];
     assets: SyncSnapshotEntry[];
   };
+  /** Set when the deletion guard rejected the publish (nothing was changed) */
+  deletion_guard?: DeletionGuardViolation;
+  status?: number;
   error?: string;
 }
 
+export interface SyncPlanEntry extends SyncSnapshotEntry {
+  /** Server-side path, reported for deletions */
+  path?: string;
+}
+
+export interface SyncChangeSet {
+  add: SyncPlanEntry[];
+  update: SyncPlanEntry[];
+  delete: SyncPlanEntry[];
+}
+
+/**
+ * What publishing a snapshot would change on the server
+ */
+export interface SyncChangesPlan {
+  notes: SyncChangeSet;
+  assets: SyncChangeSet;
+  /** Set when committing this snapshot with the same guard would be refused */
+  deletion_guard?: DeletionGuardViolation;
+}
+
+/**
+ * Kinds of document sent through the notes endpoint; absent means "note"
+ */
+export type DocumentType = "note" | "canvas";
+
 export interface SyncNoteRequest {
+  type?: DocumentType;
   path: string;
   content: string;
   hash: string;
-  metadata?: Record<string, unknown>;
+  metadata?: NoteMetadata | CanvasMetadata;
   assets: Array<{ id: string; hash: string }>;
   linked_notes: Array<{ id: string; hash: string }>;
+  /** Hash the client last published or fetched; the server answers 409 if it has another */
+  base_hash?: string;
+}
+
+/**
+ * The server's version of a note that was changed since the client's base hash
+ */
+export interface NoteConflict {
+  server_hash: string;
+  server_path: string;
+  server_content: string;
 }
 
 export interface SyncAssetRequest {
@@ -45,6 +125,46 @@ export interface SyncAssetRequest {
   content: string;
 }
 
+export type SyncAssetMetadata = Omit<SyncAssetRequest, "content">;
+
+/**
+ * Optional protocol features a server advertises in `/obsidian/vault/info`
+ */
+export const CAPABILITY_ASSET_BINARY = "asset-binary";
+export const CAPABILITY_ASSET_CHUNKED = "asset-chunked";
+
+/**
+ * Assets at least this large use resumable chunked uploads when supported
+ */
+export const CHUNKED_UPLOAD_THRESHOLD = 8 * 1024 * 1024;
+const DEFAULT_CHUNK_SIZE = 4 * 1024 * 1024;
+
+export interface UploadInitResponse {
+  success: boolean;
+  /** Server already has this asset version */
+  skipped?: boolean;
+  session?: UploadSession;
+  chunkSize?: number;
+  status?: number;
+  error?: string;
+}
+
+export interface UploadChunkResponse {
+  success: boolean;
+  status?: number;
+  /** Bytes acknowledged by the server (also reported on offset mismatch) */
+  offset?: number;
+  error?: string;
+}
+
+export interface UploadAssetOptions {
+  /** Previously started session for the same content, if any */
+  session?: UploadSession | null;
+  /** Called after every acknowledged chunk, and with null once finished or discarded */
+  onSession?: (session: UploadSession | null) => void;
+  signal?: AbortSignal;
+}
+
 export interface VaultInfoResponse {
   success: boolean;
   vault?: {
@@ -53,41 +173,113 @@ export interface VaultInfoResponse {
     domain?: string;
     createdAt?: string;
   };
+  capabilities?: string[];
   error?: string;
 }
 
+// Statuses an older server returns for the binary route it does not know
+const UNSUPPORTED_ROUTE_STATUSES = new Set([404, 405, 415]);
+
+export interface SyncApiClientOptions {
+  retryPolicy?: Partial<RetryPolicy>;
+  sleep?: (ms: number) => Promise<void>;
+  random?: () => number;
+}
+
+const parseOffset = (json: unknown): number | undefined => {
+  const offset = (json as { offset?: unknown } | null)?.offset;
+  return typeof offset === "number" ? offset : undefined;
+};
+
+const defaultSleep = (ms: number): Promise<void> =>
+  new Promise((resolve) => setTimeout(resolve, ms));
+
 export class SyncApiClient {
   private config: SyncConfig;
   private http: HttpClient;
+  private retryPolicy: RetryPolicy;
+  private sleep: (ms: number) => Promise<void>;
+  private random: () => number;
+  private capabilities: Promise<Set<string>> | null = null;
 
-  constructor(config: SyncConfig, httpClient: HttpClient) {
+  constructor(config: SyncConfig, httpClient: HttpClient, options: SyncApiClientOptions = {}) {
     this.config = config;
     this.http = httpClient;
+    this.retryPolicy = normalizeRetryPolicy(options.retryPolicy ?? DEFAULT_RETRY_POLICY);
+    this.sleep = options.sleep ?? defaultSleep;
+    this.random = options.random ?? Math.random;
   }
 
   updateConfig(config: SyncConfig): void {
     this.config = config;
+    this.capabilities = null;
   }
 
-  async getVaultInfo(): Promise<VaultInfoResponse> {
+  updateRetryPolicy(policy: Partial<RetryPolicy>): void {
+    this.retryPolicy = normalizeRetryPolicy(policy);
+  }
+
+  /**
+   * Send a request, retrying network errors and transient statuses.
+   * Non-retryable responses are returned as-is; the last error is rethrown.
+   * Aborting `req.signal` rejects immediately, also while waiting to retry.
+   */
+  private async send(req: HttpRequest): Promise<HttpResponse> {
+    const policy = this.retryPolicy;
+    for (let attempt = 1; ; attempt++) {
+      throwIfAborted(req.signal);
+      let response: HttpResponse;
+      try {
+        response = await this.http.request(req);
+      } catch (error) {
+        if (isAbortError(error) || attempt >= policy.maxAttempts) throw error;
+        await raceAbort(this.sleep(computeBackoffDelay(attempt, policy, this.random)), req.signal);
+        continue;
+      }
+
+      if (!isRetryableStatus(response.status) || attempt >= policy.maxAttempts) {
+        return response;
+      }
+
+      const retryAfter = parseRetryAfter(getHeader(response.headers, "retry-after"));
+      await raceAbort(
+        this.sleep(
+          retryAfter !== null
+            ? Math.min(retryAfter, policy.maxDelayMs)
+            : computeBackoffDelay(attempt, policy, this.random),
+        ),
+        req.signal,
+      );
+    }
+  }
+
+  async getVaultInfo(signal?: AbortSignal): Promise<VaultInfoResponse> {
     try {
-      const response = await this.http.request({
+      const response = await this.send({
         url: `${this.config.serverUrl}/obsidian/vault/info`,
         method: "GET",
         headers: {
           Authorization: `Bearer ${this.config.publishKey}`,
         },
+        signal,
       });
 
       if (response.status === 200) {
-        const data = response.json as { vault: VaultInfoResponse["vault"] };
-        return { success: true, vault: data.vault };
+        const data = response.json as {
+          vault: VaultInfoResponse["vault"];
+          capabilities?: unknown;
+        };
+        const capabilities = Array.isArray(data.capabilities)
+          ? data.capabilities.filter((value): value is string => typeof value === "string")
+          : [];
+        return { success: true, vault: data.vault, capabilities };
       }
       return {
         success: false,
         error: `HTTP ${response.status}: ${response.text}`,
       };
     } catch (error) {
+      if (isAbortError(error)) throw error;
       return {
         success: false,
         error: error instanceof Error ? error.message : "Unknown error",
@@ -95,9 +287,12 @@ export class SyncApiClient {
     }
   }
 
-  async syncChanges(request: SyncChangesRequest): Promise<SyncChangesResponse> {
+  async syncChanges(
+    request: SyncChangesRequest,
+    signal?: AbortSignal,
+  ): Promise<SyncChangesResponse> {
     try {
-      const response = await this.http.request({
+      const response = await this.send({
         url: `${this.config.serverUrl}/obsidian/sync/changes`,
         method: "POST",
         headers: {
@@ -105,6 +300,7 @@ export class SyncApiClient {
           Authorization: `Bearer ${this.config.publishKey}`,
         },
         body: JSON.stringify(request),
+        signal,
       });
 
       if (response.status === 200) {
@@ -112,11 +308,64 @@ export class SyncApiClient {
         return { success: true, ...data };
       }
 
+      const guard = (response.json as { deletion_guard?: DeletionGuardViolation } | null)
+        ?.deletion_guard;
       return {
         success: false,
+        status: response.status,
+        deletion_guard: response.status === 409 ? guard : undefined,
         error: `HTTP ${response.status}: ${response.text}`,
       };
     } catch (error) {
+      if (isAbortError(error)) throw error;
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : "Unknown error",
+      };
+    }
+  }
+
+  /**
+   * Diff a snapshot against the server without applying anything
+   */
+  async planChanges(
+    request: SyncChangesRequest,
+    signal?: AbortSignal,
+  ): Promise<{ success: boolean; plan?: SyncChangesPlan; error?: string }> {
+    try {
+      const response = await this.send({
+        url: `${this.config.serverUrl}/obsidian/sync/changes/plan`,
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          Authorization: `Bearer ${this.config.publishKey}`,
+        },
+        body: JSON.stringify(request),
+        signal,
+      });
+
+      if (response.status === 200) {
+        const data = response.json as Partial<SyncChangesPlan>;
+        const changeSet = (value?: Partial<SyncChangeSet>): SyncChangeSet => ({
+          add: value?.add ?? [],
+          update: value?.update ?? [],
+          delete: value?.delete ?? [],
+        });
+        return {
+          success: true,
+          plan: {
+            notes: changeSet(data.notes),
+            assets: changeSet(data.assets),
+            ...(data.deletion_guard ? { deletion_guard: data.deletion_guard } : {}),
+          },
+        };
+      }
+      return {
+        success: false,
+        error: `HTTP ${response.status}: ${response.text}`,
+      };
+    } catch (error) {
+      if (isAbortError(error)) throw error;
       return {
         success: false,
         error: error instanceof Error ? error.message : "Unknown error",
@@ -127,14 +376,18 @@ export class SyncApiClient {
   async syncNote(
     noteId: string,
     request: SyncNoteRequest,
+    signal?: AbortSignal,
   ): Promise<{
     success: boolean;
+    status?: number;
     error?: string;
+    /** Set on 409 when the note changed on the server since `base_hash` */
+    conflict?: NoteConflict;
     need_upload_assets?: Array<{ id: string; hash: string }>;
     need_upload_notes?: Array<{ id: string; hash: string }>;
   }> {
     try {
-      const response = await this.http.request({
+      const response = await this.send({
         url: `${this.config.serverUrl}/obsidian/sync/notes/${encodeURIComponent(noteId)}`,
         method: "POST",
         headers: {
@@ -142,6 +395,7 @@ export class SyncApiClient {
           Authorization: `Bearer ${this.config.publishKey}`,
         },
         body: JSON.stringify(request),
+        signal,
       });
 
       if (response.status === 200) {
@@ -151,15 +405,55 @@ export class SyncApiClient {
         };
         return {
           success: true,
+          status: response.status,
           need_upload_assets: data.need_upload_assets,
           need_upload_notes: data.need_upload_notes,
         };
       }
+      const conflict =
+        response.status === 409
+          ? (response.json as { conflict?: NoteConflict } | null)?.conflict
+          : undefined;
       return {
         success: false,
+        status: response.status,
         error: `HTTP ${response.status}: ${response.text}`,
+        ...(conflict ? { conflict } : {}),
       };
     } catch (error) {
+      if (isAbortError(error)) throw error;
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : "Unknown error",
+      };
+    }
+  }
+
+  /** Take a single note down without sending a full snapshot */
+  async deleteNote(
+    noteId: string,
+    signal?: AbortSignal,
+  ): Promise<{ success: boolean; status?: number; error?: string }> {
+    try {
+      const response = await this.send({
+        url: `${this.config.serverUrl}/obsidian/sync/notes/${encodeURIComponent(noteId)}`,
+        method: "DELETE",
+        headers: {
+          Authorization: `Bearer ${this.config.publishKey}`,
+        },
+        signal,
+      });
+
+      if (response.status === 200) {
+        return { success: true, status: response.status };
+      }
+      return {
+        success: false,
+        status: response.status,
+        error: `HTTP ${response.status}: ${response.text}`,
+      };
+    } catch (error) {
+      if (isAbortError(error)) throw error;
       return {
         success: false,
         error: error instanceof Error ? error.message : "Unknown error",
@@ -170,9 +464,10 @@ export class SyncApiClient {
   async syncAsset(
     assetId: string,
     request: SyncAssetRequest,
-  ): Promise<{ success: boolean; error?: string }> {
+    signal?: AbortSignal,
+  ): Promise<{ success: boolean; status?: number; error?: string }> {
     try {
-      const response = await this.http.request({
+      const response = await this.send({
         url: `${this.config.serverUrl}/obsidian/sync/assets/${encodeURIComponent(assetId)}`,
         method: "POST",
         headers: {
@@ -180,20 +475,363 @@ export class SyncApiClient {
           Authorization: `Bearer ${this.config.publishKey}`,
         },
         body: JSON.stringify(request),
+        signal,
       });
 
       if (response.status === 200) {
-        return { success: true };
+        return { success: true, status: response.status };
       }
       return {
         success: false,
+        status: response.status,
         error: `HTTP ${response.status}: ${response.text}`,
       };
     } catch (error) {
+      if (isAbortError(error)) throw error;
       return {
         success: false,
         error: error instanceof Error ? error.message : "Unknown error",
       };
     }
   }
+
+  /**
+   * Upload raw asset bytes (no base64) to `PUT /obsidian/sync/assets/{id}/content`
+   */
+  async syncAssetBinary(
+    assetId: string,
+    metadata: SyncAssetMetadata,
+    content: ArrayBuffer,
+    signal?: AbortSignal,
+  ): Promise<{ success: boolean; status?: number; error?: string }> {
+    const query = new URLSearchParams({
+      path: metadata.path,
+      hash: metadata.hash,
+      size: String(metadata.size),
+    });
+    try {
+      const response = await this.send({
+        url: `${this.config.serverUrl}/obsidian/sync/assets/${encodeURIComponent(assetId)}/content?${query.toString()}`,
+        method: "PUT",
+        headers: {
+          "Content-Type": metadata.contentType,
+          Authorization: `Bearer ${this.config.publishKey}`,
+        },
+        body: content,
+        signal,
+      });
+
+      if (response.status === 200) {
+        return { success: true, status: response.status };
+      }
+      return {
+        success: false,
+        status: response.status,
+        error: `HTTP ${response.status}: ${response.text}`,
+      };
+    } catch (error) {
+      if (isAbortError(error)) throw error;
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : "Unknown error",
+      };
+    }
+  }
+
+  /**
+   * Start or resume a chunked upload: `POST /obsidian/sync/uploads`
+   */
+  async initUpload(
+    assetId: string,
+    metadata: SyncAssetMetadata,
+    signal?: AbortSignal,
+  ): Promise<UploadInitResponse> {
+    try {
+      const response = await this.send({
+        url: `${this.config.serverUrl}/obsidian/sync/uploads`,
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          Authorization: `Bearer ${this.config.publishKey}`,
+        },
+        body: JSON.stringify({ id: assetId, ...metadata }),
+        signal,
+      });
+
+      if (response.status === 200) {
+        const data = response.json as {
+          status?: string;
+          uploadId?: string;
+          offset?: number;
+          chunkSize?: number;
+        };
+        if (data.status === "skipped") {
+          return { success: true, skipped: true };
+        }
+        if (typeof data.uploadId !== "string") {
+          return { success: false, error: "Invalid upload session response" };
+        }
+        return {
+          success: true,
+          session: {
+            uploadId: data.uploadId,
+            hash: metadata.hash,
+            size: metadata.size,
+            offset: typeof data.offset === "number" ? data.offset : 0,
+          },
+          chunkSize: data.chunkSize,
+        };
+      }
+      return {
+        success: false,
+        status: response.status,
+        error: `HTTP ${response.status}: ${response.text}`,
+      };
+    } catch (error) {
+      if (isAbortError(error)) throw error;
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : "Unknown error",
+      };
+    }
+  }
+
+  /**
+   * Bytes the server has received for an upload: `GET /obsidian/sync/uploads/{uploadId}`
+   */
+  async getUploadStatus(uploadId: string, signal?: AbortSignal): Promise<UploadChunkResponse> {
+    try {
+      const response = await this.send({
+        url: `${this.config.serverUrl}/obsidian/sync/uploads/${encodeURIComponent(uploadId)}`,
+        method: "GET",
+        headers: {
+          Authorization: `Bearer ${this.config.publishKey}`,
+        },
+        signal,
+      });
+
+      if (response.status === 200) {
+        return { success: true, status: response.status, offset: parseOffset(response.json) };
+      }
+      return {
+        success: false,
+        status: response.status,
+        error: `HTTP ${response.status}: ${response.text}`,
+      };
+    } catch (error) {
+      if (isAbortError(error)) throw error;
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : "Unknown error",
+      };
+    }
+  }
+
+  /**
+   * Append a chunk at `offset`: `PUT /obsidian/sync/uploads/{uploadId}?offset=N`.
+   * A 409 response carries the offset the server expects instead.
+   */
+  async uploadChunk(
+    uploadId: string,
+    offset: number,
+    chunk: ArrayBuffer,
+    signal?: AbortSignal,
+  ): Promise<UploadChunkResponse> {
+    try {
+      const response = await this.send({
+        url: `${this.config.serverUrl}/obsidian/sync/uploads/${encodeURIComponent(uploadId)}?offset=${offset}`,
+        method: "PUT",
+        headers: {
+          "Content-Type": "application/octet-stream",
+          Authorization: `Bearer ${this.config.publishKey}`,
+        },
+        body: chunk,
+        signal,
+      });
+
+      if (response.status === 200) {
+        return { success: true, status: response.status, offset: parseOffset(response.json) };
+      }
+      return {
+        success: false,
+        status: response.status,
+        offset: parseOffset(response.json),
+        error: `HTTP ${response.status}: ${response.text}`,
+      };
+    } catch (error) {
+      if (isAbortError(error)) throw error;
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : "Unknown error",
+      };
+    }
+  }
+
+  /**
+   * Finish an upload with the final hash: `POST /obsidian/sync/uploads/{uploadId}/commit`
+   */
+  async commitUpload(
+    uploadId: string,
+    hash: string,
+    signal?: AbortSignal,
+  ): Promise<UploadChunkResponse> {
+    try {
+      const response = await this.send({
+        url: `${this.config.serverUrl}/obsidian/sync/uploads/${encodeURIComponent(uploadId)}/commit`,
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          Authorization: `Bearer ${this.config.publishKey}`,
+        },
+        body: JSON.stringify({ hash }),
+        signal,
+      });
+
+      if (response.status === 200) {
+        return { success: true, status: response.status };
+      }
+      return {
+        success: false,
+        status: response.status,
+        offset: parseOffset(response.json),
+        error: `HTTP ${response.status}: ${response.text}`,
+      };
+    } catch (error) {
+      if (isAbortError(error)) throw error;
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : "Unknown error",
+      };
+    }
+  }
+
+  /**
+   * Upload an asset in chunks, resuming `options.session` when it is still
+   * known to the server. Stops at the first failed chunk so the session can
+   * be resumed later.
+   */
+  async uploadAssetChunked(
+    assetId: string,
+    metadata: SyncAssetMetadata,
+    content: ArrayBuffer,
+    options: UploadAssetOptions = {},
+  ): Promise<{ success: boolean; status?: number; error?: string }> {
+    const { signal } = options;
+    const report = options.onSession ?? (() => {});
+    let session: UploadSession | null = null;
+    let chunkSize = DEFAULT_CHUNK_SIZE;
+
+    if (options.session) {
+      const status = await this.getUploadStatus(options.session.uploadId, signal);
+      if (status.success && status.offset !== undefined) {
+        session = { ...options.session, offset: status.offset };
+      } else if (status.status === undefined) {
+        return { success: false, error: status.error };
+      }
+    }
+
+    if (!session) {
+      const init = await this.initUpload(assetId, metadata, signal);
+      if (!init.success) return { success: false, status: init.status, error: init.error };
+      if (init.skipped || !init.session) {
+        report(null);
+        return { success: true };
+      }
+      session = init.session;
+      if (init.chunkSize && init.chunkSize > 0) chunkSize = init.chunkSize;
+    }
+    report(session);
+
+    while (session.offset < content.byteLength) {
+      const end = Math.min(session.offset + chunkSize, content.byteLength);
+      const result = await this.uploadChunk(
+        session.uploadId,
+        session.offset,
+        content.slice(session.offset, end),
+        signal,
+      );
+      if (
+        result.offset === undefined ||
+        (!result.success && (result.status !== 409 || result.offset === session.offset))
+      ) {
+        return {
+          success: false,
+          status: result.status,
+          error: result.error ?? "Invalid upload chunk response",
+        };
+      }
+      session = { ...session, offset: result.offset };
+      report(session);
+    }
+
+    const commit = await this.commitUpload(session.uploadId, metadata.hash, signal);
+    if (commit.success) {
+      report(null);
+      return { success: true, status: commit.status };
+    }
+    if (commit.status === 400 || commit.status === 404) {
+      // Content rejected or session expired: the next attempt starts over
+      report(null);
+    }
+    return { success: false, status: commit.status, error: commit.error };
+  }
+
+  /**
+   * Upload an asset: large assets use resumable chunks, others the binary
+   * route when the server supports it, falling back to the base64 JSON route
+   * for older servers.
+   */
+  async uploadAsset(
+    assetId: string,
+    metadata: SyncAssetMetadata,
+    content: ArrayBuffer,
+    options: UploadAssetOptions = {},
+  ): Promise<{ success: boolean; status?: number; error?: string }> {
+    if (
+      content.byteLength >= CHUNKED_UPLOAD_THRESHOLD &&
+      (await this.hasCapability(CAPABILITY_ASSET_CHUNKED))
+    ) {
+      return this.uploadAssetChunked(assetId, metadata, content, options);
+    }
+
+    if (await this.hasCapability(CAPABILITY_ASSET_BINARY)) {
+      const result = await this.syncAssetBinary(assetId, metadata, content, options.signal);
+      if (result.status === undefined || !UNSUPPORTED_ROUTE_STATUSES.has(result.status)) {
+        return result;
+      }
+      // Advertised but not routed (e.g. a proxy in front of an older server)
+      this.capabilities =
+        this.capabilities?.then((set) => {
+          const next = new Set(set);
+          next.delete(CAPABILITY_ASSET_BINARY);
+          return next;
+        }) ?? null;
+    }
+
+    return this.syncAsset(
+      assetId,
+      {
+        ...metadata,
+        content: bytesToBase64(new Uint8Array(content)),
+      },
+      options.signal,
+    );
+  }
+
+  /**
+   * Whether the server advertises a capability.
+   * Looked up once per config; a failed lookup is retried next time.
+   */
+  async hasCapability(name: string): Promise<boolean> {
+    if (!this.capabilities) {
+      const pending = this.getVaultInfo().then((info) => {
+        if (!info.success && this.capabilities === pending) {
+          this.capabilities = null;
+        }
+        return new Set(info.capabilities ?? []);
+      });
+      this.capabilities = pending;
+    }
+    return (await this.capabilities).has(name);
+  }
 }
@@ -1,7 +1,7 @@
 import type { App, TFile } from "obsidian";
 import { beforeEach, describe, expect, test } from "vitest";
 import { MockApp, MockTFile } from "../test/setup";
-import { ensureClientId, getClientId, getOrCreateClientId } from "./client-id";
+import { ensureClientId, getClientId, getOrCreateClientId, replaceClientId } from "./client-id";
 
 describe("getOrCreateClientId", () => {
   let mockApp: MockApp;
@@ -303,3 +303,26 @@ title: Test
     expect(afterContent).toContain(`mdbrain-id: ${id}`);
   });
 });
+
+describe("replaceClientId", () => {
+  test("overwrites the existing ID and keeps other frontmatter", async () => {
+    const mockApp = new MockApp();
+    const file = new MockTFile("copy.md") as unknown as TFile;
+    mockApp.vault.setFileContent(
+      "copy.md",
+      `---
+title: Copy
+mdbrain-id: original-id
+---
+# Content`,
+    );
+
+    const id = await replaceClientId(file, mockApp as unknown as App);
+
+    const content = await mockApp.vault.read(file);
+    expect(id).not.toBe("original-id");
+    expect(content).toContain(`mdbrain-id: ${id}`);
+    expect(content).toContain("title: Copy");
+    expect(content).not.toContain("original-id");
+  });
+});
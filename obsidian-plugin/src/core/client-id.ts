@@ -38,6 +38,17 @@ export async function ensureClientId(file: TFile, app: App): Promise<string> {
   return newId;
 }
 
+/**
+ * Give a note a fresh ID, e.g. when it was copied along with its original's frontmatter
+ */
+export async function replaceClientId(file: TFile, app: App): Promise<string> {
+  const newId = crypto.randomUUID();
+  await app.fileManager.processFrontMatter(file, (frontmatter) => {
+    frontmatter[CLIENT_ID_KEY] = newId;
+  });
+  return newId;
+}
+
 /** @deprecated Use getClientId or ensureClientId instead */
 export async function getOrCreateClientId(file: TFile, content: string, app: App): Promise<string> {
   const cache = app.metadataCache.getFileCache(file);
@@ -9,16 +9,108 @@
 // Settings
 // =============================================================================
 
-export interface MdbrainSettings {
+/**
+ * Where note IDs (`mdbrain-id`) live: in each note's frontmatter, or in a
+ * path-to-ID map in plugin data that is only filled when a note is published
+ */
+export type NoteIdStorage = "frontmatter" | "plugin-data";
+
+/**
+ * Which files a profile publishes. Folder rules are globs (`**` spans folders)
+ * that also match everything below a matching folder. Empty include lists
+ * publish everything.
+ */
+export interface PublishFilters {
+  includeFolders: string[];
+  excludeFolders: string[];
+  /** Without `#`; nested tags are covered by their parent */
+  includeTags: string[];
+  excludeTags: string[];
+  /** Skips larger notes and assets; 0 = no limit */
+  maxFileSizeKb: number;
+}
+
+/**
+ * A named publish destination with its own server, key, filters and
+ * auto-publish toggle
+ */
+export interface PublishProfile {
+  id: string;
+  name: string;
   serverUrl: string;
   publishKey: string;
   autoSync: boolean;
+  filters: PublishFilters;
 }
 
-export const DEFAULT_SETTINGS: MdbrainSettings = {
+export interface MdbrainSettings {
+  profiles: PublishProfile[];
+  retryMaxAttempts: number;
+  retryBaseDelayMs: number;
+  retryMaxDelayMs: number;
+  deletionGuardMaxNotes: number;
+  deletionGuardMaxPercent: number;
+  noteIdStorage: NoteIdStorage;
+  /** Frontmatter key that opts a note in (`true`) or out (`false`) of publishing */
+  publishFlagKey: string;
+  /** Only publish notes whose flag is `true`; `false` always vetoes */
+  requirePublishFlag: boolean;
+  /** Remove `%% comments %%` before upload */
+  stripComments: boolean;
+  /** Callout types removed before upload, e.g. `private` for `> [!private]` */
+  privateCalloutTypes: string[];
+  /** Lines around regions removed before upload; an empty start disables them */
+  privateStartMarker: string;
+  privateEndMarker: string;
+  /** Frontmatter properties left out of published notes */
+  frontmatterDenylist: string[];
+  /** When not empty, the only frontmatter properties published */
+  frontmatterAllowlist: string[];
+  /** Block publishing notes that seem to contain secrets */
+  secretScanning: boolean;
+  /** Extra regular expressions treated as secrets */
+  customSecretPatterns: string[];
+  /** Write embedded notes (`![[note]]`) out into the notes embedding them */
+  expandEmbeds: boolean;
+  /** How many embeds deep nested embeds are written out */
+  maxEmbedDepth: number;
+}
+
+export const DEFAULT_PROFILE: PublishProfile = {
+  id: "default",
+  name: "Default",
   serverUrl: "https://api.mdbrain.com",
   publishKey: "",
   autoSync: true,
+  filters: {
+    includeFolders: [],
+    excludeFolders: [],
+    includeTags: [],
+    excludeTags: [],
+    maxFileSizeKb: 0,
+  },
+};
+
+export const DEFAULT_SETTINGS: MdbrainSettings = {
+  profiles: [DEFAULT_PROFILE],
+  retryMaxAttempts: 4,
+  retryBaseDelayMs: 500,
+  retryMaxDelayMs: 30_000,
+  deletionGuardMaxNotes: 20,
+  deletionGuardMaxPercent: 50,
+  noteIdStorage: "frontmatter",
+  publishFlagKey: "publish",
+  requirePublishFlag: false,
+  stripComments: true,
+  privateCalloutTypes: ["private"],
+  privateStartMarker: "<!-- private -->",
+  privateEndMarker: "<!-- /private -->",
+  frontmatterDenylist: ["mdbrain-id", "mdbrain-allow-secrets"],
+  frontmatterAllowlist: [],
+  secretScanning: true,
+  customSecretPatterns: [],
+  expandEmbeds: false,
+  maxEmbedDepth: 3,
 };
 
 // =============================================================================
@@ -30,6 +122,27 @@ export interface SyncConfig {
   publishKey: string;
 }
 
+/**
+ * Retry policy for publish requests.
+ * `maxAttempts` counts the first try; delays use capped exponential backoff.
+ */
+export interface RetryPolicy {
+  maxAttempts: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+}
+
+/**
+ * Progress of a resumable (chunked) asset upload.
+ * `offset` is the number of bytes the server has acknowledged.
+ */
+export interface UploadSession {
+  uploadId: string;
+  hash: string;
+  size: number;
+  offset: number;
+}
+
 // =============================================================================
 // Note Metadata (extracted from Obsidian's metadataCache)
 // =============================================================================
@@ -47,15 +160,64 @@ export interface TagInfo {
 export interface HeadingInfo {
   heading: string;
   level: number;
+  /** Anchor for the heading, unique within the note */
+  slug: string;
+  position: Position;
+}
+
+export interface LinkInfo {
+  /** Target without subpath, e.g. `Note` for `[[Note#Setup|Read this]]` */
+  link: string;
+  /** Heading path (`Setup`, `Setup#Step 1`) or block reference (`^abc123`); absent for the whole note */
+  subpath?: string;
+  displayText?: string;
+  /** `![[...]]` rather than `[[...]]` */
+  embed: boolean;
+  /** The link as written */
+  original: string;
+  position: Position;
+}
+
+export interface BlockInfo {
+  /** Block ID without the caret */
+  id: string;
   position: Position;
 }
 
+export interface BacklinkInfo {
+  /** mdbrain-id of the linking note */
+  id: string;
+  path: string;
+}
+
 export interface NoteMetadata {
   tags?: TagInfo[];
   headings?: HeadingInfo[];
+  links?: LinkInfo[];
+  blocks?: BlockInfo[];
+  /** Published notes linking to this one */
+  backlinks?: BacklinkInfo[];
   frontmatter?: Record<string, unknown>;
 }
 
+/**
+ * What a canvas file node shows, once resolved to a published document or asset
+ */
+export interface CanvasFileRef {
+  /** Canvas node ID */
+  node: string;
+  kind: "document" | "asset";
+  /** mdbrain-id of the document, or the asset's ID */
+  id: string;
+  path: string;
+}
+
+export interface CanvasMetadata {
+  files: CanvasFileRef[];
+  /** Published notes linking to the canvas */
+  backlinks?: BacklinkInfo[];
+}
+
 // =============================================================================
 // Port Interfaces (for dependency injection)
 // =============================================================================
@@ -3,73 +3,346 @@
  */
 
 import { type App, Notice, Plugin, type PluginManifest, TFile } from "obsidian";
-import { ObsidianHttpClient } from "./api";
-import { SyncApiClient, type SyncSnapshotEntry } from "./api/sync-api";
-import { ensureClientId, getClientId } from "./core/client-id";
-import { DEFAULT_SETTINGS, type MdbrainSettings } from "./domain/types";
-import { MdbrainSettingTab, registerFileEvents } from "./plugin";
+import { isAbortError, ObsidianHttpClient, throwIfAborted } from "./api";
 import {
+  type DeletionGuard,
+  type DeletionGuardViolation,
+  type NoteConflict,
+  SyncApiClient,
+  type SyncSnapshotEntry,
+} from "./api/sync-api";
+import { ensureClientId, getClientId, replaceClientId } from "./core/client-id";
+import {
+  type BacklinkInfo,
+  type CanvasMetadata,
+  DEFAULT_SETTINGS,
+  type MdbrainSettings,
+  type PublishProfile,
+  type RetryPolicy,
+} from "./domain/types";
+import {
+  ActivityLogView,
+  DuplicateIdReportModal,
+  LinkReportView,
+  MdbrainSettingTab,
+  NoteConflictModal,
+  PublishPreviewModal,
+  PublishStatusBar,
+  registerFileEvents,
+  SecretReportModal,
+  VIEW_TYPE_ACTIVITY_LOG,
+  VIEW_TYPE_LINK_REPORT,
+} from "./plugin";
+import {
+  type ActivityEntry,
+  ActivityLog,
+  type ActivityOperation,
+  ALLOW_SECRETS_KEY,
+  BaseHashStore,
   type CachedMetadataLike,
+  type CanvasFileTarget,
+  type ClientIdEntry,
+  compileSecretRules,
+  createPublishProfile,
   DebounceService,
+  type DuplicateClientId,
+  describeDeletionGuardViolation,
+  describeLinkReport,
+  describeSecretFindings,
+  type EmbeddedNote,
+  expandTransclusions,
+  extractCanvasLinkpaths,
+  extractEmbedLinkpathsFromCache,
   extractInternalLinkpathsFromCache,
+  extractNoteLinks,
   extractNoteMetadata,
+  extractNoteTags,
+  type FrontmatterRules,
+  findDuplicateClientIds,
+  findLinkProblems,
+  HashCache,
+  isProfileConfigured,
+  type LinkProblem,
+  LinkReport,
+  type LinkTargetState,
+  mergeLinkProblems,
+  NoteIdMap,
+  omitUnpublishedReferences,
+  type PublishedCanvas,
+  PublishFilter,
+  PublishProgress,
+  PublishQueue,
+  type PublishQueueItem,
+  PublishStatus,
+  parseCanvas,
+  publishCanvas,
   ReferenceIndex,
+  readPublishFlag,
+  redactFrontmatter,
+  redactFrontmatterBlock,
+  resolvePublishPlan,
+  restorePublishProfiles,
+  restoreRedactedFrontmatter,
+  type SanitizeOptions,
+  type SecretFinding,
+  SecretReport,
+  sanitizeNoteContent,
+  scanForSecrets,
+  serializeCanvas,
+  type TransclusionResult,
+  UploadSessionStore,
 } from "./services";
-import { getContentType, hashString, isAssetFile, md5Hash } from "./utils";
-import { extractAssetPaths, extractNotePaths } from "./utils/asset-links";
+import {
+  getContentType,
+  hashString,
+  isAssetFile,
+  isCanvasFile,
+  isDocumentFile,
+  md5Hash,
+} from "./utils";
+import { extractAssetPaths, extractEmbedPaths, extractNotePaths } from "./utils/asset-links";
+
+const QUEUE_RETRY_INTERVAL_MS = 60_000;
+const HASH_CACHE_FILE = "hash-cache.json";
+const ACTIVITY_LOG_FILE = "activity-log.json";
+const NOT_CONFIGURED_NOTICE =
+  "Publish is not configured. Set Publish URL and Key in Mdbrain settings.";
+
+/**
+ * Everything a full publish sends, captured once so a previewed plan is
+ * committed exactly as shown
+ */
+interface PublishSnapshot {
+  startedAt: number;
+  notes: SyncSnapshotEntry[];
+  assets: SyncSnapshotEntry[];
+  referencedAssets: TFile[];
+  /** Note/asset client ID to vault path */
+  paths: Map<string, string>;
+}
+
+/**
+ * A running full publish: cancelled through `signal`, reported through `progress`
+ */
+interface PublishRun {
+  signal: AbortSignal;
+  progress: PublishProgress;
+}
+
+/**
+ * Outcome of publishing one note or canvas, with what the server still needs
+ */
+interface NoteSyncResult {
+  success: boolean;
+  /** The server has another version; a conflict prompt was opened */
+  conflict?: boolean;
+  /** The document was kept from being sent: possible secrets or an unreadable canvas */
+  blocked?: boolean;
+  needUploadAssets: Array<{ id: string; hash: string }>;
+  assetsById: Map<string, TFile>;
+  needUploadNotes: Array<{ id: string; hash: string }>;
+  linkedNotesById: Map<string, TFile>;
+}
+
+/**
+ * A publish profile with its client and the state kept per server
+ */
+interface PublishTarget {
+  profile: PublishProfile;
+  client: SyncApiClient;
+  /** Compiled from `profile.filters`; rebuilt when settings are saved */
+  filter: PublishFilter;
+  publishQueue: PublishQueue;
+  uploadSessions: UploadSessionStore;
+  baseHashes: BaseHashStore;
+  lastDeletionGuardNotice: string | null;
+}
 
 export default class MdbrainPlugin extends Plugin {
   settings!: MdbrainSettings;
-  syncClient!: SyncApiClient;
+  private httpClient = new ObsidianHttpClient();
+  /** By profile ID, created on first use */
+  private targets = new Map<string, PublishTarget>();
   private debounceService: DebounceService;
   private referenceIndex: ReferenceIndex;
   private referenceIndexReady: boolean;
+  /** Hashes of published (sanitized and redacted) note content */
+  private noteHashes: HashCache;
+  /** Sanitizer and redaction settings the note hashes were computed with */
+  private noteHashRules: string | null = null;
+  private assetHashes: HashCache;
+  /** Profile ID and path of each open conflict prompt */
+  private openConflicts = new Set<string>();
+  /** Unflagged notes already taken down from every profile since startup */
+  private unpublishedNotes = new Set<string>();
+  /** Profiles each note waits to be republished to, merged across changes */
+  private republishTargets = new Map<string, Set<PublishTarget>>();
+  /** Note IDs kept outside frontmatter ("plugin-data" storage) */
+  private noteIds: NoteIdMap;
+  private activePublish: { run: PublishRun; controller: AbortController } | null = null;
+  private publishStatus: PublishStatus;
+  private activityLog: ActivityLog;
+  private secretReport: SecretReport;
+  private linkReport: LinkReport;
+  private statusBar: PublishStatusBar | null = null;
 
   constructor(app: App, manifest: PluginManifest) {
     super(app, manifest);
     this.debounceService = new DebounceService();
+    this.noteHashes = new HashCache();
+    this.assetHashes = new HashCache();
+    this.noteIds = new NoteIdMap();
+    this.publishStatus = new PublishStatus();
+    this.activityLog = new ActivityLog();
+    this.secretReport = new SecretReport();
+    this.linkReport = new LinkReport();
     this.referenceIndex = this.createReferenceIndex();
     this.referenceIndexReady = false;
   }
 
-  private isSyncConfigured(): boolean {
-    const serverUrl = this.settings.serverUrl?.trim();
-    const publishKey = this.settings.publishKey?.trim();
-    return Boolean(serverUrl) && Boolean(publishKey);
+  private targetFor(profile: PublishProfile): PublishTarget {
+    let target = this.targets.get(profile.id);
+    if (!target) {
+      target = {
+        profile,
+        client: new SyncApiClient(
+          { serverUrl: profile.serverUrl, publishKey: profile.publishKey },
+          this.httpClient,
+          { retryPolicy: this.getRetryPolicy() },
+        ),
+        filter: new PublishFilter(profile.filters),
+        publishQueue: new PublishQueue(),
+        uploadSessions: new UploadSessionStore(),
+        baseHashes: new BaseHashStore(),
+        lastDeletionGuardNotice: null,
+      };
+      target.publishQueue.onChange(() => {
+        void this.savePluginData();
+      });
+      target.uploadSessions.onChange(() => {
+        void this.savePluginData();
+      });
+      this.targets.set(profile.id, target);
+    }
+    // The settings tab edits profiles in place, but loading replaces them.
+    if (target.profile !== profile) {
+      target.profile = profile;
+      target.filter = new PublishFilter(profile.filters);
+    }
+    return target;
   }
 
-  private ensureSyncConfigured(notify = false): boolean {
-    if (this.isSyncConfigured()) return true;
-    if (notify) {
-      new Notice("Publish is not configured. Set Publish URL and Key in Mdbrain settings.");
+  private get publishTargets(): PublishTarget[] {
+    return this.settings.profiles.map((profile) => this.targetFor(profile));
+  }
+
+  /**
+   * Configured targets for one profile, or for all of them
+   */
+  private resolveTargets(profileId?: string, notify = false): PublishTarget[] {
+    const targets = this.publishTargets.filter(
+      (target) =>
+        (profileId === undefined || target.profile.id === profileId) &&
+        isProfileConfigured(target.profile),
+    );
+    if (targets.length === 0 && notify) {
+      new Notice(NOT_CONFIGURED_NOTICE);
     }
-    return false;
+    return targets;
+  }
+
+  private get autoPublishEnabled(): boolean {
+    return this.settings.profiles.some((profile) => profile.autoSync);
+  }
+
+  private autoPublishTargets(): PublishTarget[] {
+    return this.resolveTargets().filter((target) => target.profile.autoSync);
+  }
+
+  /**
+   * Name the profile in messages once there is more than one
+   */
+  private forProfile(target: PublishTarget, message: string): string {
+    return this.settings.profiles.length > 1 ? `${target.profile.name}: ${message}` : message;
+  }
+
+  /**
+   * Whether the note's publish flag and the profile's filters let it be published
+   */
+  private includesNote(
+    target: PublishTarget,
+    file: TFile,
+    cache = this.app.metadataCache.getFileCache(file) as unknown as CachedMetadataLike | null,
+  ): boolean {
+    return (
+      this.isFlaggedForPublish(cache) &&
+      target.filter.includesNote(file.path, file.stat.size, extractNoteTags(cache))
+    );
+  }
+
+  /**
+   * `false` always vetoes; without a flag the note is published unless opt-in is required
+   */
+  private isFlaggedForPublish(cache: CachedMetadataLike | null): boolean {
+    const flag = readPublishFlag(cache, this.settings.publishFlagKey);
+    return flag ?? !this.settings.requirePublishFlag;
+  }
+
+  private includesAsset(target: PublishTarget, file: TFile): boolean {
+    return target.filter.includesAsset(file.path, file.stat.size);
+  }
+
+  getSyncClient(profile: PublishProfile): SyncApiClient {
+    return this.targetFor(profile).client;
   }
 
   async onload() {
     console.log("[Mdbrain] Plugin loading (snapshot publish)...");
     await this.loadSettings();
+    await this.loadHashCache();
+    await this.loadActivityLog();
 
-    const httpClient = new ObsidianHttpClient();
-    this.syncClient = new SyncApiClient(
-      {
-        serverUrl: this.settings.serverUrl,
-        publishKey: this.settings.publishKey,
-      },
-      httpClient,
-    );
+    this.noteIds.onChange(() => {
+      void this.savePluginData();
+    });
 
     this.addSettingTab(new MdbrainSettingTab(this.app, this));
 
+    this.registerView(
+      VIEW_TYPE_ACTIVITY_LOG,
+      (leaf) =>
+        new ActivityLogView(leaf, this.activityLog, {
+          rerun: (entry) => this.rerunActivityEntry(entry),
+          openFile: (path) => void this.app.workspace.openLinkText(path, "", false),
+        }),
+    );
+
+    this.registerView(
+      VIEW_TYPE_LINK_REPORT,
+      (leaf) =>
+        new LinkReportView(leaf, this.linkReport, {
+          check: async () => {
+            await this.runLinkCheck(this.publishTargets);
+          },
+          openLine: (path, line) => this.openLine(path, line),
+        }),
+    );
+
+    const statusBar = new PublishStatusBar(this.addStatusBarItem(), this.publishStatus, {
+      retry: () => this.retryFailedPublishes(),
+      cancelFullPublish: () => this.cancelFullSync(),
+      openActivityLog: () => void this.openActivityLog(),
+    });
+    this.statusBar = statusBar;
+    this.register(this.publishStatus.onChange(() => statusBar.render()));
+    this.register(
+      this.debounceService.onChange((pending) => this.publishStatus.setPending(pending)),
+    );
+
     this.addCommand({
       id: "sync-current-file",
       name: "Publish current file",
-      callback: () => {
-        const file = this.app.workspace.getActiveFile();
-        if (file && file.extension === "md") {
-          void this.syncCurrentFile(file);
-        }
-      },
+      callback: () => this.syncActiveFile(),
     });
 
     this.addCommand({
@@ -78,6 +351,50 @@ export default class MdbrainPlugin extends Plugin {
       callback: () => this.fullSync(),
     });
 
+    this.addCommand({
+      id: "preview-full-publish",
+      name: "Preview full publish",
+      callback: () => this.previewFullSync(),
+    });
+
+    for (const profile of this.settings.profiles) {
+      this.addProfileCommands(profile);
+    }
+
+    this.addCommand({
+      id: "cancel-full-publish",
+      name: "Cancel full publish",
+      checkCallback: (checking) => {
+        if (!this.activePublish) return false;
+        if (!checking) this.cancelFullSync();
+        return true;
+      },
+    });
+
+    this.addCommand({
+      id: "open-activity-log",
+      name: "Open publish activity log",
+      callback: () => this.openActivityLog(),
+    });
+
+    this.addCommand({
+      id: "show-secret-report",
+      name: "Show secret scan report",
+      callback: () => this.openSecretReport(),
+    });
+
+    this.addCommand({
+      id: "check-links",
+      name: "Check links",
+      callback: () => this.checkLinks(),
+    });
+
+    this.addCommand({
+      id: "retry-publish-queue",
+      name: "Retry pending publishes",
+      callback: () => this.drainPublishQueue(true),
+    });
+
     this.app.workspace.onLayoutReady(() => {
       void (async () => {
         await this.ensureAllNotesHaveClientIds();
@@ -91,23 +408,99 @@ export default class MdbrainPlugin extends Plugin {
             onFileDelete: (file) => this.handleFileDelete(file),
             onFileRename: (file, oldPath) => this.handleFileRename(file, oldPath),
             onAssetChange: (file) => this.handleAssetChange(file),
-            onAssetDelete: () => this.fullSync(),
-            onAssetRename: () => this.fullSync(),
+            onAssetDelete: (file) => this.handleAssetRemoved(file),
+            onAssetRename: (file, oldPath) => this.handleAssetRemoved(file, oldPath),
             onMarkdownCreated: (file) => this.handleMarkdownCreated(file),
+            onCanvasChange: (file) => this.handleCanvasChange(file),
           },
           (event) => this.registerEvent(event),
         );
 
+        this.registerInterval(
+          window.setInterval(() => {
+            void this.drainPublishQueue();
+            void this.saveHashCache();
+            void this.saveActivityLog();
+            // Keeps "last published N min ago" current
+            this.statusBar?.render();
+          }, QUEUE_RETRY_INTERVAL_MS),
+        );
+        // Uploads interrupted by a reload resume from their last acknowledged chunk
+        for (const { publishQueue, uploadSessions } of this.publishTargets) {
+          for (const path of uploadSessions.paths()) {
+            if (!publishQueue.has("asset", path)) {
+              publishQueue.enqueue("asset", path);
+            }
+          }
+        }
+        if (this.pendingPublishCount > 0) {
+          void this.drainPublishQueue(true);
+        }
+
         console.log("[Mdbrain] ✓ Plugin loaded");
       })();
     });
   }
 
+  get pendingPublishCount(): number {
+    return this.pendingPublishCountFor();
+  }
+
+  pendingPublishCountFor(profileId?: string): number {
+    return this.publishTargets
+      .filter((target) => profileId === undefined || target.profile.id === profileId)
+      .reduce((total, target) => total + target.publishQueue.size, 0);
+  }
+
+  /**
+   * Commands for one profile; their names keep the profile name they were
+   * registered with until the plugin reloads
+   */
+  private addProfileCommands(profile: PublishProfile): void {
+    const whenConfigured = (run: () => void) => (checking: boolean) => {
+      if (!this.resolveTargets(profile.id).length) return false;
+      if (!checking) run();
+      return true;
+    };
+    this.addCommand({
+      id: `sync-current-file-${profile.id}`,
+      name: `Publish current file to ${profile.name}`,
+      checkCallback: whenConfigured(() => this.syncActiveFile(profile.id)),
+    });
+    this.addCommand({
+      id: `sync-all-files-${profile.id}`,
+      name: `Publish all files to ${profile.name}`,
+      checkCallback: whenConfigured(() => void this.fullSync(true, profile.id)),
+    });
+    this.addCommand({
+      id: `preview-full-publish-${profile.id}`,
+      name: `Preview full publish to ${profile.name}`,
+      checkCallback: whenConfigured(() => void this.previewFullSync(profile.id)),
+    });
+  }
+
+  async addProfile(): Promise<PublishProfile> {
+    const profile = createPublishProfile(`Profile ${this.settings.profiles.length + 1}`);
+    this.settings.profiles.push(profile);
+    this.addProfileCommands(profile);
+    await this.saveSettings();
+    return profile;
+  }
+
+  /**
+   * Forget a profile with its pending publishes; the last profile stays
+   */
+  async removeProfile(profileId: string): Promise<void> {
+    if (this.settings.profiles.length <= 1) return;
+    this.settings.profiles = this.settings.profiles.filter((profile) => profile.id !== profileId);
+    await this.saveSettings();
+  }
+
   private createReferenceIndex(): ReferenceIndex {
     return new ReferenceIndex((linkpath, sourcePath) => {
       const resolved = this.app.metadataCache.getFirstLinkpathDest(linkpath, sourcePath);
       if (!(resolved instanceof TFile)) return null;
-      if (resolved.extension === "md") return { path: resolved.path, kind: "note" };
+      if (isDocumentFile(resolved)) return { path: resolved.path, kind: "note" };
       if (isAssetFile(resolved)) return { path: resolved.path, kind: "asset" };
       return null;
     });
@@ -130,19 +523,54 @@ export default class MdbrainPlugin extends Plugin {
     return results;
   }
 
+  private extractEmbedLinkpaths(content: string, cache: CachedMetadataLike | null): string[] {
+    return cache ? extractEmbedLinkpathsFromCache(cache) : [...new Set(extractEmbedPaths(content))];
+  }
+
   private async ensureAllNotesHaveClientIds(): Promise<void> {
     const files = this.app.vault.getMarkdownFiles();
+    const entries: ClientIdEntry[] = [];
     let assigned = 0;
     for (const file of files) {
-      const existingId = await getClientId(file, this.app);
-      if (!existingId) {
-        await ensureClientId(file, this.app);
+      let id = await this.getNoteId(file);
+      if (!id) {
+        // Mapped IDs are assigned when a note is first published
+        if (this.settings.noteIdStorage === "plugin-data") continue;
+        id = await ensureClientId(file, this.app);
         assigned++;
       }
+      entries.push({ path: file.path, id, ctime: file.stat.ctime });
     }
     if (assigned > 0) {
       console.log(`[Mdbrain] Assigned IDs to ${assigned} notes`);
     }
+
+    const repaired = await this.repairDuplicateClientIds(findDuplicateClientIds(entries));
+    if (repaired.length > 0) {
+      new DuplicateIdReportModal(this.app, repaired).open();
+    }
+  }
+
+  /**
+   * Give each copy a new ID so it stops overwriting its original on the server
+   * @returns The copies that were changed
+   */
+  private async repairDuplicateClientIds(
+    duplicates: DuplicateClientId[],
+  ): Promise<DuplicateClientId[]> {
+    const repaired: DuplicateClientId[] = [];
+    for (const duplicate of duplicates) {
+      const file = this.app.vault.getAbstractFileByPath(duplicate.path);
+      if (!(file instanceof TFile)) continue;
+      await replaceClientId(file, this.app);
+      // The base hash belonged to the original's server note.
+      for (const target of this.publishTargets) target.baseHashes.delete(file.path);
+      repaired.push(duplicate);
+    }
+    if (repaired.length > 0) {
+      console.log(`[Mdbrain] Gave new IDs to ${repaired.length} copied notes`);
+    }
+    return repaired;
   }
 
   private async buildReferenceIndexFromCurrentCache(): Promise<void> {
@@ -157,9 +585,19 @@ export default class MdbrainPlugin extends Plugin {
       ) as unknown as CachedMetadataLike | null;
       const content = cache ? "" : await this.app.vault.read(file);
       const linkpaths = this.extractLinkpaths(content, cache);
-      this.referenceIndex.updateNote(file.path, linkpaths);
+      this.referenceIndex.updateNote(
+        file.path,
+        linkpaths,
+        this.extractEmbedLinkpaths(content, cache),
+      );
       indexed++;
     }
+    for (const file of this.canvasFiles()) {
+      this.referenceIndex.updateNote(
+        file.path,
+        this.canvasLinkpaths(await this.app.vault.read(file)),
+      );
+    }
     this.referenceIndexReady = true;
     console.log(`[Mdbrain] Reference index: ${indexed}/${files.length}`);
   }
@@ -168,90 +606,609 @@ export default class MdbrainPlugin extends Plugin {
   // File Event Handlers
   // =========================================================================
 
+  /**
+   * The note's ID from frontmatter, falling back to the plugin-data map
+   */
+  private async getNoteId(file: TFile): Promise<string | null> {
+    return (await getClientId(file, this.app)) ?? this.noteIds.get(file.path) ?? null;
+  }
+
+  /**
+   * The note's ID, assigning one where the storage setting keeps new IDs.
+   * Canvases have no frontmatter, so theirs are always kept in plugin data.
+   */
+  private async ensureNoteId(file: TFile): Promise<string> {
+    const existing = await this.getNoteId(file);
+    if (existing) return existing;
+    if (this.settings.noteIdStorage === "plugin-data" || isCanvasFile(file)) {
+      const id = crypto.randomUUID();
+      this.noteIds.set(file.path, id);
+      return id;
+    }
+    return ensureClientId(file, this.app);
+  }
+
+  /**
+   * Frontmatter IDs are assigned up front, mapped IDs only once a note is
+   * published, so in "plugin-data" mode publishing assigns one
+   */
   private async getClientIdForSync(file: TFile): Promise<string | null> {
-    return getClientId(file, this.app);
+    if (this.settings.noteIdStorage === "plugin-data" || isCanvasFile(file)) {
+      return this.ensureNoteId(file);
+    }
+    return this.getNoteId(file);
   }
 
   async handleMarkdownCreated(file: TFile): Promise<void> {
-    await ensureClientId(file, this.app);
+    const id =
+      this.settings.noteIdStorage === "plugin-data"
+        ? await this.getNoteId(file)
+        : await ensureClientId(file, this.app);
+    if (!id) return;
+
+    // A copied note arrives with its original's ID
+    const entries: ClientIdEntry[] = [{ path: file.path, id, ctime: file.stat.ctime }];
+    for (const other of this.app.vault.getMarkdownFiles()) {
+      if (other.path === file.path) continue;
+      if ((await this.getNoteId(other)) === id) {
+        entries.push({ path: other.path, id, ctime: other.stat.ctime });
+      }
+    }
+    const repaired = await this.repairDuplicateClientIds(findDuplicateClientIds(entries));
+    if (repaired.length === 1) {
+      const [{ path, originalPath }] = repaired;
+      new Notice(`${path} had the same mdbrain-id as ${originalPath} and was given a new one`);
+    } else if (repaired.length > 1) {
+      new DuplicateIdReportModal(this.app, repaired).open();
+    }
   }
 
-  private async syncCurrentFile(file: TFile): Promise<void> {
-    if (!this.ensureSyncConfigured(true)) {
-      return;
+  private syncActiveFile(profileId?: string): void {
+    const file = this.app.workspace.getActiveFile();
+    if (file && isDocumentFile(file)) {
+      void this.syncCurrentFile(file, profileId);
     }
-    const result = await this.syncNoteFile(file);
+  }
+
+  /**
+   * Publish a note to one profile, or to every configured profile
+   */
+  async syncCurrentFile(file: TFile, profileId?: string): Promise<void> {
+    for (const target of this.resolveTargets(profileId, true)) {
+      if (!this.includesNote(target, file)) {
+        new Notice(this.forProfile(target, `${file.path} is excluded from publishing`));
+        continue;
+      }
+      await this.publishNote(target, file);
+    }
+  }
+
+  private async publishNote(target: PublishTarget, file: TFile): Promise<void> {
+    const result = await this.syncNoteFile(target, file);
+    if (result.conflict || result.blocked) return;
     if (!result.success) {
-      new Notice("Publish failed: note upload failed");
+      target.publishQueue.enqueue("note", file.path);
+      new Notice(this.forProfile(target, "Publish failed: note upload failed"));
       return;
     }
-    await this.syncAssetsForNote(file, result.needUploadAssets, result.assetsById);
-    await this.syncLinkedNotesForNote(file, result.needUploadNotes, result.linkedNotesById);
+    target.publishQueue.complete("note", file.path);
+    await this.syncAssetsForNote(target, file, result.needUploadAssets, result.assetsById);
+    await this.syncLinkedNotesForNote(target, file, result.needUploadNotes, result.linkedNotesById);
   }
 
   handleMarkdownCacheChanged(file: TFile, data: string, cache: CachedMetadataLike | null): void {
-    if (!this.settings.autoSync) return;
+    const { addedNotes, removedNotes } = this.referenceIndex.updateNote(
+      file.path,
+      this.extractLinkpaths(data, cache),
+      this.extractEmbedLinkpaths(data, cache),
+    );
+    if (!this.autoPublishEnabled) return;
 
-    this.referenceIndex.updateNote(file.path, this.extractLinkpaths(data, cache));
+    this.republishEmbeddingNotes(file.path);
+    // Linked notes list this one among their backlinks where it is published.
+    this.republishNotes(
+      [...addedNotes, ...removedNotes],
+      this.autoPublishTargets().filter((target) => this.includesNote(target, file, cache)),
+    );
 
-    if (!this.isSyncConfigured()) return;
+    if (!this.isFlaggedForPublish(cache)) {
+      this.unpublishNote(file);
+      return;
+    }
+    this.unpublishedNotes.delete(file.path);
+
+    // Excluded notes stay published until the next full publish removes them.
+    const targets = this.autoPublishTargets().filter((target) =>
+      this.includesNote(target, file, cache),
+    );
+    if (targets.length === 0) return;
+
+    // Recorded before debouncing so the edit survives a restart or an outage.
+    for (const target of targets) target.publishQueue.enqueue("note", file.path);
 
     this.debounceService.debounce(
       file.path,
       async () => {
+        const startedAt = Date.now();
         const clientId = await this.getClientIdForSync(file);
         if (!clientId) {
+          for (const target of targets) target.publishQueue.complete("note", file.path);
           return;
         }
 
-        const result = await this.syncNoteFromCache(file, data, cache);
-        if (!result.success) {
-          new Notice("Publish failed: note upload failed");
-          return;
+        for (const target of targets) {
+          const result = await this.syncNoteFromCache(target, file, data, cache);
+          if (result.conflict || result.blocked) continue;
+          if (!result.success) {
+            new Notice(this.forProfile(target, "Publish failed: note upload failed"));
+            continue;
+          }
+          target.publishQueue.complete("note", file.path, startedAt);
+
+          await this.syncAssetsForNote(target, file, result.needUploadAssets, result.assetsById);
+          await this.syncLinkedNotesForNote(
+            target,
+            file,
+            result.needUploadNotes,
+            result.linkedNotesById,
+          );
         }
+      },
+      1200,
+    );
+  }
+
+  /**
+   * Take a note whose publish flag was turned off down from every profile,
+   * replacing any publish still waiting for the debounce. Profiles this device
+   * never published it to get the delete too: another device, or this one
+   * before its hash cache was cleared, may have.
+   */
+  private unpublishNote(file: TFile): void {
+    const targets = this.autoPublishTargets();
+    for (const { publishQueue } of targets) publishQueue.complete("note", file.path);
+    this.debounceService.cancel(`republish:${file.path}`);
+    this.republishTargets.delete(file.path);
+    // A base hash means this device published the note to that profile.
+    const published = targets.filter((target) => target.baseHashes.get(file.path) !== undefined);
+    // Linked notes lose it as a backlink only where it was published.
+    this.republishNotes(this.referenceIndex.getLinkedNotesForNote(file.path), published);
+
+    if (targets.length === 0 || (published.length === 0 && this.unpublishedNotes.has(file.path))) {
+      this.debounceService.cancel(file.path);
+      return;
+    }
 
-        await this.syncAssetsForNote(file, result.needUploadAssets, result.assetsById);
-        await this.syncLinkedNotesForNote(file, result.needUploadNotes, result.linkedNotesById);
+    for (const { publishQueue } of targets) publishQueue.enqueue("delete", file.path);
+    this.debounceService.debounce(
+      file.path,
+      async () => {
+        const failed: PublishTarget[] = [];
+        for (const target of targets) {
+          if (!(await this.deleteNoteFrom(target, file))) failed.push(target);
+        }
+        // A full snapshot takes the note down where the targeted delete did not.
+        if (failed.length > 0) {
+          await this.publishFully(failed, false);
+        } else {
+          this.unpublishedNotes.add(file.path);
+        }
       },
       1200,
     );
   }
 
-  async handleFileDelete(_file: TFile) {
-    if (!this.settings.autoSync) return;
-    this.referenceIndex.removeNote(_file.path);
-    if (!this.isSyncConfigured()) return;
-    await this.fullSync();
+  /**
+   * Delete a single note from the profile's server, forgetting its base hash
+   * once it is gone
+   */
+  private async deleteNoteFrom(target: PublishTarget, file: TFile): Promise<boolean> {
+    const noteId = await this.getNoteId(file);
+    if (!noteId) {
+      // Published notes have an ID, so this one was never on the server.
+      target.publishQueue.complete("delete", file.path);
+      return true;
+    }
+
+    const startedAt = Date.now();
+    const result = await target.client.deleteNote(noteId);
+    this.recordPublishResult(target, "delete", file.path, startedAt, result);
+    if (!result.success) return false;
+
+    target.baseHashes.delete(file.path);
+    target.publishQueue.complete("delete", file.path, startedAt);
+    return true;
+  }
+
+  /**
+   * Canvases are not in the metadata cache: their links are read from the file
+   * on every change, then the canvas is published after the usual debounce
+   */
+  async handleCanvasChange(file: TFile): Promise<void> {
+    const { addedNotes, removedNotes } = this.referenceIndex.updateNote(
+      file.path,
+      this.canvasLinkpaths(await this.app.vault.read(file)),
+    );
+    if (!this.autoPublishEnabled) return;
+    const targets = this.autoPublishTargets().filter((target) => this.includesNote(target, file));
+    // Linked notes list the canvas among their backlinks.
+    this.republishNotes([file.path, ...addedNotes, ...removedNotes], targets);
+  }
+
+  async handleFileDelete(file: TFile) {
+    this.noteIds.delete(file.path);
+    this.secretReport.record(file.path, []);
+    const linkedNotes = this.referenceIndex.getLinkedNotesForNote(file.path);
+    if (!this.autoPublishEnabled) {
+      this.referenceIndex.removeNote(file.path);
+      return;
+    }
+    this.republishEmbeddingNotes(file.path);
+    this.republishNotes(linkedNotes, this.autoPublishTargets());
+    this.referenceIndex.removeNote(file.path);
+    this.noteHashes.delete(file.path);
+    for (const target of this.publishTargets) target.baseHashes.delete(file.path);
+    const targets = this.autoPublishTargets();
+    if (targets.length === 0) return;
+    for (const { publishQueue } of targets) {
+      publishQueue.complete("note", file.path);
+      publishQueue.enqueue("delete", file.path);
+    }
+    await this.publishFully(targets, false);
+  }
+
+  /**
+   * Notes showing the note through embeds, directly or nested within the depth limit
+   */
+  private findEmbeddingNotes(notePath: string): Set<string> {
+    const found = new Set<string>();
+    let current = [notePath];
+    for (let depth = 0; depth < this.settings.maxEmbedDepth && current.length > 0; depth++) {
+      const next: string[] = [];
+      for (const embedded of current) {
+        for (const embedder of this.referenceIndex.getNotesEmbedding(embedded)) {
+          if (embedder === notePath || found.has(embedder)) continue;
+          found.add(embedder);
+          next.push(embedder);
+        }
+      }
+      current = next;
+    }
+    return found;
+  }
+
+  /**
+   * Publish the notes that embed a changed or deleted note again, since their
+   * published content includes it
+   */
+  private republishEmbeddingNotes(notePath: string): void {
+    if (!this.settings.expandEmbeds) return;
+    this.republishNotes(this.findEmbeddingNotes(notePath), this.autoPublishTargets());
+  }
+
+  /**
+   * Publish notes again to those of `candidates` that publish them, after a
+   * change elsewhere altered what they publish
+   */
+  private republishNotes(paths: Iterable<string>, candidates: PublishTarget[]): void {
+    if (candidates.length === 0) return;
+    for (const path of paths) {
+      const note = this.app.vault.getAbstractFileByPath(path);
+      if (!(note instanceof TFile)) continue;
+      const targets = candidates.filter((target) => this.includesNote(target, note));
+      if (targets.length === 0) continue;
+      const pending = this.republishTargets.get(note.path) ?? new Set<PublishTarget>();
+      for (const target of targets) {
+        pending.add(target);
+        target.publishQueue.enqueue("note", note.path);
+      }
+      this.republishTargets.set(note.path, pending);
+      // Keyed apart from edits so that neither replaces the other's profiles.
+      this.debounceService.debounce(
+        `republish:${note.path}`,
+        async () => {
+          this.republishTargets.delete(note.path);
+          for (const target of pending) {
+            if (this.includesNote(target, note)) await this.publishNote(target, note);
+          }
+        },
+        1200,
+      );
+    }
+  }
+
+  async handleAssetRemoved(file: TFile, oldPath?: string) {
+    // Asset IDs derive from the path, so a renamed asset starts a new upload.
+    for (const target of this.publishTargets) target.uploadSessions.delete(oldPath ?? file.path);
+    if (oldPath) {
+      this.assetHashes.rename(oldPath, file.path);
+    } else {
+      this.assetHashes.delete(file.path);
+    }
+    const targets = this.autoPublishTargets();
+    if (targets.length === 0) return;
+    for (const { publishQueue } of targets) {
+      publishQueue.complete("asset", oldPath ?? file.path);
+      publishQueue.enqueue("delete", oldPath ?? file.path);
+    }
+    await this.publishFully(targets, false);
   }
 
   async handleFileRename(file: TFile, oldPath: string) {
-    if (!this.settings.autoSync) return;
+    for (const target of this.publishTargets) {
+      target.publishQueue.renamePath(oldPath, file.path);
+      target.baseHashes.rename(oldPath, file.path);
+    }
+    this.noteHashes.rename(oldPath, file.path);
+    this.noteIds.rename(oldPath, file.path);
+    this.secretReport.rename(oldPath, file.path);
     this.referenceIndex.renameNote(oldPath, file.path);
+    if (!this.autoPublishEnabled) return;
+    // Their backlinks show this note's path.
+    this.republishNotes(
+      this.referenceIndex.getLinkedNotesForNote(file.path),
+      this.autoPublishTargets(),
+    );
     const cache = this.app.metadataCache.getFileCache(file) as unknown as CachedMetadataLike | null;
     const content = cache ? "" : await this.app.vault.read(file);
-    this.referenceIndex.updateNote(file.path, this.extractLinkpaths(content, cache));
-
-    if (!this.isSyncConfigured()) return;
+    if (isCanvasFile(file)) {
+      this.referenceIndex.updateNote(file.path, this.canvasLinkpaths(content));
+    } else {
+      this.referenceIndex.updateNote(
+        file.path,
+        this.extractLinkpaths(content, cache),
+        this.extractEmbedLinkpaths(content, cache),
+      );
+    }
 
-    const result = await this.syncNoteFile(file);
-    if (!result.success) {
-      new Notice("Publish failed: note rename failed");
-      return;
+    for (const target of this.autoPublishTargets()) {
+      if (!this.includesNote(target, file, cache)) continue;
+      const result = await this.syncNoteFile(target, file);
+      if (result.conflict || result.blocked) continue;
+      if (!result.success) {
+        target.publishQueue.enqueue("note", file.path);
+        new Notice(this.forProfile(target, "Publish failed: note rename failed"));
+        continue;
+      }
+      await this.syncAssetsForNote(target, file, result.needUploadAssets, result.assetsById);
+      await this.syncLinkedNotesForNote(
+        target,
+        file,
+        result.needUploadNotes,
+        result.linkedNotesById,
+      );
     }
-    await this.syncAssetsForNote(file, result.needUploadAssets, result.assetsById);
-    await this.syncLinkedNotesForNote(file, result.needUploadNotes, result.linkedNotesById);
   }
 
   async handleAssetChange(file: TFile) {
-    if (!this.settings.autoSync) return;
-    if (!this.isSyncConfigured()) return;
+    const targets = this.autoPublishTargets().filter((target) => this.includesAsset(target, file));
+    if (targets.length === 0) return;
     if (this.referenceIndexReady && !this.referenceIndex.isAssetReferenced(file.path)) {
       return;
     }
-    const result = await this.syncAssetFile(file);
-    if (!result) {
-      new Notice("Publish failed: asset upload failed");
+    for (const target of targets) {
+      const result = await this.syncAssetFile(target, file);
+      if (!result) {
+        target.publishQueue.enqueue("asset", file.path);
+        new Notice(this.forProfile(target, "Publish failed: asset upload failed"));
+      }
+    }
+  }
+
+  // =========================================================================
+  // Publish Queue
+  // =========================================================================
+
+  /**
+   * Retry queued publishes in order, for one profile or for all of them.
+   * Background drains probe the server first and stay silent while it is down.
+   */
+  async drainPublishQueue(notify = false, profileId?: string): Promise<void> {
+    const targets = this.publishTargets.filter(
+      (target) =>
+        (profileId === undefined || target.profile.id === profileId) &&
+        target.publishQueue.size > 0,
+    );
+    if (targets.length === 0) {
+      if (notify) new Notice("No pending publishes");
+      return;
+    }
+    const configured = targets.filter((target) => isProfileConfigured(target.profile));
+    if (configured.length === 0) {
+      if (notify) new Notice(NOT_CONFIGURED_NOTICE);
+      return;
+    }
+    for (const target of configured) {
+      await this.drainTargetQueue(target, notify);
+    }
+  }
+
+  private async drainTargetQueue(target: PublishTarget, notify: boolean): Promise<void> {
+    const { publishQueue } = target;
+    if (publishQueue.isDraining) return;
+
+    if (!notify) {
+      const probe = await target.client.getVaultInfo();
+      if (!probe.success) return;
+    } else {
+      new Notice(this.forProfile(target, `Publishing ${publishQueue.size} pending item(s)...`));
+    }
+
+    const result = await publishQueue.drain((item) => this.processQueueItem(target, item));
+    if (notify || result.processed > 0) {
+      new Notice(
+        this.forProfile(
+          target,
+          result.remaining > 0
+            ? `Publish queue: ${result.remaining} item(s) still pending`
+            : "Pending publishes completed",
+        ),
+      );
+    }
+  }
+
+  /**
+   * Status bar retry: forget reported failures and publish everything still queued
+   */
+  private retryFailedPublishes(): void {
+    this.publishStatus.clearErrors();
+    void this.drainPublishQueue(true);
+  }
+
+  async openActivityLog(): Promise<void> {
+    const { workspace } = this.app;
+    const existing = workspace.getLeavesOfType(VIEW_TYPE_ACTIVITY_LOG)[0];
+    const leaf = existing ?? workspace.getRightLeaf(false);
+    if (!leaf) return;
+    if (!existing) await leaf.setViewState({ type: VIEW_TYPE_ACTIVITY_LOG, active: true });
+    await workspace.revealLeaf(leaf);
+  }
+
+  openSecretReport(): void {
+    new SecretReportModal(this.app, this.secretReport, (path, line) =>
+      this.openLine(path, line),
+    ).open();
+  }
+
+  /**
+   * Check the links of the notes every profile publishes and show the report
+   */
+  async checkLinks(): Promise<void> {
+    await this.runLinkCheck(this.publishTargets);
+    const { workspace } = this.app;
+    const existing = workspace.getLeavesOfType(VIEW_TYPE_LINK_REPORT)[0];
+    const leaf = existing ?? workspace.getRightLeaf(false);
+    if (!leaf) return;
+    if (!existing) await leaf.setViewState({ type: VIEW_TYPE_LINK_REPORT, active: true });
+    await workspace.revealLeaf(leaf);
+  }
+
+  /**
+   * Open a note at a 1-based line
+   */
+  private openLine(path: string, line: number): void {
+    void this.app.workspace.openLinkText(path, "", false, { eState: { line: line - 1 } });
+  }
+
+  /**
+   * Replace the link report with the problems in the notes the targets publish
+   * @returns the number of problems found
+   */
+  private async runLinkCheck(targets: PublishTarget[]): Promise<number> {
+    const results = new Map<string, LinkProblem[]>();
+    const named = this.settings.profiles.length > 1;
+    for (const target of targets) {
+      for (const file of this.publishedNoteFiles(target)) {
+        const problems = (await this.findLinkProblems(target, file)).map((problem) =>
+          named && problem.kind === "excluded-note"
+            ? { ...problem, profiles: [target.profile.name] }
+            : problem,
+        );
+        results.set(file.path, mergeLinkProblems(results.get(file.path) ?? [], problems));
+      }
+    }
+    this.linkReport.replace(results);
+    return this.linkReport.problemCount;
+  }
+
+  /**
+   * Problems with the links a note publishes; links in private sections are skipped
+   */
+  private async findLinkProblems(target: PublishTarget, file: TFile): Promise<LinkProblem[]> {
+    const cache = this.app.metadataCache.getFileCache(file) as unknown as CachedMetadataLike | null;
+    if (!cache) return [];
+    const published = this.sanitizeContent(await this.app.vault.read(file));
+    const links = extractNoteLinks(cache, (original) => published.includes(original));
+    return findLinkProblems(links, (linkpath) => this.linkTargetState(target, linkpath, file.path));
+  }
+
+  private linkTargetState(
+    target: PublishTarget,
+    linkpath: string,
+    sourcePath: string,
+  ): LinkTargetState {
+    const dest = this.app.metadataCache.getFirstLinkpathDest(linkpath, sourcePath);
+    if (!(dest instanceof TFile)) return "missing";
+    if (!isDocumentFile(dest)) return "asset";
+    return this.includesNote(target, dest) ? "published" : "excluded";
+  }
+
+  /**
+   * Pre-publish step of interactive full publishes: link problems are pointed
+   * out but do not hold the publish up
+   * @returns a warning when problems were found
+   */
+  private async checkLinksBeforePublish(targets: PublishTarget[]): Promise<string | undefined> {
+    if ((await this.runLinkCheck(targets)) === 0) return undefined;
+    return `${describeLinkReport(this.linkReport.list())}. Run "Check links" to see them.`;
+  }
+
+  /**
+   * Run a logged operation again; the attempt is logged as a new entry
+   */
+  private async rerunActivityEntry(entry: ActivityEntry): Promise<void> {
+    if (entry.operation === "full-publish") {
+      await this.fullSync(true, entry.profileId);
+      return;
+    }
+
+    const file = this.app.vault.getAbstractFileByPath(entry.path);
+    if (!(file instanceof TFile)) {
+      new Notice(`${entry.path} no longer exists`);
+      return;
+    }
+    if (entry.operation === "note") {
+      await this.syncCurrentFile(file, entry.profileId);
+      return;
+    }
+    if (entry.operation === "delete") {
+      for (const target of this.resolveTargets(entry.profileId, true)) {
+        if (!(await this.deleteNoteFrom(target, file))) {
+          new Notice(this.forProfile(target, "Unpublish failed: note delete failed"));
+        }
+      }
+      return;
+    }
+    for (const target of this.resolveTargets(entry.profileId, true)) {
+      if (await this.syncAssetFile(target, file)) {
+        target.publishQueue.complete("asset", file.path);
+      } else {
+        target.publishQueue.enqueue("asset", file.path);
+        new Notice(this.forProfile(target, "Publish failed: asset upload failed"));
+      }
+    }
+  }
+
+  private async processQueueItem(target: PublishTarget, item: PublishQueueItem): Promise<boolean> {
+    if (item.kind === "delete") {
+      // Unpublished notes are still in the vault; deleted ones need a snapshot.
+      const file = this.app.vault.getAbstractFileByPath(item.path);
+      if (file instanceof TFile && (await this.deleteNoteFrom(target, file))) return true;
+      return this.publishFully([target], false);
+    }
+
+    const file = this.app.vault.getAbstractFileByPath(item.path);
+    if (!(file instanceof TFile)) {
+      // Gone since it was queued; its deletion is tracked separately.
+      target.uploadSessions.delete(item.path);
+      return true;
+    }
+
+    // Excluded since it was queued; the next full publish removes it.
+    if (item.kind === "asset") {
+      return this.includesAsset(target, file) ? this.syncAssetFile(target, file) : true;
     }
+    if (!this.includesNote(target, file)) return true;
+
+    const clientId = await this.getClientIdForSync(file);
+    if (!clientId) return true;
+
+    const result = await this.syncNoteFile(target, file);
+    // A conflict is resolved through its prompt and a blocked note by editing it, not by retrying
+    if (!result.success) return result.conflict === true || result.blocked === true;
+    await this.syncAssetsForNote(target, file, result.needUploadAssets, result.assetsById);
+    await this.syncLinkedNotesForNote(target, file, result.needUploadNotes, result.linkedNotesById);
+    return true;
   }
 
   // =========================================================================
@@ -259,17 +1216,13 @@ export default class MdbrainPlugin extends Plugin {
   // =========================================================================
 
   private async syncNoteFromCache(
+    target: PublishTarget,
     file: TFile,
     content: string,
     cache: CachedMetadataLike | null,
-  ): Promise<{
-    success: boolean;
-    needUploadAssets: Array<{ id: string; hash: string }>;
-    assetsById: Map<string, TFile>;
-    needUploadNotes: Array<{ id: string; hash: string }>;
-    linkedNotesById: Map<string, TFile>;
-  }> {
-    if (!this.isSyncConfigured()) {
+    signal?: AbortSignal,
+  ): Promise<NoteSyncResult> {
+    if (!isProfileConfigured(target.profile)) {
       return {
         success: false,
         needUploadAssets: [],
@@ -278,7 +1231,7 @@ export default class MdbrainPlugin extends Plugin {
         linkedNotesById: new Map(),
       };
     }
-    const clientId = await getClientId(file, this.app);
+    const clientId = await this.getClientIdForSync(file);
     if (!clientId) {
       return {
         success: false,
@@ -289,22 +1242,207 @@ export default class MdbrainPlugin extends Plugin {
       };
     }
 
-    const hash = await hashString(content);
-    const metadata = extractNoteMetadata(cache);
-    const assets = await this.collectReferencedAssetEntriesForNoteUsingCache(file, cache, content);
-    const linkedNotes = await this.collectLinkedNoteEntriesForNoteUsingCache(file, cache, content);
+    const sanitized = this.sanitizeContent(content);
+    const {
+      content: published,
+      embeds,
+      embedded,
+    } = await this.expandEmbeds(
+      target,
+      file,
+      redactFrontmatterBlock(sanitized, this.getFrontmatterRules()),
+    );
+    const contentHash = await hashString(published);
+    if (published.trim() && embeds.length === 0) {
+      this.noteHashes.set(file.path, file.stat, contentHash);
+    }
+    const backlinks = await this.collectBacklinks(target, file);
+    const hash = await this.withBacklinks(contentHash, backlinks);
+    const metadata = omitUnpublishedReferences(extractNoteMetadata(cache), published);
+    if (metadata.frontmatter) {
+      metadata.frontmatter = redactFrontmatter(metadata.frontmatter, this.getFrontmatterRules());
+    }
+    if (backlinks.length > 0) metadata.backlinks = backlinks;
+    // The cache also lists links inside removed sections; parse what is published instead.
+    const referenceCache = sanitized === content ? cache : null;
+
+    const findings = this.findSecrets(published, cache);
+    this.secretReport.record(file.path, findings);
+    if (findings.length > 0) return this.blockForSecrets(target, file, findings);
+    const assets = await this.collectReferencedAssetEntriesForNoteUsingCache(
+      target,
+      file,
+      referenceCache,
+      sanitized,
+    );
+    const linkedNotes = await this.collectLinkedNoteEntriesForNoteUsingCache(
+      target,
+      file,
+      referenceCache,
+      sanitized,
+    );
+
+    const requestStartedAt = Date.now();
+    const result = await this.publishStatus.track(() =>
+      target.client.syncNote(
+        clientId,
+        {
+          path: file.path,
+          content: published,
+          hash,
+          metadata,
+          assets: assets.entries,
+          linked_notes: linkedNotes.entries,
+          base_hash: target.baseHashes.get(file.path),
+        },
+        signal,
+      ),
+    );
+    this.recordPublishResult(target, "note", file.path, requestStartedAt, result);
+    if (result.success) {
+      target.baseHashes.set(file.path, hash);
+    } else if (result.conflict) {
+      void this.resolveNoteConflict(
+        target,
+        file,
+        published,
+        result.conflict,
+        sanitized !== content,
+        embedded.length > 0,
+      );
+    }
+
+    return {
+      success: result.success,
+      conflict: result.conflict !== undefined,
+      needUploadAssets: result.need_upload_assets ?? [],
+      assetsById: assets.byId,
+      needUploadNotes: result.need_upload_notes ?? [],
+      linkedNotesById: linkedNotes.byId,
+    };
+  }
 
-    const result = await this.syncClient.syncNote(clientId, {
-      path: file.path,
+  /**
+   * Log a document that cannot be sent as it is. Retrying cannot help until it
+   * is edited, which publishes it again.
+   */
+  private blockDocument(target: PublishTarget, file: TFile, error: string): NoteSyncResult {
+    target.publishQueue.complete("note", file.path);
+    this.recordPublishResult(target, "note", file.path, Date.now(), { success: false, error });
+    return {
+      success: false,
+      blocked: true,
+      needUploadAssets: [],
+      assetsById: new Map(),
+      needUploadNotes: [],
+      linkedNotesById: new Map(),
+    };
+  }
+
+  private blockForSecrets(
+    target: PublishTarget,
+    file: TFile,
+    findings: SecretFinding[],
+  ): NoteSyncResult {
+    new Notice(
+      this.forProfile(
+        target,
+        `Not published: ${file.path} seems to contain secrets. See "Show secret scan report".`,
+      ),
+    );
+    return this.blockDocument(
+      target,
+      file,
+      `Blocked, possible secrets: ${describeSecretFindings(findings)}`,
+    );
+  }
+
+  /**
+   * Publish a canvas through the notes endpoint. There is no conflict check:
+   * the server's copy lacks unpublished nodes, so it cannot replace the file.
+   */
+  private async syncCanvasFile(
+    target: PublishTarget,
+    file: TFile,
+    signal?: AbortSignal,
+  ): Promise<NoteSyncResult> {
+    const clientId = isProfileConfigured(target.profile)
+      ? await this.getClientIdForSync(file)
+      : null;
+    if (!clientId) {
+      return {
+        success: false,
+        needUploadAssets: [],
+        assetsById: new Map(),
+        needUploadNotes: [],
+        linkedNotesById: new Map(),
+      };
+    }
+
+    const published = await this.toPublishedCanvas(target, file);
+    if (!published) {
+      new Notice(this.forProfile(target, `Not published: ${file.path} is not a valid canvas`));
+      return this.blockDocument(target, file, "Not a valid canvas file");
+    }
+    const content = serializeCanvas(published.canvas);
+    const findings = this.findSecrets(content, null);
+    this.secretReport.record(file.path, findings);
+    if (findings.length > 0) return this.blockForSecrets(target, file, findings);
+
+    const backlinks = await this.collectBacklinks(target, file);
+    const hash = await this.withBacklinks(await hashString(content), backlinks);
+    const metadata: CanvasMetadata = { files: published.files };
+    if (backlinks.length > 0) metadata.backlinks = backlinks;
+    const assets = await this.collectReferencedAssetEntriesForNoteUsingCache(
+      target,
+      file,
+      null,
       content,
-      hash,
-      metadata: metadata as Record<string, unknown>,
-      assets: assets.entries,
-      linked_notes: linkedNotes.entries,
-    });
+    );
+    const linkedNotes = await this.collectLinkedNoteEntriesForNoteUsingCache(
+      target,
+      file,
+      null,
+      content,
+    );
+
+    const requestStartedAt = Date.now();
+    const result = await this.publishStatus.track(() =>
+      target.client.syncNote(
+        clientId,
+        {
+          type: "canvas",
+          path: file.path,
+          content,
+          hash,
+          metadata,
+          assets: assets.entries,
+          linked_notes: linkedNotes.entries,
+          base_hash: target.baseHashes.get(file.path),
+        },
+        signal,
+      ),
+    );
+    this.recordPublishResult(target, "note", file.path, requestStartedAt, result);
+    if (result.success) {
+      target.baseHashes.set(file.path, hash);
+    } else if (result.conflict) {
+      // Dropped file nodes and sanitized text are what the server lacks.
+      const local = parseCanvas(await this.app.vault.read(file));
+      const hasPrivateContent = local !== null && serializeCanvas(local) !== content;
+      void this.resolveNoteConflict(
+        target,
+        file,
+        content,
+        result.conflict,
+        hasPrivateContent,
+        false,
+      );
+    }
 
     return {
       success: result.success,
+      conflict: result.conflict !== undefined,
       needUploadAssets: result.need_upload_assets ?? [],
       assetsById: assets.byId,
       needUploadNotes: result.need_upload_notes ?? [],
@@ -312,102 +1450,534 @@ export default class MdbrainPlugin extends Plugin {
     };
   }
 
-  private async syncNoteFile(file: TFile): Promise<{
-    success: boolean;
-    needUploadAssets: Array<{ id: string; hash: string }>;
-    assetsById: Map<string, TFile>;
-    needUploadNotes: Array<{ id: string; hash: string }>;
-    linkedNotesById: Map<string, TFile>;
-  }> {
+  /**
+   * What the server receives of a canvas: file nodes the profile does not
+   * publish are dropped, text nodes are sanitized like notes
+   * @returns null when the file is not a valid canvas
+   */
+  private async toPublishedCanvas(
+    target: PublishTarget,
+    file: TFile,
+  ): Promise<PublishedCanvas | null> {
+    const canvas = parseCanvas(await this.app.vault.read(file));
+    if (!canvas) return null;
+    const targets = new Map<string, CanvasFileTarget>();
+    for (const node of canvas.nodes) {
+      if (typeof node.file !== "string" || targets.has(node.file)) continue;
+      const resolved = await this.resolveCanvasFile(target, node.file, file.path);
+      if (resolved) targets.set(node.file, resolved);
+    }
+    return publishCanvas(canvas, targets, (text) => this.sanitizeContent(text));
+  }
+
+  private async resolveCanvasFile(
+    target: PublishTarget,
+    path: string,
+    sourcePath: string,
+  ): Promise<CanvasFileTarget | null> {
+    const file = this.app.metadataCache.getFirstLinkpathDest(path, sourcePath);
+    if (!(file instanceof TFile)) return null;
+    if (isDocumentFile(file)) {
+      if (!this.includesNote(target, file)) return null;
+      const id = await this.getClientIdForSync(file);
+      return id ? { kind: "document", id, path: file.path } : null;
+    }
+    if (isAssetFile(file) && this.includesAsset(target, file)) {
+      return { kind: "asset", id: await hashString(file.path), path: file.path };
+    }
+    return null;
+  }
+
+  private canvasLinkpaths(content: string): string[] {
+    const canvas = parseCanvas(content);
+    return canvas ? extractCanvasLinkpaths(canvas) : [];
+  }
+
+  /**
+   * Secrets in what would be published, unless scanning is off or the note opts out
+   */
+  private findSecrets(content: string, cache: CachedMetadataLike | null): SecretFinding[] {
+    if (!this.settings.secretScanning) return [];
+    if (readPublishFlag(cache, ALLOW_SECRETS_KEY) === true) return [];
+    return scanForSecrets(content, compileSecretRules(this.settings.customSecretPatterns).rules);
+  }
+
+  private async syncNoteFile(
+    target: PublishTarget,
+    file: TFile,
+    signal?: AbortSignal,
+  ): Promise<NoteSyncResult> {
+    if (isCanvasFile(file)) return this.syncCanvasFile(target, file, signal);
     const content = await this.app.vault.read(file);
     const cache = this.app.metadataCache.getFileCache(file) as unknown as CachedMetadataLike | null;
-    return this.syncNoteFromCache(file, content, cache);
+    return this.syncNoteFromCache(target, file, content, cache, signal);
+  }
+
+  /**
+   * Ask whether the local or the server version of a conflicting note wins.
+   * Dismissing the prompt leaves the conflict for the next publish of the note.
+   */
+  private async resolveNoteConflict(
+    target: PublishTarget,
+    file: TFile,
+    localContent: string,
+    conflict: NoteConflict,
+    hasPrivateContent: boolean,
+    hasExpandedEmbeds: boolean,
+  ): Promise<void> {
+    target.publishQueue.complete("note", file.path);
+    const key = `${target.profile.id}:${file.path}`;
+    if (this.openConflicts.has(key)) return;
+    this.openConflicts.add(key);
+    try {
+      const resolution = await NoteConflictModal.choose(this.app, {
+        path: file.path,
+        localContent,
+        serverContent: conflict.server_content,
+        hasPrivateContent,
+        hasExpandedEmbeds,
+      });
+      if (!resolution) return;
+      // Either way the server's version is now the known base.
+      target.baseHashes.set(file.path, conflict.server_hash);
+      if (resolution === "keep-local") {
+        await this.publishNote(target, file);
+      } else if (isCanvasFile(file)) {
+        // Canvas IDs are kept in plugin data, so the server's version is complete.
+        await this.app.vault.modify(file, conflict.server_content);
+      } else {
+        // The server never had the redacted properties, the mdbrain-id among them.
+        const local = await this.app.vault.read(file);
+        await this.app.vault.modify(
+          file,
+          restoreRedactedFrontmatter(conflict.server_content, local, this.getFrontmatterRules()),
+        );
+      }
+    } finally {
+      this.openConflicts.delete(key);
+    }
   }
 
-  private async syncAssetFile(file: TFile): Promise<boolean> {
-    if (!this.isSyncConfigured()) {
+  private async syncAssetFile(
+    target: PublishTarget,
+    file: TFile,
+    signal?: AbortSignal,
+  ): Promise<boolean> {
+    if (!isProfileConfigured(target.profile)) {
       return false;
     }
     const buffer = await this.app.vault.readBinary(file);
     const assetId = await hashString(file.path);
     const hash = await md5Hash(buffer);
-    const base64 = Buffer.from(new Uint8Array(buffer)).toString("base64");
-
-    const result = await this.syncClient.syncAsset(assetId, {
-      path: file.path,
-      contentType: getContentType(file.extension),
-      size: buffer.byteLength,
-      hash,
-      content: base64,
-    });
+    this.assetHashes.set(file.path, file.stat, hash);
+
+    const requestStartedAt = Date.now();
+    const { uploadSessions } = target;
+    const result = await this.publishStatus.track(() =>
+      target.client.uploadAsset(
+        assetId,
+        {
+          path: file.path,
+          contentType: getContentType(file.extension),
+          size: buffer.byteLength,
+          hash,
+        },
+        buffer,
+        {
+          session: uploadSessions.get(file.path, hash, buffer.byteLength),
+          onSession: (session) => {
+            if (session) {
+              uploadSessions.set(file.path, session);
+            } else {
+              uploadSessions.delete(file.path);
+            }
+          },
+          signal,
+        },
+      ),
+    );
+    this.recordPublishResult(target, "asset", file.path, requestStartedAt, result);
 
     return result.success;
   }
 
-  async fullSync(): Promise<void> {
-    if (!this.ensureSyncConfigured(true)) {
-      return;
+  /**
+   * Report a finished request to the status bar and the activity log
+   */
+  private recordPublishResult(
+    target: PublishTarget,
+    operation: ActivityOperation,
+    path: string,
+    startedAt: number,
+    result: { success: boolean; status?: number; error?: string },
+  ): void {
+    if (result.success) {
+      this.publishStatus.recordSuccess();
+    } else {
+      this.publishStatus.recordError(
+        this.forProfile(target, result.error ?? "Upload failed"),
+        path,
+      );
+    }
+    this.activityLog.add({
+      path,
+      operation,
+      outcome: result.success ? "success" : "failure",
+      status: result.status,
+      error: result.success ? undefined : (result.error ?? "Upload failed"),
+      durationMs: Date.now() - startedAt,
+      profileId: target.profile.id,
+      profileName: target.profile.name,
+    });
+  }
+
+  /**
+   * Publish a snapshot of the whole vault; the server deletes what it lacks.
+   * @param interactive - Ask for confirmation when the deletion guard trips;
+   *   background publishes only report it
+   * @param profileId - Publish to this profile only instead of every profile
+   */
+  async fullSync(interactive = true, profileId?: string): Promise<boolean> {
+    const targets = this.resolveTargets(profileId, true);
+    if (targets.length === 0) {
+      return false;
     }
-    const notes = await this.buildNoteSnapshot();
-    const referencedAssets = await this.collectReferencedAssetFiles();
-    const assets = await this.buildAssetSnapshot(referencedAssets);
+    return this.publishFully(targets, interactive);
+  }
+
+  private async publishFully(targets: PublishTarget[], interactive: boolean): Promise<boolean> {
+    return this.runFullPublish(interactive, async (run) => {
+      const linkWarning = interactive ? await this.checkLinksBeforePublish(targets) : undefined;
+      if (linkWarning) new Notice(linkWarning);
+      let published = true;
+      for (const target of targets) {
+        const snapshot = await this.buildPublishSnapshot(target, run);
+        new Notice(
+          this.forProfile(
+            target,
+            `Starting full publish: ${snapshot.notes.length} notes / ${snapshot.assets.length} assets`,
+          ),
+        );
+        published =
+          (await this.commitPublishSnapshot(target, snapshot, run, interactive)) && published;
+      }
+      return published;
+    });
+  }
+
+  /**
+   * Show what a full publish would change and only apply it once confirmed,
+   * one profile at a time
+   */
+  async previewFullSync(profileId?: string): Promise<boolean> {
+    const targets = this.resolveTargets(profileId, true);
+    if (targets.length === 0) {
+      return false;
+    }
+    return this.runFullPublish(true, async (run) => {
+      const linkWarning = await this.checkLinksBeforePublish(targets);
+      let published = true;
+      for (const target of targets) {
+        const snapshot = await this.buildPublishSnapshot(target, run);
+        published =
+          (await this.confirmAndCommit(target, snapshot, run, undefined, linkWarning)) && published;
+      }
+      return published;
+    });
+  }
+
+  /**
+   * Abort the running full publish, if any
+   * @returns false when no full publish is running
+   */
+  cancelFullSync(): boolean {
+    if (!this.activePublish) return false;
+    this.activePublish.controller.abort();
+    return true;
+  }
+
+  /**
+   * Run one full publish at a time with progress reporting and cancellation
+   */
+  private async runFullPublish(
+    interactive: boolean,
+    work: (run: PublishRun) => Promise<boolean>,
+  ): Promise<boolean> {
+    if (this.activePublish) {
+      if (interactive) new Notice("A full publish is already running");
+      return false;
+    }
+
+    const startedAt = Date.now();
+    const controller = new AbortController();
+    const run: PublishRun = { signal: controller.signal, progress: new PublishProgress() };
+    this.activePublish = { run, controller };
+    const unsubscribe = run.progress.onChange((state) => this.statusBar?.setProgress(state));
+    try {
+      return await this.publishStatus.track(() => work(run));
+    } catch (error) {
+      if (!isAbortError(error)) throw error;
+      new Notice("Full publish cancelled");
+      this.activityLog.add({
+        path: "",
+        operation: "full-publish",
+        outcome: "cancelled",
+        durationMs: Date.now() - startedAt,
+      });
+      return false;
+    } finally {
+      unsubscribe();
+      this.activePublish = null;
+      this.statusBar?.setProgress(null);
+    }
+  }
 
-    new Notice(`Starting full publish: ${notes.length} notes / ${assets.length} assets`);
+  /**
+   * Show the server's plan for a snapshot and commit it once confirmed.
+   * Confirmation overrides the deletion guard, whose verdict is shown as a
+   * warning along with any link problems.
+   */
+  private async confirmAndCommit(
+    target: PublishTarget,
+    snapshot: PublishSnapshot,
+    run: PublishRun,
+    violation?: DeletionGuardViolation,
+    linkWarning?: string,
+  ): Promise<boolean> {
+    run.progress.start("diffing");
+    const result = await target.client.planChanges(
+      {
+        notes: snapshot.notes,
+        assets: snapshot.assets,
+        deletion_guard: this.getDeletionGuard(),
+      },
+      run.signal,
+    );
+    if (!result.success || !result.plan) {
+      new Notice(this.forProfile(target, `Publish preview failed: ${result.error}`));
+      return false;
+    }
+
+    const preview = resolvePublishPlan(result.plan, snapshot.paths);
+    const guard = result.plan.deletion_guard ?? violation;
+    const warnings = [guard && describeDeletionGuardViolation(guard), linkWarning].filter(Boolean);
+    const warning = warnings.length > 0 ? warnings.join(" ") : undefined;
+    const profileName = this.settings.profiles.length > 1 ? target.profile.name : undefined;
+    if (!(await PublishPreviewModal.confirm(this.app, preview, warning, profileName))) {
+      new Notice(this.forProfile(target, "Full publish cancelled"));
+      return false;
+    }
+    return this.commitPublishSnapshot(target, snapshot, run, true, false);
+  }
 
-    const changes = await this.syncClient.syncChanges({ notes, assets });
+  /**
+   * Only what the profile's filters include, so the server deletes excluded files
+   */
+  private async buildPublishSnapshot(
+    target: PublishTarget,
+    run: PublishRun,
+  ): Promise<PublishSnapshot> {
+    const startedAt = Date.now();
+    const paths = new Map<string, string>();
+    const noteFiles = this.publishedDocumentFiles(target);
+    const referencedAssets = await this.collectReferencedAssetFiles(target);
+    const hashed = [...noteFiles, ...referencedAssets];
+    run.progress.start(
+      "hashing",
+      hashed.length,
+      hashed.reduce((total, file) => total + file.stat.size, 0),
+    );
+    const notes = await this.buildNoteSnapshot(target, paths, run);
+    const assets = await this.buildAssetSnapshot(referencedAssets, paths, run);
+    this.noteHashes.prune(
+      new Set(
+        this.app.vault
+          .getFiles()
+          .filter(isDocumentFile)
+          .map((file) => file.path),
+      ),
+    );
+    // Shared by every profile, so only assets gone from the vault are forgotten.
+    this.assetHashes.prune(
+      new Set(
+        this.app.vault
+          .getFiles()
+          .filter(isAssetFile)
+          .map((file) => file.path),
+      ),
+    );
+    void this.saveHashCache();
+    return { startedAt, notes, assets, referencedAssets, paths };
+  }
+
+  /**
+   * Send the snapshot (the server deletes what it lacks) and upload what changed
+   * @param guarded - Let the server refuse mass deletions (see deletion guard settings)
+   */
+  private async commitPublishSnapshot(
+    target: PublishTarget,
+    snapshot: PublishSnapshot,
+    run: PublishRun,
+    interactive: boolean,
+    guarded = true,
+  ): Promise<boolean> {
+    const { startedAt, notes, assets, referencedAssets } = snapshot;
+    run.progress.start("diffing");
+    const changes = await target.client.syncChanges(
+      {
+        notes,
+        assets,
+        ...(guarded ? { deletion_guard: this.getDeletionGuard() } : {}),
+      },
+      run.signal,
+    );
     if (!changes.success) {
-      new Notice(`Full publish failed: ${changes.error}`);
-      return;
+      if (changes.deletion_guard) {
+        return this.handleDeletionGuard(target, snapshot, run, changes.deletion_guard, interactive);
+      }
+      new Notice(this.forProfile(target, `Full publish failed: ${changes.error}`));
+      this.recordPublishResult(target, "full-publish", "", startedAt, changes);
+      return false;
     }
+    target.lastDeletionGuardNotice = null;
+    // The snapshot covers every deletion queued before this publish started.
+    target.publishQueue.completeAll(startedAt, "delete");
 
     const needNotes = changes.need_upsert?.notes ?? [];
     const needAssets = changes.need_upsert?.assets ?? [];
 
+    // Notes the server did not ask for match its version: remember it as their base.
+    const stale = new Set(needNotes.map((entry) => entry.id));
+    for (const note of notes) {
+      const path = snapshot.paths.get(note.id);
+      if (path && !stale.has(note.id)) target.baseHashes.set(path, note.hash);
+    }
+
+    let uploaded = true;
     if (needAssets.length > 0) {
-      await this.uploadAssets(needAssets, referencedAssets);
+      uploaded = (await this.uploadAssets(target, needAssets, referencedAssets, run)) && uploaded;
     }
 
     if (needNotes.length > 0) {
-      await this.uploadNotes(needNotes);
+      uploaded = (await this.uploadNotes(target, needNotes, run)) && uploaded;
+    }
+
+    if (uploaded) {
+      target.publishQueue.completeAll(startedAt);
     }
+    this.recordPublishResult(
+      target,
+      "full-publish",
+      "",
+      startedAt,
+      uploaded
+        ? { success: true, status: changes.status }
+        : { success: false, error: "Some uploads failed" },
+    );
 
-    new Notice("Full publish completed");
+    if (!uploaded) {
+      new Notice(this.forProfile(target, "Full publish incomplete: some uploads failed"));
+      return false;
+    }
+    new Notice(this.forProfile(target, "Full publish completed"));
+    return true;
   }
 
-  private async uploadNotes(entries: SyncSnapshotEntry[]): Promise<void> {
+  /**
+   * The server refused a publish that would delete too much. Deletions stay
+   * queued until the user confirms the plan.
+   */
+  private async handleDeletionGuard(
+    target: PublishTarget,
+    snapshot: PublishSnapshot,
+    run: PublishRun,
+    violation: DeletionGuardViolation,
+    interactive: boolean,
+  ): Promise<boolean> {
+    if (interactive) {
+      return this.confirmAndCommit(target, snapshot, run, violation);
+    }
+    const message = describeDeletionGuardViolation(violation);
+    // Background retries hit the guard every interval; report each situation once.
+    if (message !== target.lastDeletionGuardNotice) {
+      target.lastDeletionGuardNotice = message;
+      this.publishStatus.recordError(this.forProfile(target, `Full publish paused. ${message}`));
+      new Notice(
+        this.forProfile(
+          target,
+          `Full publish paused. ${message} Run "Preview full publish" to review and confirm.`,
+        ),
+        10_000,
+      );
+    }
+    return false;
+  }
+
+  private async uploadNotes(
+    target: PublishTarget,
+    entries: SyncSnapshotEntry[],
+    run: PublishRun,
+  ): Promise<boolean> {
     const fileMap = new Map<string, TFile>();
-    for (const file of this.app.vault.getMarkdownFiles()) {
-      const clientId = await getClientId(file, this.app);
+    for (const file of this.documentFiles()) {
+      const clientId = await this.getNoteId(file);
       if (clientId) {
         fileMap.set(clientId, file);
       }
     }
 
-    for (const entry of entries) {
-      const file = fileMap.get(entry.id);
-      if (!file) continue;
-      const result = await this.syncNoteFile(file);
-      if (!result.success) {
-        new Notice("Publish failed: note upload failed");
+    const files = entries
+      .map((entry) => fileMap.get(entry.id))
+      .filter((file): file is TFile => file !== undefined);
+    run.progress.start(
+      "uploading-notes",
+      files.length,
+      files.reduce((total, file) => total + file.stat.size, 0),
+    );
+
+    let ok = true;
+    for (const file of files) {
+      throwIfAborted(run.signal);
+      const result = await this.syncNoteFile(target, file, run.signal);
+      if (!result.success && !result.conflict && !result.blocked) {
+        ok = false;
+        new Notice(this.forProfile(target, "Publish failed: note upload failed"));
       }
+      run.progress.advance(file.stat.size);
     }
+    return ok;
   }
 
-  private async uploadAssets(entries: SyncSnapshotEntry[], assetFiles?: TFile[]): Promise<void> {
-    const targetAssets = assetFiles ?? this.app.vault.getFiles().filter(isAssetFile);
+  private async uploadAssets(
+    target: PublishTarget,
+    entries: SyncSnapshotEntry[],
+    assetFiles: TFile[],
+    run: PublishRun,
+  ): Promise<boolean> {
     const assetMap = new Map<string, TFile>();
-    for (const file of targetAssets) {
+    for (const file of assetFiles) {
       const assetId = await hashString(file.path);
       assetMap.set(assetId, file);
     }
 
-    const tasks = entries.map((entry) => async () => {
-      const file = assetMap.get(entry.id);
-      if (!file) return;
-      await this.syncAssetFile(file);
+    const files = entries
+      .map((entry) => assetMap.get(entry.id))
+      .filter((file): file is TFile => file !== undefined);
+    run.progress.start(
+      "uploading-assets",
+      files.length,
+      files.reduce((total, file) => total + file.stat.size, 0),
+    );
+
+    let ok = true;
+    const tasks = files.map((file) => async () => {
+      throwIfAborted(run.signal);
+      if (!(await this.syncAssetFile(target, file, run.signal))) ok = false;
+      run.progress.advance(file.stat.size);
     });
 
     await this.runWithConcurrency(tasks, 3);
+    return ok;
   }
 
   private async runWithConcurrency(
@@ -426,47 +1996,187 @@ export default class MdbrainPlugin extends Plugin {
     await Promise.all(workers);
   }
 
-  private async buildNoteSnapshot(): Promise<SyncSnapshotEntry[]> {
-    const files = this.app.vault.getMarkdownFiles();
+  private async buildNoteSnapshot(
+    target: PublishTarget,
+    paths?: Map<string, string>,
+    run?: PublishRun,
+  ): Promise<SyncSnapshotEntry[]> {
+    const files = this.publishedDocumentFiles(target);
     const snapshot: SyncSnapshotEntry[] = [];
 
     for (const file of files) {
-      const content = await this.app.vault.read(file);
-      if (!content.trim()) continue;
+      throwIfAborted(run?.signal);
+      const hash = await this.hashNoteFile(target, file);
+      run?.progress.advance(file.stat.size);
+      if (!hash) continue;
 
-      const clientId = await ensureClientId(file, this.app);
-      const hash = await hashString(content);
+      const clientId = await this.ensureNoteId(file);
       snapshot.push({ id: clientId, hash });
+      paths?.set(clientId, file.path);
     }
 
     return snapshot;
   }
 
-  private async buildAssetSnapshot(assetFiles?: TFile[]): Promise<SyncSnapshotEntry[]> {
+  private async buildAssetSnapshot(
+    assetFiles?: TFile[],
+    paths?: Map<string, string>,
+    run?: PublishRun,
+  ): Promise<SyncSnapshotEntry[]> {
     const assets = assetFiles ?? this.app.vault.getFiles().filter(isAssetFile);
     const snapshot: SyncSnapshotEntry[] = [];
 
     for (const file of assets) {
-      const buffer = await this.app.vault.readBinary(file);
+      throwIfAborted(run?.signal);
       const assetId = await hashString(file.path);
-      const hash = await md5Hash(buffer);
+      const hash = await this.hashAssetFile(file);
+      run?.progress.advance(file.stat.size);
       snapshot.push({ id: assetId, hash });
+      paths?.set(assetId, file.path);
     }
 
     return snapshot;
   }
 
-  private async collectReferencedAssetFiles(): Promise<TFile[]> {
+  /**
+   * Hash of a note's published content, served from the hash cache when the file is unchanged
+   * @returns null for blank notes, which are never published
+   */
+  private async hashNoteFile(target: PublishTarget, file: TFile): Promise<string | null> {
+    if (isCanvasFile(file)) return this.hashCanvasFile(target, file);
+    const backlinks = await this.collectBacklinks(target, file);
+    const cached = this.noteHashes.get(file.path, file.stat);
+    if (cached !== null) return this.withBacklinks(cached, backlinks);
+
+    const { content, embeds } = await this.expandEmbeds(
+      target,
+      file,
+      this.toPublishedContent(await this.app.vault.read(file)),
+    );
+    if (!content.trim()) return null;
+    const hash = await hashString(content);
+    // With embeds the hash also depends on other notes, which the cache cannot tell.
+    if (embeds.length === 0) this.noteHashes.set(file.path, file.stat, hash);
+    return this.withBacklinks(hash, backlinks);
+  }
+
+  /**
+   * Not cached: which file nodes are kept depends on the profile
+   * @returns null for files that are not valid canvases
+   */
+  private async hashCanvasFile(target: PublishTarget, file: TFile): Promise<string | null> {
+    const published = await this.toPublishedCanvas(target, file);
+    if (!published) return null;
+    const backlinks = await this.collectBacklinks(target, file);
+    return this.withBacklinks(await hashString(serializeCanvas(published.canvas)), backlinks);
+  }
+
+  /**
+   * Published notes linking to the note, sorted by path
+   */
+  private async collectBacklinks(target: PublishTarget, file: TFile): Promise<BacklinkInfo[]> {
+    const backlinks: BacklinkInfo[] = [];
+    for (const path of this.referenceIndex.getBacklinks(file.path)) {
+      if (path === file.path) continue;
+      const source = this.app.vault.getAbstractFileByPath(path);
+      if (!(source instanceof TFile) || !this.includesNote(target, source)) continue;
+      const id = await this.getNoteId(source);
+      if (id) backlinks.push({ id, path });
+    }
+    return backlinks.sort((a, b) => a.path.localeCompare(b.path));
+  }
+
+  /**
+   * The server only stores a note whose hash changed, so backlinks count towards it
+   */
+  private async withBacklinks(contentHash: string, backlinks: BacklinkInfo[]): Promise<string> {
+    if (backlinks.length === 0) return contentHash;
+    return hashString(`${contentHash}\n${JSON.stringify(backlinks)}`);
+  }
+
+  /**
+   * A note without its private sections and comments
+   */
+  private sanitizeContent(content: string): string {
+    return sanitizeNoteContent(content, this.getSanitizeOptions());
+  }
+
+  /**
+   * What the server receives of a note: sanitized, without redacted properties
+   */
+  private toPublishedContent(content: string): string {
+    return redactFrontmatterBlock(this.sanitizeContent(content), this.getFrontmatterRules());
+  }
+
+  /**
+   * Published content with the notes it embeds written out, when that is enabled
+   */
+  private async expandEmbeds(
+    target: PublishTarget,
+    file: TFile,
+    content: string,
+  ): Promise<TransclusionResult> {
+    if (!this.settings.expandEmbeds) return { content, embeds: [], embedded: [] };
+    return expandTransclusions(
+      content,
+      file.path,
+      (linkpath, sourcePath) => this.resolveEmbed(target, linkpath, sourcePath),
+      this.settings.maxEmbedDepth,
+    );
+  }
+
+  private async resolveEmbed(
+    target: PublishTarget,
+    linkpath: string,
+    sourcePath: string,
+  ): Promise<EmbeddedNote | null> {
+    const file = this.app.metadataCache.getFirstLinkpathDest(linkpath, sourcePath);
+    if (!(file instanceof TFile) || file.extension !== "md") return null;
+    // A note the profile leaves out must not be published inside another one.
+    if (!this.includesNote(target, file)) return null;
+    return { path: file.path, content: this.sanitizeContent(await this.app.vault.read(file)) };
+  }
+
+  private async hashAssetFile(file: TFile): Promise<string> {
+    return this.assetHashes.getOrCompute(file.path, file.stat, async () =>
+      md5Hash(await this.app.vault.readBinary(file)),
+    );
+  }
+
+  private publishedNoteFiles(target: PublishTarget): TFile[] {
+    return this.app.vault.getMarkdownFiles().filter((file) => this.includesNote(target, file));
+  }
+
+  private canvasFiles(): TFile[] {
+    return this.app.vault.getFiles().filter(isCanvasFile);
+  }
+
+  /**
+   * Notes and canvases
+   */
+  private documentFiles(): TFile[] {
+    return [...this.app.vault.getMarkdownFiles(), ...this.canvasFiles()];
+  }
+
+  private publishedDocumentFiles(target: PublishTarget): TFile[] {
+    return this.documentFiles().filter((file) => this.includesNote(target, file));
+  }
+
+  /**
+   * Assets referenced by the notes and canvases a profile publishes, minus those it excludes
+   */
+  private async collectReferencedAssetFiles(target: PublishTarget): Promise<TFile[]> {
     const referenced = new Map<string, TFile>();
-    const notes = this.app.vault.getMarkdownFiles();
 
-    for (const note of notes) {
+    for (const note of this.publishedDocumentFiles(target)) {
       const cache = this.app.metadataCache.getFileCache(
         note,
       ) as unknown as CachedMetadataLike | null;
       const content = cache ? "" : await this.app.vault.read(note);
       const { assets } = this.resolveReferencesFromCache(note, cache, content);
-      for (const asset of assets) referenced.set(asset.path, asset);
+      for (const asset of assets) {
+        if (this.includesAsset(target, asset)) referenced.set(asset.path, asset);
+      }
     }
 
     return Array.from(referenced.values());
@@ -477,14 +2187,16 @@ export default class MdbrainPlugin extends Plugin {
     cache: CachedMetadataLike | null,
     content?: string,
   ): { assets: TFile[]; linkedNotes: TFile[] } {
-    const linkpaths = this.extractLinkpaths(content ?? "", cache);
+    const linkpaths = isCanvasFile(note)
+      ? this.canvasLinkpaths(content ?? "")
+      : this.extractLinkpaths(content ?? "", cache);
     const assets = new Map<string, TFile>();
     const linkedNotes = new Map<string, TFile>();
 
     for (const linkpath of linkpaths) {
       const resolved = this.app.metadataCache.getFirstLinkpathDest(linkpath, note.path);
       if (!(resolved instanceof TFile)) continue;
-      if (resolved.extension === "md") {
+      if (isDocumentFile(resolved)) {
         linkedNotes.set(resolved.path, resolved);
       } else if (isAssetFile(resolved)) {
         assets.set(resolved.path, resolved);
@@ -494,15 +2206,19 @@ export default class MdbrainPlugin extends Plugin {
     return { assets: Array.from(assets.values()), linkedNotes: Array.from(linkedNotes.values()) };
   }
 
-  private async collectReferencedAssetEntriesForNote(note: TFile): Promise<{
+  private async collectReferencedAssetEntriesForNote(
+    target: PublishTarget,
+    note: TFile,
+  ): Promise<{
     entries: Array<{ id: string; hash: string }>;
     byId: Map<string, TFile>;
   }> {
     const cache = this.app.metadataCache.getFileCache(note) as unknown as CachedMetadataLike | null;
-    return this.collectReferencedAssetEntriesForNoteUsingCache(note, cache);
+    return this.collectReferencedAssetEntriesForNoteUsingCache(target, note, cache);
   }
 
   private async collectReferencedAssetEntriesForNoteUsingCache(
+    target: PublishTarget,
     note: TFile,
     cache: CachedMetadataLike | null,
     content?: string,
@@ -510,13 +2226,14 @@ export default class MdbrainPlugin extends Plugin {
     entries: Array<{ id: string; hash: string }>;
     byId: Map<string, TFile>;
   }> {
-    const files = this.resolveReferencesFromCache(note, cache, content).assets;
+    const files = this.resolveReferencesFromCache(note, cache, content).assets.filter((file) =>
+      this.includesAsset(target, file),
+    );
     const byId = new Map<string, TFile>();
     const entries = await Promise.all(
       files.map(async (file) => {
-        const buffer = await this.app.vault.readBinary(file);
         const id = await hashString(file.path);
-        const hash = await md5Hash(buffer);
+        const hash = await this.hashAssetFile(file);
         byId.set(id, file);
         return { id, hash };
       }),
@@ -524,15 +2241,22 @@ export default class MdbrainPlugin extends Plugin {
     return { entries, byId };
   }
 
-  private async collectLinkedNoteEntriesForNote(note: TFile): Promise<{
+  private async collectLinkedNoteEntriesForNote(
+    target: PublishTarget,
+    note: TFile,
+  ): Promise<{
     entries: Array<{ id: string; hash: string }>;
     byId: Map<string, TFile>;
   }> {
     const cache = this.app.metadataCache.getFileCache(note) as unknown as CachedMetadataLike | null;
-    return this.collectLinkedNoteEntriesForNoteUsingCache(note, cache);
+    return this.collectLinkedNoteEntriesForNoteUsingCache(target, note, cache);
   }
 
+  /**
+   * Linked notes the profile publishes; links to excluded notes are left out
+   */
   private async collectLinkedNoteEntriesForNoteUsingCache(
+    target: PublishTarget,
     note: TFile,
     cache: CachedMetadataLike | null,
     content?: string,
@@ -542,18 +2266,20 @@ export default class MdbrainPlugin extends Plugin {
   }> {
     const linkedFiles = new Map<string, TFile>();
     for (const linked of this.resolveReferencesFromCache(note, cache, content).linkedNotes) {
-      if (linked.path !== note.path) linkedFiles.set(linked.path, linked);
+      if (linked.path !== note.path && this.includesNote(target, linked)) {
+        linkedFiles.set(linked.path, linked);
+      }
     }
 
     const byId = new Map<string, TFile>();
     const entries: Array<{ id: string; hash: string }> = [];
 
     for (const file of linkedFiles.values()) {
-      const id = await getClientId(file, this.app);
+      const id = await this.getClientIdForSync(file);
       if (!id) continue;
 
-      const linkedContent = await this.app.vault.read(file);
-      const hash = await hashString(linkedContent);
+      const hash = await this.hashNoteFile(target, file);
+      if (!hash) continue;
       byId.set(id, file);
       entries.push({ id, hash });
     }
@@ -562,11 +2288,13 @@ export default class MdbrainPlugin extends Plugin {
   }
 
   private async syncAssetsForNote(
+    target: PublishTarget,
     note: TFile,
     needUploadAssets?: Array<{ id: string }>,
     assetsById?: Map<string, TFile>,
   ): Promise<void> {
-    const lookup = assetsById ?? (await this.collectReferencedAssetEntriesForNote(note)).byId;
+    const lookup =
+      assetsById ?? (await this.collectReferencedAssetEntriesForNote(target, note)).byId;
     const assetsToUpload = needUploadAssets?.length
       ? needUploadAssets
       : Array.from(lookup.keys()).map((id) => ({ id }));
@@ -579,18 +2307,20 @@ export default class MdbrainPlugin extends Plugin {
     for (const asset of assetsToUpload) {
       const file = lookup.get(asset.id);
       if (!file) continue;
-      const result = await this.syncAssetFile(file);
+      const result = await this.syncAssetFile(target, file);
       if (!result) {
         failed = true;
+        target.publishQueue.enqueue("asset", file.path);
       }
     }
 
     if (failed) {
-      new Notice("Publish failed: asset upload failed");
+      new Notice(this.forProfile(target, "Publish failed: asset upload failed"));
     }
   }
 
   private async syncLinkedNotesForNote(
+    target: PublishTarget,
     note: TFile,
     needUploadNotes: Array<{ id: string; hash: string }>,
     linkedNotesById: Map<string, TFile>,
@@ -602,17 +2332,19 @@ export default class MdbrainPlugin extends Plugin {
     let failed = false;
     for (const entry of needUploadNotes) {
       const file = linkedNotesById.get(entry.id);
-      if (!file || file.path === note.path) continue;
-      const result = await this.syncNoteFile(file);
+      if (!file || file.path === note.path || !this.includesNote(target, file)) continue;
+      const result = await this.syncNoteFile(target, file);
+      if (result.conflict || result.blocked) continue;
       if (!result.success) {
         failed = true;
+        target.publishQueue.enqueue("note", file.path);
         continue;
       }
-      await this.syncAssetsForNote(file, result.needUploadAssets, result.assetsById);
+      await this.syncAssetsForNote(target, file, result.needUploadAssets, result.assetsById);
     }
 
     if (failed) {
-      new Notice("Publish failed: linked note upload failed");
+      new Notice(this.forProfile(target, "Publish failed: linked note upload failed"));
     }
   }
 
@@ -624,28 +2356,209 @@ export default class MdbrainPlugin extends Plugin {
 
   async loadSettings() {
     const data = await this.loadData();
-    const publishKey =
-      data && typeof data === "object"
-        ? ((data as Record<string, unknown>).publishKey ??
-          (data as Record<string, unknown>).syncKey)
-        : undefined;
-    this.settings = Object.assign({}, DEFAULT_SETTINGS, data, {
-      publishKey: typeof publishKey === "string" ? publishKey : "",
+    const raw = data && typeof data === "object" ? (data as Record<string, unknown>) : {};
+    const {
+      publishQueue,
+      uploadSessions,
+      profileState,
+      noteIds,
+      serverUrl: _serverUrl,
+      publishKey: _publishKey,
+      syncKey: _syncKey,
+      autoSync: _autoSync,
+      ...settingsData
+    } = raw;
+    this.settings = Object.assign({}, DEFAULT_SETTINGS, settingsData, {
+      profiles: restorePublishProfiles(raw),
     });
+    this.noteHashRules = this.getPublishedContentRules();
+
+    // Queues and upload sessions saved before profiles existed belong to the first one.
+    const states = (
+      profileState && typeof profileState === "object"
+        ? profileState
+        : { [this.settings.profiles[0].id]: { publishQueue, uploadSessions } }
+    ) as Record<string, { publishQueue?: unknown; uploadSessions?: unknown } | undefined>;
+    this.targets.clear();
+    for (const target of this.publishTargets) {
+      const state = states[target.profile.id];
+      target.publishQueue.restore(state?.publishQueue);
+      target.uploadSessions.restore(state?.uploadSessions);
+    }
+    this.noteIds.restore(noteIds);
   }
 
   async saveSettings() {
+    const ids = new Set(this.settings.profiles.map((profile) => profile.id));
+    for (const id of this.targets.keys()) {
+      if (!ids.has(id)) this.targets.delete(id);
+    }
+    for (const target of this.publishTargets) {
+      const { profile, client } = target;
+      client.updateConfig({ serverUrl: profile.serverUrl, publishKey: profile.publishKey });
+      client.updateRetryPolicy(this.getRetryPolicy());
+      target.filter = new PublishFilter(profile.filters);
+    }
+    // Cached note hashes were computed with the previous content settings.
+    const rules = this.getPublishedContentRules();
+    if (rules !== this.noteHashRules) {
+      this.noteHashRules = rules;
+      this.noteHashes.clear();
+      void this.saveHashCache();
+    }
+    await this.savePluginData();
+  }
+
+  private getRetryPolicy(): RetryPolicy {
+    return {
+      maxAttempts: this.settings.retryMaxAttempts,
+      baseDelayMs: this.settings.retryBaseDelayMs,
+      maxDelayMs: this.settings.retryMaxDelayMs,
+    };
+  }
+
+  private getSanitizeOptions(): SanitizeOptions {
+    return {
+      stripComments: this.settings.stripComments,
+      privateCalloutTypes: this.settings.privateCalloutTypes,
+      privateStart: this.settings.privateStartMarker,
+      privateEnd: this.settings.privateEndMarker,
+    };
+  }
+
+  private getFrontmatterRules(): FrontmatterRules {
+    return {
+      deny: this.settings.frontmatterDenylist,
+      allow: this.settings.frontmatterAllowlist,
+    };
+  }
+
+  /**
+   * Everything that shapes published content, to tell when note hashes are stale
+   */
+  private getPublishedContentRules(): string {
+    return JSON.stringify([
+      this.getSanitizeOptions(),
+      this.getFrontmatterRules(),
+      this.settings.expandEmbeds && this.settings.maxEmbedDepth,
+    ]);
+  }
+
+  private getDeletionGuard(): DeletionGuard {
+    return {
+      max_notes: this.settings.deletionGuardMaxNotes,
+      max_percent: this.settings.deletionGuardMaxPercent,
+    };
+  }
+
+  private pluginFilePath(name: string): string {
+    return `${this.manifest.dir ?? `.obsidian/plugins/${this.manifest.id}`}/${name}`;
+  }
+
+  /**
+   * The hash cache lives in its own file so that frequent queue writes to
+   * plugin data do not rewrite thousands of entries.
+   */
+  private async loadHashCache(): Promise<void> {
+    try {
+      const adapter = this.app.vault.adapter;
+      const path = this.pluginFilePath(HASH_CACHE_FILE);
+      if (!(await adapter.exists(path))) return;
+      const data = JSON.parse(await adapter.read(path)) as Record<string, unknown>;
+      // Hashes from other content settings (or from before they existed) are stale.
+      if (data.contentRules === this.noteHashRules) this.noteHashes.restore(data.notes);
+      this.assetHashes.restore(data.assets);
+      // Base hashes saved before profiles existed belong to the first one.
+      const bases = (
+        data.bases && typeof data.bases === "object"
+          ? data.bases
+          : { [this.settings.profiles[0].id]: data.base }
+      ) as Record<string, unknown>;
+      for (const target of this.publishTargets) {
+        target.baseHashes.restore(bases[target.profile.id]);
+      }
+    } catch (error) {
+      console.warn("[Mdbrain] Ignoring unreadable hash cache", error);
+    }
+  }
+
+  private async saveHashCache(): Promise<void> {
+    const targets = this.publishTargets;
+    if (
+      !this.noteHashes.isDirty &&
+      !this.assetHashes.isDirty &&
+      !targets.some((target) => target.baseHashes.isDirty)
+    ) {
+      return;
+    }
+    this.noteHashes.markClean();
+    this.assetHashes.markClean();
+    for (const target of targets) target.baseHashes.markClean();
+    try {
+      await this.app.vault.adapter.write(
+        this.pluginFilePath(HASH_CACHE_FILE),
+        JSON.stringify({
+          notes: this.noteHashes.toJSON(),
+          contentRules: this.noteHashRules,
+          assets: this.assetHashes.toJSON(),
+          bases: Object.fromEntries(
+            targets.map((target) => [target.profile.id, target.baseHashes.toJSON()]),
+          ),
+        }),
+      );
+    } catch (error) {
+      console.warn("[Mdbrain] Failed to save hash cache", error);
+    }
+  }
+
+  /**
+   * Stored next to the hash cache for the same reason; written on the retry
+   * interval and on unload rather than after every entry.
+   */
+  private async loadActivityLog(): Promise<void> {
+    try {
+      const adapter = this.app.vault.adapter;
+      const path = this.pluginFilePath(ACTIVITY_LOG_FILE);
+      if (!(await adapter.exists(path))) return;
+      this.activityLog.restore(JSON.parse(await adapter.read(path)));
+    } catch (error) {
+      console.warn("[Mdbrain] Ignoring unreadable activity log", error);
+    }
+  }
+
+  private async saveActivityLog(): Promise<void> {
+    if (!this.activityLog.isDirty) return;
+    this.activityLog.markClean();
+    try {
+      await this.app.vault.adapter.write(
+        this.pluginFilePath(ACTIVITY_LOG_FILE),
+        JSON.stringify(this.activityLog.toJSON()),
+      );
+    } catch (error) {
+      console.warn("[Mdbrain] Failed to save activity log", error);
+    }
+  }
+
+  private async savePluginData(): Promise<void> {
     await this.saveData({
       ...this.settings,
-    });
-    this.syncClient.updateConfig({
-      serverUrl: this.settings.serverUrl,
-      publishKey: this.settings.publishKey,
+      profileState: Object.fromEntries(
+        this.publishTargets.map((target) => [
+          target.profile.id,
+          {
+            publishQueue: target.publishQueue.toJSON(),
+            uploadSessions: target.uploadSessions.toJSON(),
+          },
+        ]),
+      ),
+      noteIds: this.noteIds.toJSON(),
     });
   }
 
   onunload() {
     console.log("[Mdbrain] Plugin unloading");
     this.debounceService.clearAll();
+    void this.saveHashCache();
+    void this.saveActivityLog();
   }
 }
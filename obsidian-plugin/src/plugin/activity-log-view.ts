@@ -0,0 +1,160 @@
+import {
+  ButtonComponent,
+  DropdownComponent,
+  ItemView,
+  SearchComponent,
+  type WorkspaceLeaf,
+} from "obsidian";
+import {
+  type ActivityEntry,
+  type ActivityFilter,
+  type ActivityLog,
+  type ActivityOperation,
+  type ActivityOutcome,
+  formatDuration,
+} from "../services";
+
+export const VIEW_TYPE_ACTIVITY_LOG = "mdbrain-activity-log";
+
+const OPERATION_LABELS: Record<ActivityOperation, string> = {
+  note: "Note",
+  asset: "Asset",
+  delete: "Unpublish",
+  "full-publish": "Full publish",
+};
+
+const OUTCOME_LABELS: Record<ActivityOutcome, string> = {
+  success: "Succeeded",
+  failure: "Failed",
+  cancelled: "Cancelled",
+};
+
+export interface ActivityLogViewActions {
+  /** Run a failed operation again; the result is logged as a new entry */
+  rerun: (entry: ActivityEntry) => Promise<void>;
+  openFile: (path: string) => void;
+}
+
+/**
+ * Side pane listing publish operations, newest first, with filters and a
+ * retry button for failures.
+ */
+export class ActivityLogView extends ItemView {
+  private log: ActivityLog;
+  private actions: ActivityLogViewActions;
+  private filter: ActivityFilter = {};
+  private listEl: HTMLElement | null = null;
+  private unsubscribe: (() => void) | null = null;
+
+  constructor(leaf: WorkspaceLeaf, log: ActivityLog, actions: ActivityLogViewActions) {
+    super(leaf);
+    this.log = log;
+    this.actions = actions;
+  }
+
+  getViewType(): string {
+    return VIEW_TYPE_ACTIVITY_LOG;
+  }
+
+  getDisplayText(): string {
+    return "Mdbrain activity";
+  }
+
+  getIcon(): string {
+    return "list";
+  }
+
+  async onOpen(): Promise<void> {
+    const { contentEl } = this;
+    contentEl.empty();
+
+    const toolbar = contentEl.createDiv({ cls: "mdbrain-activity-toolbar" });
+    new DropdownComponent(toolbar)
+      .addOption("", "All outcomes")
+      .addOptions(OUTCOME_LABELS)
+      .onChange((value) => {
+        this.filter = { ...this.filter, outcome: (value || undefined) as ActivityOutcome };
+        this.renderEntries();
+      });
+    new DropdownComponent(toolbar)
+      .addOption("", "All operations")
+      .addOptions(OPERATION_LABELS)
+      .onChange((value) => {
+        this.filter = { ...this.filter, operation: (value || undefined) as ActivityOperation };
+        this.renderEntries();
+      });
+    new SearchComponent(toolbar).setPlaceholder("Filter by path or error").onChange((value) => {
+      this.filter = { ...this.filter, query: value };
+      this.renderEntries();
+    });
+    new ButtonComponent(toolbar).setButtonText("Clear").onClick(() => this.log.clear());
+
+    this.listEl = contentEl.createDiv({ cls: "mdbrain-activity-list" });
+    this.unsubscribe = this.log.onChange(() => this.renderEntries());
+    this.renderEntries();
+  }
+
+  async onClose(): Promise<void> {
+    this.unsubscribe?.();
+    this.unsubscribe = null;
+    this.listEl = null;
+  }
+
+  private renderEntries(): void {
+    const listEl = this.listEl;
+    if (!listEl) return;
+    listEl.empty();
+
+    const entries = this.log.list(this.filter);
+    if (entries.length === 0) {
+      listEl.createEl("p", {
+        text: this.log.size === 0 ? "Nothing published yet." : "No entries match the filters.",
+        cls: "mdbrain-activity-empty",
+      });
+      return;
+    }
+    for (const entry of entries) {
+      this.renderEntry(listEl, entry);
+    }
+  }
+
+  private renderEntry(listEl: HTMLElement, entry: ActivityEntry): void {
+    const row = listEl.createDiv({ cls: `mdbrain-activity-entry mod-${entry.outcome}` });
+
+    const header = row.createDiv({ cls: "mdbrain-activity-header" });
+    header.createSpan({ text: OUTCOME_LABELS[entry.outcome], cls: "mdbrain-activity-outcome" });
+    header.createSpan({ text: OPERATION_LABELS[entry.operation] });
+    if (entry.profileName) {
+      header.createSpan({ text: entry.profileName, cls: "mdbrain-activity-profile" });
+    }
+    if (entry.path) {
+      const link = header.createEl("a", { text: entry.path, href: "#" });
+      link.addEventListener("click", (event) => {
+        event.preventDefault();
+        this.actions.openFile(entry.path);
+      });
+    }
+
+    const details = [
+      new Date(entry.at).toLocaleString(),
+      entry.status !== undefined ? `HTTP ${entry.status}` : null,
+      formatDuration(entry.durationMs),
+    ].filter((detail) => detail !== null);
+    row.createDiv({ text: details.join(" · "), cls: "mdbrain-activity-details" });
+
+    if (entry.error) {
+      row.createDiv({ text: entry.error, cls: "mdbrain-activity-error mod-warning" });
+    }
+    if (entry.outcome !== "success") {
+      const button = new ButtonComponent(row).setButtonText("Retry");
+      button.onClick(async () => {
+        button.setDisabled(true);
+        try {
+          await this.actions.rerun(entry);
+        } finally {
+          button.setDisabled(false);
+        }
+      });
+    }
+  }
+}
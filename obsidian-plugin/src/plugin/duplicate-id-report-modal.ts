@@ -0,0 +1,36 @@
+import { type App, Modal } from "obsidian";
+import type { DuplicateClientId } from "../services";
+
+/**
+ * Lists notes that shared an `mdbrain-id` with an older note and were given a
+ * new one, so copies no longer overwrite their original on the server.
+ */
+export class DuplicateIdReportModal extends Modal {
+  private repaired: DuplicateClientId[];
+
+  constructor(app: App, repaired: DuplicateClientId[]) {
+    super(app);
+    this.repaired = repaired;
+  }
+
+  onOpen(): void {
+    const { contentEl } = this;
+    contentEl.empty();
+    this.titleEl.setText("Duplicate note IDs repaired");
+
+    contentEl.createEl("p", {
+      text:
+        `${this.repaired.length} note(s) had the same mdbrain-id as an older note, ` +
+        "usually because they were copied. Each copy now has its own ID and is published " +
+        "as a separate note.",
+    });
+    const list = contentEl.createEl("ul");
+    for (const { path, originalPath } of this.repaired) {
+      list.createEl("li", { text: `${path} (copy of ${originalPath})` });
+    }
+  }
+
+  onClose(): void {
+    this.contentEl.empty();
+  }
+}
@@ -32,6 +32,7 @@ describe("registerFileEvents", () => {
       onAssetRename: vi.fn(),
       onMarkdownCacheChanged: vi.fn(),
       onMarkdownCreated: vi.fn(),
+      onCanvasChange: vi.fn(),
     };
 
     const registeredEvents: Array<{
@@ -91,6 +92,22 @@ describe("registerFileEvents", () => {
     expect(harness.handlers.onAssetRename).toHaveBeenCalledWith(asset, "old.png");
   });
 
+  test("routes canvas files as documents", () => {
+    const harness = createHarness();
+    registerFileEvents(harness.app as never, harness.handlers as never, harness.registerEvent);
+
+    const canvas = new TFile("boards/plan.canvas", "plan", "canvas");
+    harness.vaultCallbacks.get("create")?.(canvas);
+    harness.vaultCallbacks.get("modify")?.(canvas);
+    harness.vaultCallbacks.get("delete")?.(canvas);
+    harness.vaultCallbacks.get("rename")?.(canvas, "old.canvas");
+
+    expect(harness.handlers.onCanvasChange).toHaveBeenCalledTimes(2);
+    expect(harness.handlers.onFileDelete).toHaveBeenCalledWith(canvas);
+    expect(harness.handlers.onFileRename).toHaveBeenCalledWith(canvas, "old.canvas");
+    expect(harness.handlers.onAssetChange).not.toHaveBeenCalled();
+  });
+
   test("routes metadata cache changed for markdown files", () => {
     const harness = createHarness();
     registerFileEvents(harness.app as never, harness.handlers as never, harness.registerEvent);
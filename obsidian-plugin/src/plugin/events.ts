@@ -1,6 +1,6 @@
 import { type App, TFile } from "obsidian";
 import type { CachedMetadataLike } from "../services";
-import { isAssetFile } from "../utils";
+import { isAssetFile, isCanvasFile, isDocumentFile } from "../utils";
 
 export type FileDeleteCallback = (file: TFile) => void;
 export type FileRenameCallback = (file: TFile, oldPath: string) => void;
@@ -13,6 +13,7 @@ export type MarkdownCacheChangedCallback = (
   cache: CachedMetadataLike | null,
 ) => void;
 export type MarkdownCreatedCallback = (file: TFile) => void;
+export type CanvasChangeCallback = (file: TFile) => void;
 
 export type ResourceEventCallback = AssetEventCallback;
 export type ResourceDeleteCallback = AssetDeleteCallback;
@@ -26,6 +27,8 @@ export interface EventHandlers {
   onAssetRename: AssetRenameCallback;
   onMarkdownCacheChanged: MarkdownCacheChangedCallback;
   onMarkdownCreated: MarkdownCreatedCallback;
+  /** Canvases have no metadata cache entry; they are read on create and modify */
+  onCanvasChange: CanvasChangeCallback;
 }
 
 export function registerFileEvents(
@@ -38,6 +41,8 @@ export function registerFileEvents(
       if (file instanceof TFile) {
         if (file.extension === "md") {
           handlers.onMarkdownCreated(file);
+        } else if (isCanvasFile(file)) {
+          handlers.onCanvasChange(file);
         } else if (isAssetFile(file)) {
           handlers.onAssetChange(file, "create");
         }
@@ -48,7 +53,9 @@ export function registerFileEvents(
   registerEvent(
     app.vault.on("modify", (file) => {
       if (file instanceof TFile) {
-        if (isAssetFile(file)) {
+        if (isCanvasFile(file)) {
+          handlers.onCanvasChange(file);
+        } else if (isAssetFile(file)) {
           handlers.onAssetChange(file, "modify");
         }
       }
@@ -70,7 +77,7 @@ export function registerFileEvents(
   registerEvent(
     app.vault.on("delete", (file) => {
       if (file instanceof TFile) {
-        if (file.extension === "md") {
+        if (isDocumentFile(file)) {
           handlers.onFileDelete(file);
         } else if (isAssetFile(file)) {
           handlers.onAssetDelete(file);
@@ -82,7 +89,7 @@ export function registerFileEvents(
   registerEvent(
     app.vault.on("rename", (file, oldPath) => {
       if (file instanceof TFile) {
-        if (file.extension === "md") {
+        if (isDocumentFile(file)) {
           handlers.onFileRename(file, oldPath);
         } else if (isAssetFile(file)) {
           handlers.onAssetRename(file, oldPath);
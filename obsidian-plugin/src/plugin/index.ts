@@ -1,2 +1,21 @@
+export {
+  ActivityLogView,
+  type ActivityLogViewActions,
+  VIEW_TYPE_ACTIVITY_LOG,
+} from "./activity-log-view";
+export { DuplicateIdReportModal } from "./duplicate-id-report-modal";
 export { type EventHandlers, registerFileEvents } from "./events";
+export {
+  LinkReportView,
+  type LinkReportViewActions,
+  VIEW_TYPE_LINK_REPORT,
+} from "./link-report-view";
+export {
+  type ConflictResolution,
+  type NoteConflictDetails,
+  NoteConflictModal,
+} from "./note-conflict-modal";
+export { PublishPreviewModal } from "./publish-preview-modal";
+export { PublishStatusBar, type PublishStatusBarActions } from "./publish-status-bar";
+export { SecretReportModal } from "./secret-report-modal";
 export { MdbrainSettingTab } from "./settings-tab";
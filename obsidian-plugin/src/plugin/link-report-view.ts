@@ -0,0 +1,115 @@
+import { ButtonComponent, ItemView, type WorkspaceLeaf } from "obsidian";
+import {
+  describeLinkReport,
+  formatTimeAgo,
+  LINK_PROBLEM_LABELS,
+  type LinkReport,
+  type LinkReportEntry,
+} from "../services";
+
+export const VIEW_TYPE_LINK_REPORT = "mdbrain-link-report";
+
+export interface LinkReportViewActions {
+  /** Check the links of every published note again */
+  check: () => Promise<void>;
+  /** Open a note at a 1-based line */
+  openLine: (path: string, line: number) => void;
+}
+
+/**
+ * Side pane listing the link problems found by the last link check, grouped
+ * by note, each linking to its line.
+ */
+export class LinkReportView extends ItemView {
+  private report: LinkReport;
+  private actions: LinkReportViewActions;
+  private summaryEl: HTMLElement | null = null;
+  private listEl: HTMLElement | null = null;
+  private unsubscribe: (() => void) | null = null;
+
+  constructor(leaf: WorkspaceLeaf, report: LinkReport, actions: LinkReportViewActions) {
+    super(leaf);
+    this.report = report;
+    this.actions = actions;
+  }
+
+  getViewType(): string {
+    return VIEW_TYPE_LINK_REPORT;
+  }
+
+  getDisplayText(): string {
+    return "Mdbrain link check";
+  }
+
+  getIcon(): string {
+    return "unlink";
+  }
+
+  async onOpen(): Promise<void> {
+    const { contentEl } = this;
+    contentEl.empty();
+
+    const toolbar = contentEl.createDiv({ cls: "mdbrain-link-report-toolbar" });
+    const button = new ButtonComponent(toolbar).setButtonText("Check again");
+    button.onClick(async () => {
+      button.setDisabled(true);
+      try {
+        await this.actions.check();
+      } finally {
+        button.setDisabled(false);
+      }
+    });
+    this.summaryEl = toolbar.createSpan({ cls: "mdbrain-link-report-summary" });
+
+    this.listEl = contentEl.createDiv({ cls: "mdbrain-link-report-list" });
+    this.unsubscribe = this.report.onChange(() => this.render());
+    this.render();
+  }
+
+  async onClose(): Promise<void> {
+    this.unsubscribe?.();
+    this.unsubscribe = null;
+    this.summaryEl = null;
+    this.listEl = null;
+  }
+
+  private render(): void {
+    const summaryEl = this.summaryEl;
+    const listEl = this.listEl;
+    if (!summaryEl || !listEl) return;
+    listEl.empty();
+
+    const checkedAt = this.report.lastCheckedAt;
+    const entries = this.report.list();
+    summaryEl.setText(
+      checkedAt === null
+        ? "Not checked yet"
+        : `${describeLinkReport(entries)} · checked ${formatTimeAgo(checkedAt)}`,
+    );
+    for (const entry of entries) {
+      this.renderEntry(listEl, entry);
+    }
+  }
+
+  private renderEntry(listEl: HTMLElement, { path, problems }: LinkReportEntry): void {
+    const section = listEl.createDiv({ cls: "mdbrain-link-report-note" });
+    const title = section.createEl("h4").createEl("a", { text: path, href: "#" });
+    title.addEventListener("click", (event) => {
+      event.preventDefault();
+      this.actions.openLine(path, 1);
+    });
+
+    const list = section.createEl("ul");
+    for (const problem of problems) {
+      const profiles = problem.profiles ? ` (${problem.profiles.join(", ")})` : "";
+      const link = list.createEl("li").createEl("a", {
+        text: `Line ${problem.line}: ${LINK_PROBLEM_LABELS[problem.kind]}${profiles}: ${problem.link}`,
+        href: "#",
+      });
+      link.addEventListener("click", (event) => {
+        event.preventDefault();
+        this.actions.openLine(path, problem.line);
+      });
+    }
+  }
+}
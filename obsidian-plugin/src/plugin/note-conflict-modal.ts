@@ -0,0 +1,115 @@
+import { type App, Modal, Setting } from "obsidian";
+import { diffLines } from "../utils";
+
+export type ConflictResolution = "keep-local" | "keep-server";
+
+export interface NoteConflictDetails {
+  path: string;
+  localContent: string;
+  serverContent: string;
+  /** The local note has sections that are removed before publishing */
+  hasPrivateContent?: boolean;
+  /** The published version has the notes this one embeds written out */
+  hasExpandedEmbeds?: boolean;
+}
+
+const DIFF_PREFIX = { same: "  ", add: "+ ", remove: "- " } as const;
+
+/**
+ * Asks what to do with a note that was published from another device since
+ * this one last published it: overwrite the server, take the server's version,
+ * or look at the differences first.
+ */
+export class NoteConflictModal extends Modal {
+  private conflict: NoteConflictDetails;
+  private onDecision: (resolution: ConflictResolution | null) => void;
+  private decided = false;
+  private diffEl: HTMLElement | null = null;
+
+  constructor(
+    app: App,
+    conflict: NoteConflictDetails,
+    onDecision: (resolution: ConflictResolution | null) => void,
+  ) {
+    super(app);
+    this.conflict = conflict;
+    this.onDecision = onDecision;
+  }
+
+  /**
+   * Open the modal and resolve with the user's choice (null when dismissed)
+   */
+  static choose(app: App, conflict: NoteConflictDetails): Promise<ConflictResolution | null> {
+    return new Promise((resolve) => {
+      new NoteConflictModal(app, conflict, resolve).open();
+    });
+  }
+
+  onOpen(): void {
+    const { contentEl } = this;
+    contentEl.empty();
+    this.titleEl.setText("Publish conflict");
+
+    contentEl.createEl("p", {
+      text:
+        `${this.conflict.path} was published from another device since this device last ` +
+        "published it.",
+    });
+    if (this.conflict.hasPrivateContent) {
+      contentEl.createEl("p", {
+        text:
+          "The published version leaves out this note's private sections and comments. " +
+          "Keeping the server version removes them from your note as well.",
+        cls: "mod-warning",
+      });
+    }
+    if (this.conflict.hasExpandedEmbeds) {
+      contentEl.createEl("p", {
+        text:
+          "The published version includes the notes this note embeds. " +
+          "Keeping the server version writes their content into your note.",
+        cls: "mod-warning",
+      });
+    }
+
+    new Setting(contentEl)
+      .addButton((button) => button.setButtonText("View diff").onClick(() => this.toggleDiff()))
+      .addButton((button) =>
+        button.setButtonText("Keep server version").onClick(() => this.decide("keep-server")),
+      )
+      .addButton((button) =>
+        button
+          .setButtonText("Keep local version")
+          .setWarning()
+          .onClick(() => this.decide("keep-local")),
+      );
+  }
+
+  onClose(): void {
+    this.contentEl.empty();
+    this.decide(null);
+  }
+
+  private decide(resolution: ConflictResolution | null): void {
+    if (this.decided) return;
+    this.decided = true;
+    this.onDecision(resolution);
+    this.close();
+  }
+
+  private toggleDiff(): void {
+    if (this.diffEl) {
+      this.diffEl.remove();
+      this.diffEl = null;
+      return;
+    }
+    this.diffEl = this.contentEl.createEl("pre", { cls: "mdbrain-conflict-diff" });
+    this.diffEl.createDiv({ text: "- server  + local" });
+    for (const line of diffLines(this.conflict.serverContent, this.conflict.localContent)) {
+      this.diffEl.createDiv({
+        text: `${DIFF_PREFIX[line.type]}${line.text}`,
+        cls: `mdbrain-diff-${line.type}`,
+      });
+    }
+  }
+}
@@ -0,0 +1,116 @@
+import { type App, Modal, Setting } from "obsidian";
+import {
+  countPlanChanges,
+  describePlanChanges,
+  type PublishPlanChanges,
+  type PublishPreview,
+} from "../services";
+
+// Longer lists are truncated; the counts above them stay exact.
+const MAX_LISTED_PATHS = 50;
+
+/**
+ * Shows what a full publish would add, update and delete on the server and
+ * lets the user confirm or abort before anything is applied.
+ */
+export class PublishPreviewModal extends Modal {
+  private preview: PublishPreview;
+  private warning: string | undefined;
+  private profileName: string | undefined;
+  private onDecision: (confirmed: boolean) => void;
+  private decided = false;
+
+  constructor(
+    app: App,
+    preview: PublishPreview,
+    onDecision: (confirmed: boolean) => void,
+    warning?: string,
+    profileName?: string,
+  ) {
+    super(app);
+    this.preview = preview;
+    this.onDecision = onDecision;
+    this.warning = warning;
+    this.profileName = profileName;
+  }
+
+  /**
+   * Open the modal and resolve with the user's decision (false when dismissed)
+   * @param warning - Shown above the plan, e.g. when the deletion guard tripped
+   * @param profileName - Named in the title when publishing to several profiles
+   */
+  static confirm(
+    app: App,
+    preview: PublishPreview,
+    warning?: string,
+    profileName?: string,
+  ): Promise<boolean> {
+    return new Promise((resolve) => {
+      new PublishPreviewModal(app, preview, resolve, warning, profileName).open();
+    });
+  }
+
+  onOpen(): void {
+    const { contentEl } = this;
+    contentEl.empty();
+    this.titleEl.setText(
+      this.profileName ? `Preview full publish to ${this.profileName}` : "Preview full publish",
+    );
+
+    if (this.warning) {
+      contentEl.createEl("p", { text: this.warning, cls: "mod-warning" });
+    }
+
+    if (countPlanChanges(this.preview) === 0) {
+      contentEl.createEl("p", { text: "The server is up to date. Nothing will change." });
+    }
+
+    this.renderSection("Notes", this.preview.notes);
+    this.renderSection("Assets", this.preview.assets);
+
+    const deletions = this.preview.notes.delete.length + this.preview.assets.delete.length;
+    new Setting(contentEl)
+      .addButton((button) => button.setButtonText("Cancel").onClick(() => this.decide(false)))
+      .addButton((button) => {
+        button.setButtonText("Publish").onClick(() => this.decide(true));
+        if (deletions > 0) {
+          button.setWarning();
+        } else {
+          button.setCta();
+        }
+      });
+  }
+
+  onClose(): void {
+    this.contentEl.empty();
+    this.decide(false);
+  }
+
+  private decide(confirmed: boolean): void {
+    if (this.decided) return;
+    this.decided = true;
+    this.onDecision(confirmed);
+    this.close();
+  }
+
+  private renderSection(title: string, changes: PublishPlanChanges): void {
+    const { contentEl } = this;
+    contentEl.createEl("h3", { text: `${title}: ${describePlanChanges(changes)}` });
+    this.renderList("Delete from server", changes.delete);
+    this.renderList("Add", changes.add);
+    this.renderList("Update", changes.update);
+  }
+
+  private renderList(label: string, paths: string[]): void {
+    if (paths.length === 0) return;
+    const details = this.contentEl.createEl("details");
+    details.createEl("summary", { text: `${label} (${paths.length})` });
+    const list = details.createEl("ul");
+    for (const path of paths.slice(0, MAX_LISTED_PATHS)) {
+      list.createEl("li", { text: path });
+    }
+    if (paths.length > MAX_LISTED_PATHS) {
+      list.createEl("li", { text: `…and ${paths.length - MAX_LISTED_PATHS} more` });
+    }
+  }
+}
@@ -0,0 +1,102 @@
+import { Menu } from "obsidian";
+import {
+  describePublishProgress,
+  describePublishStatus,
+  formatTimeAgo,
+  type PublishProgressState,
+  type PublishStatus,
+} from "../services";
+
+// The menu is a glance at what went wrong, not a log.
+const MAX_LISTED_ERRORS = 10;
+
+export interface PublishStatusBarActions {
+  retry: () => void;
+  cancelFullPublish: () => void;
+  openActivityLog: () => void;
+}
+
+/**
+ * Status bar item showing whether publishing is idle, running or failing.
+ * A running full publish shows its progress instead; clicking opens a menu
+ * with recent errors and actions.
+ */
+export class PublishStatusBar {
+  private el: HTMLElement;
+  private status: PublishStatus;
+  private actions: PublishStatusBarActions;
+  private progress: PublishProgressState | null = null;
+
+  constructor(el: HTMLElement, status: PublishStatus, actions: PublishStatusBarActions) {
+    this.el = el;
+    this.status = status;
+    this.actions = actions;
+    this.el.addClass("mod-clickable");
+    this.el.addEventListener("click", (event) => this.openMenu(event));
+    this.render();
+  }
+
+  setProgress(progress: PublishProgressState | null): void {
+    this.progress = progress;
+    this.render();
+  }
+
+  render(): void {
+    const status = this.status.current;
+    const text = this.progress
+      ? describePublishProgress(this.progress)
+      : describePublishStatus(status);
+    this.el.setText(`Mdbrain: ${text}`);
+    this.el.setAttr("aria-label", "Mdbrain publish status");
+    this.el.toggleClass("mod-warning", status.state === "error");
+  }
+
+  private openMenu(event: MouseEvent): void {
+    const { errors } = this.status.current;
+    const menu = new Menu();
+
+    if (errors.length === 0) {
+      menu.addItem((item) => item.setTitle("No recent errors").setDisabled(true));
+    }
+    for (const error of errors.slice(0, MAX_LISTED_ERRORS)) {
+      const subject = error.path ? `${error.path}: ` : "";
+      menu.addItem((item) =>
+        item
+          .setTitle(`${subject}${error.message} (${formatTimeAgo(error.at)})`)
+          .setIcon("alert-triangle")
+          .setDisabled(true),
+      );
+    }
+
+    menu.addSeparator();
+    if (this.progress) {
+      menu.addItem((item) =>
+        item
+          .setTitle("Cancel full publish")
+          .setIcon("x-circle")
+          .onClick(() => this.actions.cancelFullPublish()),
+      );
+    }
+    menu.addItem((item) =>
+      item
+        .setTitle("Retry pending publishes")
+        .setIcon("refresh-cw")
+        .onClick(() => this.actions.retry()),
+    );
+    menu.addItem((item) =>
+      item
+        .setTitle("Open activity log")
+        .setIcon("list")
+        .onClick(() => this.actions.openActivityLog()),
+    );
+    if (errors.length > 0) {
+      menu.addItem((item) =>
+        item
+          .setTitle("Clear errors")
+          .setIcon("trash")
+          .onClick(() => this.status.clearErrors()),
+      );
+    }
+    menu.showAtMouseEvent(event);
+  }
+}
@@ -0,0 +1,54 @@
+import { type App, Modal } from "obsidian";
+import { ALLOW_SECRETS_KEY, type SecretReport } from "../services";
+
+/**
+ * Lists notes whose publish was blocked because they seem to contain secrets,
+ * with a link to each finding.
+ */
+export class SecretReportModal extends Modal {
+  private report: SecretReport;
+  private openFinding: (path: string, line: number) => void;
+
+  constructor(app: App, report: SecretReport, openFinding: (path: string, line: number) => void) {
+    super(app);
+    this.report = report;
+    this.openFinding = openFinding;
+  }
+
+  onOpen(): void {
+    const { contentEl } = this;
+    contentEl.empty();
+    this.titleEl.setText("Secret scan report");
+
+    const entries = this.report.list();
+    if (entries.length === 0) {
+      contentEl.createEl("p", { text: "No note is blocked by the secret scanner." });
+      return;
+    }
+
+    contentEl.createEl("p", {
+      text:
+        `${entries.length} note(s) were not published because they seem to contain secrets. ` +
+        `Remove the secret, move it into a private section, or add ${ALLOW_SECRETS_KEY}: true ` +
+        "to the note's frontmatter to publish it anyway.",
+    });
+    for (const { path, findings } of entries) {
+      contentEl.createEl("h4", { text: path });
+      const list = contentEl.createEl("ul");
+      for (const finding of findings) {
+        const link = list
+          .createEl("li")
+          .createEl("a", { text: `Line ${finding.line}: ${finding.rule} (${finding.preview})` });
+        link.addEventListener("click", (event) => {
+          event.preventDefault();
+          this.openFinding(path, finding.line);
+          this.close();
+        });
+      }
+    }
+  }
+
+  onClose(): void {
+    this.contentEl.empty();
+  }
+}
@@ -1,5 +1,13 @@
 import { type App, Notice, PluginSettingTab, Setting } from "obsidian";
+import type { NoteIdStorage, PublishFilters, PublishProfile } from "../domain/types";
 import type MdbrainPlugin from "../main";
+import { ALLOW_SECRETS_KEY, compileSecretRules } from "../services";
+
+const splitList = (value: string): string[] =>
+  value
+    .split(",")
+    .map((entry) => entry.trim())
+    .filter(Boolean);
 
 export class MdbrainSettingTab extends PluginSettingTab {
   plugin: MdbrainPlugin;
@@ -15,15 +23,270 @@ export class MdbrainSettingTab extends PluginSettingTab {
     containerEl.empty();
     containerEl.createEl("h2", { text: "Mdbrain Settings" });
 
+    containerEl.createEl("h3", { text: "Publish profiles" });
+
+    for (const profile of this.plugin.settings.profiles) {
+      this.displayProfile(profile);
+    }
+
+    new Setting(containerEl)
+      .setName("Add profile")
+      .setDesc("Publish this vault to another site with its own server and key")
+      .addButton((button) =>
+        button.setButtonText("Add").onClick(async () => {
+          await this.plugin.addProfile();
+          this.display();
+        }),
+      );
+
+    containerEl.createEl("h3", { text: "General" });
+
+    new Setting(containerEl)
+      .setName("Note ID storage")
+      .setDesc(
+        "Where each note's mdbrain-id is kept. Plugin data leaves notes untouched and only " +
+          "assigns IDs to published notes, but renames made while the plugin is not running " +
+          "(for example through Obsidian Sync) give the note a new ID on the server",
+      )
+      .addDropdown((dropdown) =>
+        dropdown
+          .addOptions({ frontmatter: "Frontmatter", "plugin-data": "Plugin data" })
+          .setValue(this.plugin.settings.noteIdStorage)
+          .onChange(async (value) => {
+            this.plugin.settings.noteIdStorage = value as NoteIdStorage;
+            await this.plugin.saveSettings();
+          }),
+      );
+
+    new Setting(containerEl)
+      .setName("Only publish flagged notes")
+      .setDesc(
+        `Publish a note only when its frontmatter sets ${this.plugin.settings.publishFlagKey}: ` +
+          "true. Setting it to false always keeps a note private and takes it down right away",
+      )
+      .addToggle((toggle) =>
+        toggle.setValue(this.plugin.settings.requirePublishFlag).onChange(async (value) => {
+          this.plugin.settings.requirePublishFlag = value;
+          await this.plugin.saveSettings();
+        }),
+      );
+
+    new Setting(containerEl)
+      .setName("Publish flag key")
+      .setDesc("Frontmatter key that opts a note in or out of publishing")
+      .addText((text) =>
+        text
+          .setPlaceholder("publish")
+          .setValue(this.plugin.settings.publishFlagKey)
+          .onChange(async (value) => {
+            this.plugin.settings.publishFlagKey = value.trim() || "publish";
+            await this.plugin.saveSettings();
+          }),
+      );
+
+    containerEl.createEl("h3", { text: "Private content" });
+
+    new Setting(containerEl)
+      .setName("Remove comments")
+      .setDesc("Leave %% comments %% out of published notes")
+      .addToggle((toggle) =>
+        toggle.setValue(this.plugin.settings.stripComments).onChange(async (value) => {
+          this.plugin.settings.stripComments = value;
+          await this.plugin.saveSettings();
+        }),
+      );
+
+    new Setting(containerEl)
+      .setName("Private callout types")
+      .setDesc("Callouts of these types are left out with their content, comma separated")
+      .addText((text) =>
+        text
+          .setPlaceholder("private, todo")
+          .setValue(this.plugin.settings.privateCalloutTypes.join(", "))
+          .onChange(async (value) => {
+            this.plugin.settings.privateCalloutTypes = splitList(value);
+            await this.plugin.saveSettings();
+          }),
+      );
+
+    new Setting(containerEl)
+      .setName("Private section markers")
+      .setDesc(
+        "Lines between a start and an end marker line are left out (empty start = off). " +
+          "A missing end marker hides the rest of the note",
+      )
+      .addText((text) =>
+        text
+          .setPlaceholder("<!-- private -->")
+          .setValue(this.plugin.settings.privateStartMarker)
+          .onChange(async (value) => {
+            this.plugin.settings.privateStartMarker = value;
+            await this.plugin.saveSettings();
+          }),
+      )
+      .addText((text) =>
+        text
+          .setPlaceholder("<!-- /private -->")
+          .setValue(this.plugin.settings.privateEndMarker)
+          .onChange(async (value) => {
+            this.plugin.settings.privateEndMarker = value;
+            await this.plugin.saveSettings();
+          }),
+      );
+
+    new Setting(containerEl)
+      .setName("Hidden properties")
+      .setDesc(
+        "Frontmatter properties left out of published notes and their metadata, comma separated",
+      )
+      .addText((text) =>
+        text
+          .setPlaceholder("mdbrain-id, client")
+          .setValue(this.plugin.settings.frontmatterDenylist.join(", "))
+          .onChange(async (value) => {
+            this.plugin.settings.frontmatterDenylist = splitList(value);
+            await this.plugin.saveSettings();
+          }),
+      );
+
+    new Setting(containerEl)
+      .setName("Published properties")
+      .setDesc("When set, only these frontmatter properties are published, comma separated")
+      .addText((text) =>
+        text
+          .setPlaceholder("title, tags, aliases")
+          .setValue(this.plugin.settings.frontmatterAllowlist.join(", "))
+          .onChange(async (value) => {
+            this.plugin.settings.frontmatterAllowlist = splitList(value);
+            await this.plugin.saveSettings();
+          }),
+      );
+
+    containerEl.createEl("h3", { text: "Secret scanning" });
+
+    new Setting(containerEl)
+      .setName("Block notes with secrets")
+      .setDesc(
+        "Do not publish notes that seem to contain cloud keys, private keys or tokens. " +
+          `Add ${ALLOW_SECRETS_KEY}: true to a note's frontmatter to publish it anyway`,
+      )
+      .addToggle((toggle) =>
+        toggle.setValue(this.plugin.settings.secretScanning).onChange(async (value) => {
+          this.plugin.settings.secretScanning = value;
+          await this.plugin.saveSettings();
+        }),
+      );
+
+    new Setting(containerEl)
+      .setName("Custom secret patterns")
+      .setDesc("Regular expressions that also count as secrets, one per line")
+      .addTextArea((text) =>
+        text
+          .setPlaceholder("acme_[0-9a-f]{32}")
+          .setValue(this.plugin.settings.customSecretPatterns.join("\n"))
+          .onChange(async (value) => {
+            const patterns = value
+              .split("\n")
+              .map((line) => line.trim())
+              .filter(Boolean);
+            const { invalid } = compileSecretRules(patterns);
+            if (invalid.length > 0) {
+              new Notice(`Invalid secret pattern: ${invalid.join(", ")}`);
+              return;
+            }
+            this.plugin.settings.customSecretPatterns = patterns;
+            await this.plugin.saveSettings();
+          }),
+      );
+
+    new Setting(containerEl)
+      .setName("Secret scan report")
+      .setDesc("Notes whose last publish was blocked, with each finding")
+      .addButton((button) =>
+        button.setButtonText("Show").onClick(() => this.plugin.openSecretReport()),
+      );
+
+    containerEl.createEl("h3", { text: "Embeds" });
+
+    new Setting(containerEl)
+      .setName("Expand embedded notes")
+      .setDesc(
+        "Publish ![[note]], ![[note#Heading]] and ![[note#^block]] embeds with the embedded " +
+          "content written out. Notes excluded from publishing stay as embeds",
+      )
+      .addToggle((toggle) =>
+        toggle.setValue(this.plugin.settings.expandEmbeds).onChange(async (value) => {
+          this.plugin.settings.expandEmbeds = value;
+          await this.plugin.saveSettings();
+        }),
+      );
+    this.addNumberSetting(
+      "Embed depth limit",
+      "How many levels of embeds inside embedded notes are written out",
+      "maxEmbedDepth",
+      1,
+    );
+
+    containerEl.createEl("h3", { text: "Retry policy" });
+
+    this.addNumberSetting(
+      "Retry attempts",
+      "Total attempts per request, including the first (network errors, 429, 502, 503, 504)",
+      "retryMaxAttempts",
+      1,
+    );
+    this.addNumberSetting(
+      "Base retry delay (ms)",
+      "Backoff doubles after each failed attempt, with random jitter",
+      "retryBaseDelayMs",
+      0,
+    );
+    this.addNumberSetting(
+      "Max retry delay (ms)",
+      "Upper bound for a single wait, including server Retry-After hints",
+      "retryMaxDelayMs",
+      0,
+    );
+
+    containerEl.createEl("h3", { text: "Deletion guard" });
+
+    this.addNumberSetting(
+      "Max notes deleted per publish",
+      "A full publish deleting more notes than this asks for confirmation first (0 = no limit)",
+      "deletionGuardMaxNotes",
+      0,
+    );
+    this.addNumberSetting(
+      "Max share of notes deleted (%)",
+      "A full publish deleting more than this share of the published notes asks for confirmation first (0 = no limit)",
+      "deletionGuardMaxPercent",
+      0,
+    );
+  }
+
+  private displayProfile(profile: PublishProfile): void {
+    const { containerEl } = this;
+    containerEl.createEl("h4", { text: profile.name });
+
+    new Setting(containerEl)
+      .setName("Name")
+      .setDesc("Shown in commands and messages")
+      .addText((text) =>
+        text.setValue(profile.name).onChange(async (value) => {
+          profile.name = value.trim() || profile.name;
+          await this.plugin.saveSettings();
+        }),
+      );
+
     new Setting(containerEl)
       .setName("Publish URL")
       .setDesc("Your Mdbrain publish URL")
       .addText((text) =>
         text
           .setPlaceholder("https://console.example.com")
-          .setValue(this.plugin.settings.serverUrl ?? "")
+          .setValue(profile.serverUrl ?? "")
           .onChange(async (value) => {
-            this.plugin.settings.serverUrl = value;
+            profile.serverUrl = value;
             await this.plugin.saveSettings();
           }),
       );
@@ -33,7 +296,7 @@ export class MdbrainSettingTab extends PluginSettingTab {
       .setDesc("Publish Key from Mdbrain Console")
       .addText((text) =>
         text.setPlaceholder("xxxxxxxx-xxxx-xxxx-xxxx-xxxxxxxxxxxx").onChange(async (value) => {
-          this.plugin.settings.publishKey = value;
+          profile.publishKey = value;
           await this.plugin.saveSettings();
         }),
       );
@@ -48,7 +311,7 @@ export class MdbrainSettingTab extends PluginSettingTab {
 
           new Notice("Testing publish connection...");
 
-          const result = await this.plugin.syncClient.getVaultInfo();
+          const result = await this.plugin.getSyncClient(profile).getVaultInfo();
 
           button.setDisabled(false);
           button.setButtonText("Test");
@@ -74,19 +337,148 @@ export class MdbrainSettingTab extends PluginSettingTab {
           button.setDisabled(true);
           button.setButtonText("Publishing...");
 
-          await this.plugin.fullSync();
+          await this.plugin.fullSync(true, profile.id);
 
           button.setDisabled(false);
           button.setButtonText("Start publish");
         }),
+      )
+      .addButton((button) =>
+        button.setButtonText("Preview").onClick(async () => {
+          button.setDisabled(true);
+          await this.plugin.previewFullSync(profile.id);
+          button.setDisabled(false);
+        }),
+      );
+
+    new Setting(containerEl)
+      .setName("Pending publishes")
+      .setDesc(
+        `${this.plugin.pendingPublishCountFor(profile.id)} item(s) waiting to be published (kept across restarts)`,
+      )
+      .addButton((button) =>
+        button.setButtonText("Retry now").onClick(async () => {
+          button.setDisabled(true);
+          await this.plugin.drainPublishQueue(true, profile.id);
+          button.setDisabled(false);
+          this.display();
+        }),
       );
 
     new Setting(containerEl)
       .setName("Auto publish")
       .setDesc("Automatically publish on file changes")
       .addToggle((toggle) =>
-        toggle.setValue(this.plugin.settings.autoSync).onChange(async (value) => {
-          this.plugin.settings.autoSync = value;
+        toggle.setValue(profile.autoSync).onChange(async (value) => {
+          profile.autoSync = value;
+          await this.plugin.saveSettings();
+        }),
+      );
+
+    this.addFilterListSetting(
+      profile,
+      "Include folders",
+      "Only publish notes in these folders or matching these globs, one per line (empty = all)",
+      "includeFolders",
+      "Public\nBlog/**/*.md",
+    );
+    this.addFilterListSetting(
+      profile,
+      "Exclude folders",
+      "Never publish notes or assets in these folders or matching these globs, one per line",
+      "excludeFolders",
+      "Private\nTemplates",
+    );
+    this.addFilterListSetting(
+      profile,
+      "Include tags",
+      "Only publish notes with one of these tags, one per line (empty = all)",
+      "includeTags",
+      "publish",
+    );
+    this.addFilterListSetting(
+      profile,
+      "Exclude tags",
+      "Never publish notes with these tags or their nested tags, one per line",
+      "excludeTags",
+      "private",
+    );
+
+    new Setting(containerEl)
+      .setName("Max file size (KB)")
+      .setDesc(
+        "Skip notes and assets larger than this (0 = no limit). Excluded files are removed " +
+          "from the site on the next full publish",
+      )
+      .addText((text) =>
+        text.setValue(String(profile.filters.maxFileSizeKb)).onChange(async (value) => {
+          const parsed = Number.parseInt(value, 10);
+          if (!Number.isFinite(parsed) || parsed < 0) return;
+          profile.filters.maxFileSizeKb = parsed;
+          await this.plugin.saveSettings();
+        }),
+      );
+
+    if (this.plugin.settings.profiles.length > 1) {
+      new Setting(containerEl)
+        .setName("Remove profile")
+        .setDesc("Stops publishing to this site and drops its pending publishes")
+        .addButton((button) =>
+          button
+            .setButtonText("Remove")
+            .setWarning()
+            .onClick(async () => {
+              await this.plugin.removeProfile(profile.id);
+              this.display();
+            }),
+        );
+    }
+  }
+
+  private addFilterListSetting(
+    profile: PublishProfile,
+    name: string,
+    desc: string,
+    key: Exclude<keyof PublishFilters, "maxFileSizeKb">,
+    placeholder: string,
+  ): void {
+    new Setting(this.containerEl)
+      .setName(name)
+      .setDesc(desc)
+      .addTextArea((text) =>
+        text
+          .setPlaceholder(placeholder)
+          .setValue(profile.filters[key].join("\n"))
+          .onChange(async (value) => {
+            profile.filters[key] = value
+              .split("\n")
+              .map((line) => line.trim())
+              .filter(Boolean);
+            await this.plugin.saveSettings();
+          }),
+      );
+  }
+
+  private addNumberSetting(
+    name: string,
+    desc: string,
+    key:
+      | "retryMaxAttempts"
+      | "retryBaseDelayMs"
+      | "retryMaxDelayMs"
+      | "deletionGuardMaxNotes"
+      | "deletionGuardMaxPercent"
+      | "maxEmbedDepth",
+    min: number,
+  ): void {
+    new Setting(this.containerEl)
+      .setName(name)
+      .setDesc(desc)
+      .addText((text) =>
+        text.setValue(String(this.plugin.settings[key])).onChange(async (value) => {
+          const parsed = Number.parseInt(value, 10);
+          if (!Number.isFinite(parsed) || parsed < min) return;
+          this.plugin.settings[key] = parsed;
           await this.plugin.saveSettings();
         }),
       );
@@ -0,0 +1,85 @@
+import { describe, expect, test, vi } from "vitest";
+import { ActivityLog, formatDuration } from "./activity-log";
+
+const failure = {
+  path: "notes/a.md",
+  operation: "note" as const,
+  outcome: "failure" as const,
+  status: 500,
+  error: "HTTP 500: boom",
+  durationMs: 120,
+};
+
+describe("ActivityLog", () => {
+  test("records entries newest first with an id and timestamp", () => {
+    let now = 1000;
+    const log = new ActivityLog(10, () => now);
+    const first = log.add(failure);
+    now = 2000;
+    log.add({ path: "img.png", operation: "asset", outcome: "success", durationMs: 5 });
+
+    expect(log.list().map((entry) => entry.path)).toEqual(["img.png", "notes/a.md"]);
+    expect(log.get(first.id)).toMatchObject({ at: 1000, status: 500 });
+    expect(log.isDirty).toBe(true);
+  });
+
+  test("drops the oldest entries past the limit", () => {
+    const log = new ActivityLog(2);
+    for (const path of ["a.md", "b.md", "c.md"]) {
+      log.add({ ...failure, path });
+    }
+
+    expect(log.list().map((entry) => entry.path)).toEqual(["c.md", "b.md"]);
+  });
+
+  test("filters by outcome, operation and text", () => {
+    const log = new ActivityLog();
+    log.add(failure);
+    log.add({
+      path: "img.png",
+      operation: "asset",
+      outcome: "success",
+      durationMs: 5,
+      profileId: "team",
+      profileName: "Team site",
+    });
+    log.add({ path: "", operation: "full-publish", outcome: "cancelled", durationMs: 9 });
+
+    expect(log.list({ outcome: "failure" }).map((entry) => entry.path)).toEqual(["notes/a.md"]);
+    expect(log.list({ operation: "asset" }).map((entry) => entry.path)).toEqual(["img.png"]);
+    expect(log.list({ query: "BOOM" }).map((entry) => entry.path)).toEqual(["notes/a.md"]);
+    expect(log.list({ query: "IMG" }).map((entry) => entry.path)).toEqual(["img.png"]);
+    expect(log.list({ query: "team" }).map((entry) => entry.path)).toEqual(["img.png"]);
+  });
+
+  test("round-trips through JSON and drops malformed entries", () => {
+    const log = new ActivityLog();
+    log.add(failure);
+
+    const restored = new ActivityLog();
+    restored.restore([...JSON.parse(JSON.stringify(log.toJSON())), { path: "x" }, null]);
+
+    expect(restored.list()).toEqual(log.list());
+    expect(restored.isDirty).toBe(false);
+  });
+
+  test("notifies listeners on add and clear", () => {
+    const log = new ActivityLog();
+    const listener = vi.fn();
+    log.onChange(listener);
+
+    log.add(failure);
+    log.clear();
+    log.clear();
+
+    expect(listener).toHaveBeenCalledTimes(2);
+    expect(log.size).toBe(0);
+  });
+});
+
+describe("formatDuration", () => {
+  test("uses milliseconds below a second", () => {
+    expect(formatDuration(850)).toBe("850 ms");
+    expect(formatDuration(2400)).toBe("2.4 s");
+  });
+});
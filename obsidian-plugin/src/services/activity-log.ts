@@ -0,0 +1,160 @@
+/**
+ * Publish activity log
+ *
+ * Bounded, newest-first record of every publish operation with its outcome,
+ * HTTP status and server error. Persistence is delegated to the caller via
+ * `restore`/`toJSON`; rendering is left to change listeners.
+ */
+
+export type ActivityOperation = "note" | "asset" | "delete" | "full-publish";
+
+export type ActivityOutcome = "success" | "failure" | "cancelled";
+
+export interface ActivityEntry {
+  id: string;
+  at: number;
+  /** Vault path; empty for full publishes */
+  path: string;
+  operation: ActivityOperation;
+  outcome: ActivityOutcome;
+  /** HTTP status of the response, absent for network errors */
+  status?: number;
+  error?: string;
+  durationMs: number;
+  /** Publish profile the request went to; absent when it spanned several */
+  profileId?: string;
+  profileName?: string;
+}
+
+export interface ActivityFilter {
+  outcome?: ActivityOutcome;
+  operation?: ActivityOperation;
+  /** Case-insensitive match against path, error and profile name */
+  query?: string;
+}
+
+export type ActivityLogListener = (entries: readonly ActivityEntry[]) => void;
+
+export const DEFAULT_ACTIVITY_LOG_SIZE = 500;
+
+const OPERATIONS = new Set<ActivityOperation>(["note", "asset", "delete", "full-publish"]);
+const OUTCOMES = new Set<ActivityOutcome>(["success", "failure", "cancelled"]);
+
+const isActivityEntry = (value: unknown): value is ActivityEntry => {
+  if (!value || typeof value !== "object") return false;
+  const entry = value as Record<string, unknown>;
+  return (
+    typeof entry.id === "string" &&
+    typeof entry.at === "number" &&
+    typeof entry.path === "string" &&
+    OPERATIONS.has(entry.operation as ActivityOperation) &&
+    OUTCOMES.has(entry.outcome as ActivityOutcome) &&
+    typeof entry.durationMs === "number"
+  );
+};
+
+export class ActivityLog {
+  private entries: ActivityEntry[] = [];
+  private listeners = new Set<ActivityLogListener>();
+  private dirty = false;
+  private sequence = 0;
+  private maxEntries: number;
+  private now: () => number;
+
+  constructor(maxEntries = DEFAULT_ACTIVITY_LOG_SIZE, now: () => number = Date.now) {
+    this.maxEntries = maxEntries;
+    this.now = now;
+  }
+
+  /**
+   * Replace the log with previously persisted entries, dropping malformed ones
+   */
+  restore(raw: unknown): void {
+    const entries = Array.isArray(raw) ? raw.filter(isActivityEntry) : [];
+    this.entries = entries.slice(0, this.maxEntries);
+    this.dirty = false;
+    this.emit();
+  }
+
+  /**
+   * Record a finished operation; the oldest entries fall off past the limit
+   */
+  add(entry: Omit<ActivityEntry, "id" | "at">): ActivityEntry {
+    const at = this.now();
+    const recorded: ActivityEntry = { id: `${at.toString(36)}-${this.sequence++}`, at, ...entry };
+    this.entries = [recorded, ...this.entries].slice(0, this.maxEntries);
+    this.dirty = true;
+    this.emit();
+    return recorded;
+  }
+
+  get(id: string): ActivityEntry | undefined {
+    return this.entries.find((entry) => entry.id === id);
+  }
+
+  clear(): void {
+    if (this.entries.length === 0) return;
+    this.entries = [];
+    this.dirty = true;
+    this.emit();
+  }
+
+  /**
+   * Newest first
+   */
+  list(filter: ActivityFilter = {}): ActivityEntry[] {
+    return filterActivity(this.entries, filter);
+  }
+
+  get size(): number {
+    return this.entries.length;
+  }
+
+  get isDirty(): boolean {
+    return this.dirty;
+  }
+
+  markClean(): void {
+    this.dirty = false;
+  }
+
+  onChange(listener: ActivityLogListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  toJSON(): ActivityEntry[] {
+    return this.entries.map((entry) => ({ ...entry }));
+  }
+
+  private emit(): void {
+    for (const listener of this.listeners) {
+      listener(this.entries);
+    }
+  }
+}
+
+export function filterActivity(
+  entries: readonly ActivityEntry[],
+  filter: ActivityFilter,
+): ActivityEntry[] {
+  const query = filter.query?.trim().toLowerCase();
+  return entries.filter(
+    (entry) =>
+      (!filter.outcome || entry.outcome === filter.outcome) &&
+      (!filter.operation || entry.operation === filter.operation) &&
+      (!query ||
+        entry.path.toLowerCase().includes(query) ||
+        (entry.error?.toLowerCase().includes(query) ?? false) ||
+        (entry.profileName?.toLowerCase().includes(query) ?? false)),
+  );
+}
+
+/**
+ * Human-readable duration, e.g. "850 ms", "2.4 s"
+ */
+export function formatDuration(ms: number): string {
+  return ms < 1000 ? `${Math.round(ms)} ms` : `${(ms / 1000).toFixed(1)} s`;
+}
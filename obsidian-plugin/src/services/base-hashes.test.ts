@@ -0,0 +1,41 @@
+import { describe, expect, test } from "vitest";
+import { BaseHashStore } from "./base-hashes";
+
+describe("BaseHashStore", () => {
+  test("tracks hashes by path and follows renames", () => {
+    const store = new BaseHashStore();
+    store.set("a.md", "h1");
+    store.rename("a.md", "b.md");
+
+    expect(store.get("a.md")).toBeUndefined();
+    expect(store.get("b.md")).toBe("h1");
+
+    store.delete("b.md");
+    expect(store.size).toBe(0);
+  });
+
+  test("only becomes dirty on real changes", () => {
+    const store = new BaseHashStore();
+    store.set("a.md", "h1");
+    store.markClean();
+
+    store.set("a.md", "h1");
+    store.delete("missing.md");
+    store.rename("missing.md", "other.md");
+    expect(store.isDirty).toBe(false);
+
+    store.set("a.md", "h2");
+    expect(store.isDirty).toBe(true);
+  });
+
+  test("round-trips through JSON and drops malformed entries", () => {
+    const store = new BaseHashStore();
+    store.set("a.md", "h1");
+
+    const restored = new BaseHashStore();
+    restored.restore({ ...store.toJSON(), "b.md": 42 });
+
+    expect(restored.toJSON()).toEqual({ "a.md": "h1" });
+    expect(restored.isDirty).toBe(false);
+  });
+});
@@ -0,0 +1,64 @@
+/**
+ * Published base hashes
+ *
+ * Remembers, per note path, the content hash this client last published or
+ * accepted from the server. It is sent with note publishes so the server can
+ * refuse edits made on top of a version it no longer has (another device
+ * published in between). Persisted with the hash cache.
+ */
+
+export class BaseHashStore {
+  private hashes = new Map<string, string>();
+  private dirty = false;
+
+  /**
+   * Replace the store with previously persisted hashes, dropping malformed ones
+   */
+  restore(raw: unknown): void {
+    this.hashes.clear();
+    if (raw && typeof raw === "object") {
+      for (const [path, hash] of Object.entries(raw as Record<string, unknown>)) {
+        if (typeof hash === "string") this.hashes.set(path, hash);
+      }
+    }
+    this.dirty = false;
+  }
+
+  get(path: string): string | undefined {
+    return this.hashes.get(path);
+  }
+
+  set(path: string, hash: string): void {
+    if (this.hashes.get(path) === hash) return;
+    this.hashes.set(path, hash);
+    this.dirty = true;
+  }
+
+  delete(path: string): void {
+    if (this.hashes.delete(path)) this.dirty = true;
+  }
+
+  rename(oldPath: string, newPath: string): void {
+    const hash = this.hashes.get(oldPath);
+    if (hash === undefined) return;
+    this.hashes.delete(oldPath);
+    this.hashes.set(newPath, hash);
+    this.dirty = true;
+  }
+
+  get size(): number {
+    return this.hashes.size;
+  }
+
+  get isDirty(): boolean {
+    return this.dirty;
+  }
+
+  markClean(): void {
+    this.dirty = false;
+  }
+
+  toJSON(): Record<string, string> {
+    return Object.fromEntries(this.hashes);
+  }
+}
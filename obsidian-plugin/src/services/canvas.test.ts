@@ -0,0 +1,90 @@
+import { describe, expect, test } from "vitest";
+import {
+  type CanvasData,
+  type CanvasFileTarget,
+  extractCanvasLinkpaths,
+  parseCanvas,
+  publishCanvas,
+  serializeCanvas,
+} from "./canvas";
+
+const box = { x: 0, y: 0, width: 200, height: 100 };
+
+const canvas: CanvasData = {
+  nodes: [
+    { id: "t", type: "text", text: "See [[Plan]] and ![[chart.png]]", ...box },
+    { id: "n", type: "file", file: "notes/Plan.md", subpath: "#Goals", ...box },
+    { id: "p", type: "file", file: "Private/Diary.md", ...box },
+    { id: "i", type: "file", file: "chart.png", ...box },
+    { id: "l", type: "link", url: "https://example.com", ...box },
+  ],
+  edges: [
+    { id: "e1", fromNode: "t", toNode: "n", label: "details" },
+    { id: "e2", fromNode: "n", toNode: "p" },
+  ],
+};
+
+describe("parseCanvas", () => {
+  test("reads nodes and edges and keeps their other fields", () => {
+    expect(parseCanvas(serializeCanvas(canvas))).toEqual(canvas);
+  });
+
+  test("drops malformed nodes and edges between missing nodes", () => {
+    const parsed = parseCanvas(
+      JSON.stringify({
+        nodes: [{ id: "a", type: "text", text: "A" }, { type: "text" }, "junk"],
+        edges: [
+          { id: "e1", fromNode: "a", toNode: "gone" },
+          { id: "e2", fromNode: "a" },
+        ],
+      }),
+    );
+
+    expect(parsed).toEqual({ nodes: [{ id: "a", type: "text", text: "A" }], edges: [] });
+  });
+
+  test("treats a blank file as an empty canvas and rejects anything else", () => {
+    expect(parseCanvas("")).toEqual({ nodes: [], edges: [] });
+    expect(parseCanvas("{}")).toEqual({ nodes: [], edges: [] });
+    expect(parseCanvas("{nodes")).toBeNull();
+    expect(parseCanvas("[]")).toBeNull();
+  });
+});
+
+describe("extractCanvasLinkpaths", () => {
+  test("lists shown files and links in text nodes once", () => {
+    expect(extractCanvasLinkpaths(canvas)).toEqual([
+      "Plan",
+      "chart.png",
+      "notes/Plan.md",
+      "Private/Diary.md",
+    ]);
+  });
+});
+
+describe("publishCanvas", () => {
+  const targets = new Map<string, CanvasFileTarget>([
+    ["notes/Plan.md", { kind: "document", id: "plan-id", path: "notes/Plan.md" }],
+    ["chart.png", { kind: "asset", id: "chart-id", path: "chart.png" }],
+  ]);
+
+  test("drops file nodes without a published target, and their edges", () => {
+    const { canvas: published, files } = publishCanvas(canvas, targets, (text) => text);
+
+    expect(published.nodes.map((node) => node.id)).toEqual(["t", "n", "i", "l"]);
+    expect(published.edges.map((edge) => edge.id)).toEqual(["e1"]);
+    expect(files).toEqual([
+      { node: "n", kind: "document", id: "plan-id", path: "notes/Plan.md" },
+      { node: "i", kind: "asset", id: "chart-id", path: "chart.png" },
+    ]);
+  });
+
+  test("sanitizes text nodes", () => {
+    const { canvas: published } = publishCanvas(canvas, targets, (text) => text.toUpperCase());
+
+    expect(published.nodes[0]).toEqual({
+      ...canvas.nodes[0],
+      text: "SEE [[PLAN]] AND ![[CHART.PNG]]",
+    });
+  });
+});
@@ -0,0 +1,136 @@
+/**
+ * JSON Canvas
+ *
+ * Reads Obsidian `.canvas` files and prepares them for publishing. File nodes
+ * are matched to the documents and assets they show; nodes showing anything
+ * that is not published are dropped along with their edges. Text nodes are
+ * markdown and keep their links.
+ */
+
+import type { CanvasFileRef } from "../domain/types";
+import { extractAssetPaths, extractNotePaths } from "../utils/asset-links";
+
+/**
+ * A canvas node; `text`, `file` (a vault path with an optional `subpath`),
+ * `link` and `group` nodes carry further fields, which are kept as they are
+ */
+export interface CanvasNode {
+  id: string;
+  type: string;
+  text?: string;
+  file?: string;
+  subpath?: string;
+  [key: string]: unknown;
+}
+
+export interface CanvasEdge {
+  id: string;
+  fromNode: string;
+  toNode: string;
+  [key: string]: unknown;
+}
+
+export interface CanvasData {
+  nodes: CanvasNode[];
+  edges: CanvasEdge[];
+}
+
+/**
+ * A published document or asset a file node may show
+ */
+export type CanvasFileTarget = Omit<CanvasFileRef, "node">;
+
+export interface PublishedCanvas {
+  canvas: CanvasData;
+  files: CanvasFileRef[];
+}
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+const isNode = (value: unknown): value is CanvasNode =>
+  isObject(value) && typeof value.id === "string" && typeof value.type === "string";
+
+const isEdge = (value: unknown): value is CanvasEdge =>
+  isObject(value) &&
+  typeof value.id === "string" &&
+  typeof value.fromNode === "string" &&
+  typeof value.toNode === "string";
+
+const withoutDanglingEdges = (canvas: CanvasData): CanvasData => {
+  const ids = new Set(canvas.nodes.map((node) => node.id));
+  return {
+    nodes: canvas.nodes,
+    edges: canvas.edges.filter((edge) => ids.has(edge.fromNode) && ids.has(edge.toNode)),
+  };
+};
+
+/**
+ * Nodes and edges of a canvas file; malformed ones and edges between missing
+ * nodes are left out. A blank file is an empty canvas.
+ * @returns null when the file is not a canvas
+ */
+export function parseCanvas(content: string): CanvasData | null {
+  if (!content.trim()) return { nodes: [], edges: [] };
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(content);
+  } catch {
+    return null;
+  }
+  if (!isObject(parsed)) return null;
+  const nodes = Array.isArray(parsed.nodes) ? parsed.nodes.filter(isNode) : [];
+  const edges = Array.isArray(parsed.edges) ? parsed.edges.filter(isEdge) : [];
+  return withoutDanglingEdges({ nodes, edges });
+}
+
+/**
+ * Link paths of the files a canvas shows and of the links in its text nodes
+ */
+export function extractCanvasLinkpaths(canvas: CanvasData): string[] {
+  const linkpaths = new Set<string>();
+  for (const node of canvas.nodes) {
+    if (node.type === "file" && typeof node.file === "string" && node.file) {
+      linkpaths.add(node.file);
+    } else if (node.type === "text" && typeof node.text === "string") {
+      for (const path of [...extractNotePaths(node.text), ...extractAssetPaths(node.text)]) {
+        if (path) linkpaths.add(path);
+      }
+    }
+  }
+  return [...linkpaths];
+}
+
+/**
+ * The canvas as it may be published: file nodes are kept only when `targets`
+ * has what they show, and text nodes go through `sanitizeText`
+ * @param targets - Published documents and assets by file node path
+ */
+export function publishCanvas(
+  canvas: CanvasData,
+  targets: ReadonlyMap<string, CanvasFileTarget>,
+  sanitizeText: (text: string) => string,
+): PublishedCanvas {
+  const nodes: CanvasNode[] = [];
+  const files: CanvasFileRef[] = [];
+  for (const node of canvas.nodes) {
+    if (node.type === "file") {
+      const target = typeof node.file === "string" ? targets.get(node.file) : undefined;
+      if (!target) continue;
+      files.push({ node: node.id, ...target });
+      nodes.push(node);
+    } else if (node.type === "text" && typeof node.text === "string") {
+      nodes.push({ ...node, text: sanitizeText(node.text) });
+    } else {
+      nodes.push(node);
+    }
+  }
+  return { canvas: withoutDanglingEdges({ nodes, edges: canvas.edges }), files };
+}
+
+/**
+ * Tab-indented, the way Obsidian writes canvas files
+ */
+export function serializeCanvas(canvas: CanvasData): string {
+  return JSON.stringify(canvas, null, "\t");
+}
@@ -0,0 +1,82 @@
+import { describe, expect, test } from "vitest";
+import { type SanitizeOptions, sanitizeNoteContent } from "./content-sanitizer";
+
+const options: SanitizeOptions = {
+  stripComments: true,
+  privateCalloutTypes: ["private", "Secret"],
+  privateStart: "<!-- private -->",
+  privateEnd: "<!-- /private -->",
+};
+
+const sanitize = (lines: string[], overrides: Partial<SanitizeOptions> = {}) =>
+  sanitizeNoteContent(lines.join("\n"), { ...options, ...overrides }).split("\n");
+
+describe("sanitizeNoteContent", () => {
+  test("removes inline and multi-line comments", () => {
+    expect(
+      sanitize([
+        "Visible %%hidden%% text",
+        "%%",
+        "whole",
+        "block",
+        "%%",
+        "after %% open",
+        "x %% y",
+      ]),
+    ).toEqual(["Visible  text", "after", " y"]);
+  });
+
+  test("keeps comment syntax inside code", () => {
+    const lines = [
+      "Use `%%` for comments",
+      "```",
+      "%% not a comment %%",
+      "```",
+      "~~~~",
+      "%%",
+      "~~~~",
+    ];
+
+    expect(sanitize(lines)).toEqual(lines);
+  });
+
+  test("removes private callouts with their body", () => {
+    expect(
+      sanitize([
+        "Intro",
+        "> [!secret]- Keys",
+        "> line one",
+        ">",
+        "> line two",
+        "",
+        "> [!note] Public",
+        "> stays",
+      ]),
+    ).toEqual(["Intro", "", "> [!note] Public", "> stays"]);
+  });
+
+  test("removes marker regions and runs unterminated ones to the end", () => {
+    expect(
+      sanitize(["a", "  <!-- private -->", "b", "<!-- /private -->", "c", "<!-- private -->", "d"]),
+    ).toEqual(["a", "c"]);
+  });
+
+  test("leaves frontmatter alone", () => {
+    const frontmatter = ["---", "note: '%%'", "---"];
+
+    expect(sanitize([...frontmatter, "%%x%%body"])).toEqual([...frontmatter, "body"]);
+  });
+
+  test("returns content unchanged when everything is disabled", () => {
+    const content = "a %%b%%\n> [!private]\n<!-- private -->";
+
+    expect(
+      sanitizeNoteContent(content, {
+        stripComments: false,
+        privateCalloutTypes: [],
+        privateStart: "",
+        privateEnd: "",
+      }),
+    ).toBe(content);
+  });
+});
@@ -0,0 +1,125 @@
+/**
+ * Content sanitizer
+ *
+ * Removes private text from a note before it is hashed and uploaded: Obsidian
+ * `%% comments %%`, callouts of private types (with their body) and regions
+ * between marker lines. Frontmatter and fenced code are left as they are.
+ */
+
+export interface SanitizeOptions {
+  stripComments: boolean;
+  /** Callout types removed with their body, e.g. `private` for `> [!private]` */
+  privateCalloutTypes: string[];
+  /** Lines that open and close a private region; empty disables regions */
+  privateStart: string;
+  privateEnd: string;
+}
+
+const FENCE = /^\s*(`{3,}|~{3,})/;
+const CALLOUT = /^\s*>\s*\[!([^\]]+)\][+-]?/;
+const QUOTE = /^\s*>/;
+
+/**
+ * Index of the line closing the frontmatter, or -1 without frontmatter
+ */
+const frontmatterEnd = (lines: string[]): number => {
+  if (lines[0]?.trim() !== "---") return -1;
+  for (let i = 1; i < lines.length; i++) {
+    if (lines[i].trim() === "---" || lines[i].trim() === "...") return i;
+  }
+  return -1;
+};
+
+export function sanitizeNoteContent(content: string, options: SanitizeOptions): string {
+  const calloutTypes = new Set(
+    options.privateCalloutTypes.map((type) => type.trim().toLowerCase()).filter(Boolean),
+  );
+  const start = options.privateStart.trim();
+  const end = options.privateEnd.trim();
+  if (!options.stripComments && calloutTypes.size === 0 && !start) return content;
+
+  const lines = content.split("\n");
+  const bodyStart = frontmatterEnd(lines) + 1;
+  const output = lines.slice(0, bodyStart);
+  let fence: string | null = null;
+  let inComment = false;
+  let inRegion = false;
+  let inCallout = false;
+
+  // Drops `%%` spans (which may continue onto later lines) outside inline code
+  const stripLineComments = (line: string): string | null => {
+    let result = "";
+    let touched = inComment;
+    let i = 0;
+    while (i < line.length) {
+      if (inComment) {
+        const close = line.indexOf("%%", i);
+        inComment = close < 0;
+        i = close < 0 ? line.length : close + 2;
+        continue;
+      }
+      if (line[i] === "`") {
+        const ticks = /^`+/.exec(line.slice(i))?.[0] ?? "`";
+        const close = line.indexOf(ticks, i + ticks.length);
+        if (close >= 0) {
+          result += line.slice(i, close + ticks.length);
+          i = close + ticks.length;
+          continue;
+        }
+      }
+      if (line.startsWith("%%", i)) {
+        inComment = true;
+        touched = true;
+        i += 2;
+        continue;
+      }
+      result += line[i];
+      i++;
+    }
+    if (!touched) return result;
+    // A line that only held a comment disappears with it
+    return result.trim() ? result.trimEnd() : null;
+  };
+
+  for (const line of lines.slice(bodyStart)) {
+    if (inRegion) {
+      if (line.trim() === end) inRegion = false;
+      continue;
+    }
+    if (inCallout) {
+      if (QUOTE.test(line)) continue;
+      inCallout = false;
+    }
+    if (fence) {
+      output.push(line);
+      if (line.trim().startsWith(fence) && line.trim().replace(/[`~]/g, "") === "") fence = null;
+      continue;
+    }
+    if (!inComment) {
+      if (start && line.trim() === start) {
+        // Unterminated regions run to the end of the note rather than leak
+        inRegion = true;
+        continue;
+      }
+      const callout = CALLOUT.exec(line);
+      if (callout && calloutTypes.has(callout[1].trim().toLowerCase())) {
+        inCallout = true;
+        continue;
+      }
+      const opening = FENCE.exec(line);
+      if (opening) {
+        fence = opening[1];
+        output.push(line);
+        continue;
+      }
+    }
+    if (!options.stripComments) {
+      output.push(line);
+      continue;
+    }
+    const stripped = stripLineComments(line);
+    if (stripped !== null) output.push(stripped);
+  }
+
+  return output.join("\n");
+}
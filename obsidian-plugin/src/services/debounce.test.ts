@@ -150,6 +150,34 @@ describe("DebounceService", () => {
       expect(service.has("test-key")).toBe(false);
     });
   });
+
+  describe("size and onChange", () => {
+    test("reports pending operations as they are scheduled, fire and are cancelled", () => {
+      const listener = vi.fn();
+      service.onChange(listener);
+
+      service.debounce("a", () => {}, 300);
+      service.debounce("a", () => {}, 300);
+      service.debounce("b", () => {}, 300);
+      expect(service.size).toBe(2);
+
+      activeTimers.get(timerIdCounter)?.callback();
+      service.cancel("a");
+
+      expect(service.size).toBe(0);
+      expect(listener.mock.calls.map(([pending]) => pending)).toEqual([1, 2, 1, 0]);
+    });
+
+    test("stops notifying after unsubscribe", () => {
+      const listener = vi.fn();
+      const unsubscribe = service.onChange(listener);
+      unsubscribe();
+
+      service.debounce("a", () => {}, 300);
+
+      expect(listener).not.toHaveBeenCalled();
+    });
+  });
 });
 
 describe("DebounceService with real timers", () => {
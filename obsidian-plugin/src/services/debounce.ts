@@ -15,6 +15,11 @@ export const defaultTimerFactory: TimerFactory = {
   clearTimeout: (id) => clearTimeout(id),
 };
 
+/**
+ * Called with the number of pending operations whenever it changes
+ */
+export type DebounceListener = (pending: number) => void;
+
 /**
  * Debounce service for managing multiple debounced operations by key
  *
@@ -32,6 +37,7 @@ export const defaultTimerFactory: TimerFactory = {
 export class DebounceService {
   private timers: Map<string, ReturnType<typeof setTimeout>>;
   private timerFactory: TimerFactory;
+  private listeners = new Set<DebounceListener>();
 
   constructor(timerFactory: TimerFactory = defaultTimerFactory) {
     this.timers = new Map();
@@ -52,10 +58,12 @@ export class DebounceService {
     // Schedule new timer
     const timer = this.timerFactory.setTimeout(() => {
       this.timers.delete(key);
+      this.emit();
       callback();
     }, delay);
 
     this.timers.set(key, timer);
+    if (existingTimer === undefined) this.emit();
   }
 
   /**
@@ -66,6 +74,7 @@ export class DebounceService {
     if (timer !== undefined) {
       this.timerFactory.clearTimeout(timer);
       this.timers.delete(key);
+      this.emit();
     }
   }
 
@@ -76,7 +85,9 @@ export class DebounceService {
     for (const timer of this.timers.values()) {
       this.timerFactory.clearTimeout(timer);
     }
+    const hadTimers = this.timers.size > 0;
     this.timers.clear();
+    if (hadTimers) this.emit();
   }
 
   /**
@@ -85,4 +96,24 @@ export class DebounceService {
   has(key: string): boolean {
     return this.timers.has(key);
   }
+
+  /**
+   * Number of operations waiting for their timer
+   */
+  get size(): number {
+    return this.timers.size;
+  }
+
+  onChange(listener: DebounceListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private emit(): void {
+    for (const listener of this.listeners) {
+      listener(this.timers.size);
+    }
+  }
 }
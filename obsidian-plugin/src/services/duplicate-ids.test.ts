@@ -0,0 +1,36 @@
+import { describe, expect, test } from "vitest";
+import { findDuplicateClientIds } from "./duplicate-ids";
+
+describe("findDuplicateClientIds", () => {
+  test("keeps the ID on the oldest file and reports newer copies", () => {
+    expect(
+      findDuplicateClientIds([
+        { path: "b copy.md", id: "x", ctime: 300 },
+        { path: "b.md", id: "x", ctime: 100 },
+        { path: "b copy 2.md", id: "x", ctime: 200 },
+        { path: "c.md", id: "y", ctime: 50 },
+      ]),
+    ).toEqual([
+      { path: "b copy 2.md", id: "x", originalPath: "b.md" },
+      { path: "b copy.md", id: "x", originalPath: "b.md" },
+    ]);
+  });
+
+  test("breaks creation time ties by path", () => {
+    expect(
+      findDuplicateClientIds([
+        { path: "z.md", id: "x", ctime: 1 },
+        { path: "a.md", id: "x", ctime: 1 },
+      ]),
+    ).toEqual([{ path: "z.md", id: "x", originalPath: "a.md" }]);
+  });
+
+  test("returns nothing when IDs are unique", () => {
+    expect(
+      findDuplicateClientIds([
+        { path: "a.md", id: "x", ctime: 1 },
+        { path: "b.md", id: "y", ctime: 1 },
+      ]),
+    ).toEqual([]);
+  });
+});
@@ -0,0 +1,50 @@
+/**
+ * Duplicate client IDs
+ *
+ * Copying a note in Obsidian copies its `mdbrain-id` frontmatter, so two files
+ * would publish to the same server note. The oldest file keeps the ID; newer
+ * copies need a fresh one. Pure logic - no Obsidian dependencies.
+ */
+
+export interface ClientIdEntry {
+  path: string;
+  id: string;
+  /** File creation time; the oldest file is the original */
+  ctime: number;
+}
+
+export interface DuplicateClientId {
+  /** The copy that needs a new ID */
+  path: string;
+  id: string;
+  /** The file that keeps the ID */
+  originalPath: string;
+}
+
+const byAge = (a: ClientIdEntry, b: ClientIdEntry): number =>
+  a.ctime - b.ctime || a.path.localeCompare(b.path);
+
+/**
+ * Files sharing an ID with an older file, in path order
+ */
+export function findDuplicateClientIds(entries: readonly ClientIdEntry[]): DuplicateClientId[] {
+  const byId = new Map<string, ClientIdEntry[]>();
+  for (const entry of entries) {
+    const group = byId.get(entry.id);
+    if (group) {
+      group.push(entry);
+    } else {
+      byId.set(entry.id, [entry]);
+    }
+  }
+
+  const duplicates: DuplicateClientId[] = [];
+  for (const group of byId.values()) {
+    if (group.length < 2) continue;
+    const [original, ...copies] = [...group].sort(byAge);
+    for (const copy of copies) {
+      duplicates.push({ path: copy.path, id: copy.id, originalPath: original.path });
+    }
+  }
+  return duplicates.sort((a, b) => a.path.localeCompare(b.path));
+}
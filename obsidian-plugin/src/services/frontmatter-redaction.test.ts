@@ -0,0 +1,91 @@
+import { describe, expect, test } from "vitest";
+import {
+  type FrontmatterRules,
+  redactFrontmatter,
+  redactFrontmatterBlock,
+  restoreRedactedFrontmatter,
+} from "./frontmatter-redaction";
+
+const deny: FrontmatterRules = { deny: ["mdbrain-id", "Client"], allow: [] };
+
+const note = [
+  "---",
+  "title: Plan",
+  "mdbrain-id: abc",
+  "client: ACME",
+  "reviewers:",
+  "  - Ann",
+  "- Bob",
+  '"rate": 100',
+  "---",
+  "Body",
+].join("\n");
+
+describe("redactFrontmatter", () => {
+  test("drops denied properties regardless of case", () => {
+    expect(redactFrontmatter({ title: "Plan", Client: "ACME", "mdbrain-id": "x" }, deny)).toEqual({
+      title: "Plan",
+    });
+  });
+
+  test("keeps only allowed properties, minus denied ones", () => {
+    expect(
+      redactFrontmatter(
+        { title: "Plan", tags: ["a"], rate: 1 },
+        { deny: ["tags"], allow: ["title", "tags"] },
+      ),
+    ).toEqual({ title: "Plan" });
+  });
+});
+
+describe("redactFrontmatterBlock", () => {
+  test("removes denied properties with their nested lines", () => {
+    expect(
+      redactFrontmatterBlock(note, { deny: ["mdbrain-id", "client", "reviewers"], allow: [] }),
+    ).toBe(["---", "title: Plan", '"rate": 100', "---", "Body"].join("\n"));
+  });
+
+  test("keeps only allowed properties", () => {
+    expect(redactFrontmatterBlock(note, { deny: [], allow: ["rate"] })).toBe(
+      ["---", '"rate": 100', "---", "Body"].join("\n"),
+    );
+  });
+
+  test("removes a frontmatter block left without properties", () => {
+    expect(redactFrontmatterBlock("---\nmdbrain-id: abc\n---\nBody", deny)).toBe("Body");
+  });
+
+  test("leaves notes without frontmatter or rules untouched", () => {
+    expect(redactFrontmatterBlock("Body\n---\nclient: x\n---", deny)).toBe(
+      "Body\n---\nclient: x\n---",
+    );
+    expect(redactFrontmatterBlock(note, { deny: [], allow: [] })).toBe(note);
+  });
+});
+
+describe("restoreRedactedFrontmatter", () => {
+  test("puts the local redacted properties back into the published copy", () => {
+    const published = redactFrontmatterBlock(note, deny).replace("Body", "Server body");
+
+    expect(restoreRedactedFrontmatter(published, note, deny)).toBe(
+      [
+        "---",
+        "title: Plan",
+        "reviewers:",
+        "  - Ann",
+        "- Bob",
+        '"rate": 100',
+        "mdbrain-id: abc",
+        "client: ACME",
+        "---",
+        "Server body",
+      ].join("\n"),
+    );
+  });
+
+  test("recreates the frontmatter block when the published copy has none", () => {
+    expect(restoreRedactedFrontmatter("Body", "---\nmdbrain-id: abc\n---\nBody", deny)).toBe(
+      "---\nmdbrain-id: abc\n---\nBody",
+    );
+  });
+});
@@ -0,0 +1,112 @@
+/**
+ * Frontmatter redaction
+ *
+ * Keeps internal properties out of published notes, both from the metadata
+ * payload and from the YAML block at the top of the uploaded content. The
+ * YAML is edited line by line so everything that is kept stays byte for byte
+ * as written.
+ */
+
+export interface FrontmatterRules {
+  /** Properties never published */
+  deny: string[];
+  /** When not empty, the only properties published */
+  allow: string[];
+}
+
+/** A top-level property with its nested lines; `key` is null for leading comments */
+interface PropertyBlock {
+  key: string | null;
+  lines: string[];
+}
+
+interface Frontmatter {
+  /** Index of the closing `---` line */
+  end: number;
+  blocks: PropertyBlock[];
+}
+
+const PROPERTY = /^(?:"([^"]*)"|'([^']*)'|([^\s#'"-][^:]*?))\s*:(?:\s|$)/;
+
+const parseFrontmatter = (lines: string[]): Frontmatter | null => {
+  if (lines[0]?.trim() !== "---") return null;
+  const blocks: PropertyBlock[] = [{ key: null, lines: [] }];
+  for (let i = 1; i < lines.length; i++) {
+    const line = lines[i];
+    if (line.trim() === "---" || line.trim() === "...") return { end: i, blocks };
+    const property = PROPERTY.exec(line);
+    if (property) {
+      blocks.push({ key: property[1] ?? property[2] ?? property[3], lines: [line] });
+    } else {
+      // Indented values, list items and comments belong to the property above
+      blocks[blocks.length - 1].lines.push(line);
+    }
+  }
+  return null;
+};
+
+const compile = (rules: FrontmatterRules) => {
+  const deny = new Set(rules.deny.map((key) => key.trim().toLowerCase()).filter(Boolean));
+  const allow = new Set(rules.allow.map((key) => key.trim().toLowerCase()).filter(Boolean));
+  if (deny.size === 0 && allow.size === 0) return null;
+  return (key: string): boolean => {
+    const normalized = key.trim().toLowerCase();
+    return deny.has(normalized) || (allow.size > 0 && !allow.has(normalized));
+  };
+};
+
+/**
+ * The frontmatter without redacted properties (case-insensitive)
+ */
+export function redactFrontmatter(
+  frontmatter: Record<string, unknown>,
+  rules: FrontmatterRules,
+): Record<string, unknown> {
+  const isRedacted = compile(rules);
+  if (!isRedacted) return frontmatter;
+  return Object.fromEntries(Object.entries(frontmatter).filter(([key]) => !isRedacted(key)));
+}
+
+/**
+ * Remove redacted properties from the note's YAML block; a block left without
+ * properties is removed altogether
+ */
+export function redactFrontmatterBlock(content: string, rules: FrontmatterRules): string {
+  const isRedacted = compile(rules);
+  if (!isRedacted) return content;
+  const lines = content.split("\n");
+  const frontmatter = parseFrontmatter(lines);
+  if (!frontmatter) return content;
+
+  const kept = frontmatter.blocks.filter((block) => block.key === null || !isRedacted(block.key));
+  if (kept.length === frontmatter.blocks.length) return content;
+  const body = lines.slice(frontmatter.end + 1);
+  if (!kept.some((block) => block.key !== null)) return body.join("\n");
+  return [lines[0], ...kept.flatMap((block) => block.lines), lines[frontmatter.end], ...body].join(
+    "\n",
+  );
+}
+
+/**
+ * Put the redacted properties of `original` back into `published`, e.g. when
+ * the server's copy of a note replaces the local one
+ */
+export function restoreRedactedFrontmatter(
+  published: string,
+  original: string,
+  rules: FrontmatterRules,
+): string {
+  const isRedacted = compile(rules);
+  const source = isRedacted ? parseFrontmatter(original.split("\n")) : null;
+  const restored = (source?.blocks ?? []).flatMap((block) =>
+    block.key !== null && isRedacted?.(block.key) ? block.lines : [],
+  );
+  if (restored.length === 0) return published;
+
+  const lines = published.split("\n");
+  const frontmatter = parseFrontmatter(lines);
+  if (!frontmatter) return ["---", ...restored, "---", ...lines].join("\n");
+  return [...lines.slice(0, frontmatter.end), ...restored, ...lines.slice(frontmatter.end)].join(
+    "\n",
+  );
+}
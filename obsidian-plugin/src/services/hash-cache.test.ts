@@ -0,0 +1,76 @@
+import { describe, expect, test, vi } from "vitest";
+import { HashCache } from "./hash-cache";
+
+describe("HashCache", () => {
+  const stat = { mtime: 100, size: 10 };
+
+  test("returns cached hashes only while mtime and size match", () => {
+    const cache = new HashCache();
+    cache.set("a.md", stat, "hash-a");
+
+    expect(cache.get("a.md", stat)).toBe("hash-a");
+    expect(cache.get("a.md", { mtime: 101, size: 10 })).toBeNull();
+    expect(cache.get("a.md", { mtime: 100, size: 11 })).toBeNull();
+    expect(cache.get("b.md", stat)).toBeNull();
+  });
+
+  test("getOrCompute only computes on a miss", async () => {
+    const cache = new HashCache();
+    const compute = vi.fn().mockResolvedValue("hash-a");
+
+    await expect(cache.getOrCompute("a.md", stat, compute)).resolves.toBe("hash-a");
+    await expect(cache.getOrCompute("a.md", stat, compute)).resolves.toBe("hash-a");
+    expect(compute).toHaveBeenCalledTimes(1);
+
+    await cache.getOrCompute("a.md", { mtime: 200, size: 10 }, compute);
+    expect(compute).toHaveBeenCalledTimes(2);
+  });
+
+  test("tracks whether it needs saving", () => {
+    const cache = new HashCache();
+    expect(cache.isDirty).toBe(false);
+
+    cache.set("a.md", stat, "hash-a");
+    expect(cache.isDirty).toBe(true);
+
+    cache.markClean();
+    cache.set("a.md", stat, "hash-a");
+    expect(cache.isDirty).toBe(false);
+  });
+
+  test("follows renames and prunes missing paths", () => {
+    const cache = new HashCache();
+    cache.set("old.md", stat, "hash-old");
+    cache.set("gone.md", stat, "hash-gone");
+
+    cache.rename("old.md", "new.md");
+    cache.prune(new Set(["new.md"]));
+
+    expect(cache.get("new.md", stat)).toBe("hash-old");
+    expect(cache.get("old.md", stat)).toBeNull();
+    expect(cache.size).toBe(1);
+  });
+
+  test("clears every entry", () => {
+    const cache = new HashCache();
+    cache.set("a.md", stat, "hash-a");
+    cache.markClean();
+
+    cache.clear();
+
+    expect(cache.size).toBe(0);
+    expect(cache.isDirty).toBe(true);
+  });
+
+  test("round-trips through JSON and drops malformed entries", () => {
+    const cache = new HashCache();
+    cache.set("a.md", stat, "hash-a");
+
+    const restored = new HashCache();
+    restored.restore({ ...cache.toJSON(), "bad.md": { mtime: "x" } });
+
+    expect(restored.get("a.md", stat)).toBe("hash-a");
+    expect(restored.size).toBe(1);
+    expect(restored.isDirty).toBe(false);
+  });
+});
@@ -0,0 +1,127 @@
+/**
+ * Content hash cache
+ *
+ * Remembers the hash of a file together with the `mtime` and `size` it was
+ * computed from, so unchanged files are not read and hashed again.
+ */
+
+export interface FileStatLike {
+  mtime: number;
+  size: number;
+}
+
+export interface HashCacheEntry {
+  mtime: number;
+  size: number;
+  hash: string;
+}
+
+const isEntry = (value: unknown): value is HashCacheEntry => {
+  if (!value || typeof value !== "object") return false;
+  const entry = value as Record<string, unknown>;
+  return (
+    typeof entry.mtime === "number" &&
+    typeof entry.size === "number" &&
+    typeof entry.hash === "string"
+  );
+};
+
+export class HashCache {
+  private entries = new Map<string, HashCacheEntry>();
+  private dirty = false;
+
+  /**
+   * Replace the cache with previously persisted entries, dropping malformed ones
+   */
+  restore(raw: unknown): void {
+    this.entries.clear();
+    if (raw && typeof raw === "object") {
+      for (const [path, entry] of Object.entries(raw as Record<string, unknown>)) {
+        if (isEntry(entry)) {
+          this.entries.set(path, { mtime: entry.mtime, size: entry.size, hash: entry.hash });
+        }
+      }
+    }
+    this.dirty = false;
+  }
+
+  /**
+   * Cached hash for a path, or null when missing or the file changed since
+   */
+  get(path: string, stat: FileStatLike): string | null {
+    const entry = this.entries.get(path);
+    if (!entry) return null;
+    if (entry.mtime !== stat.mtime || entry.size !== stat.size) return null;
+    return entry.hash;
+  }
+
+  set(path: string, stat: FileStatLike, hash: string): void {
+    const entry = this.entries.get(path);
+    if (entry && entry.mtime === stat.mtime && entry.size === stat.size && entry.hash === hash) {
+      return;
+    }
+    this.entries.set(path, { mtime: stat.mtime, size: stat.size, hash });
+    this.dirty = true;
+  }
+
+  async getOrCompute(
+    path: string,
+    stat: FileStatLike,
+    compute: () => Promise<string>,
+  ): Promise<string> {
+    const cached = this.get(path, stat);
+    if (cached !== null) return cached;
+    const hash = await compute();
+    this.set(path, stat, hash);
+    return hash;
+  }
+
+  delete(path: string): void {
+    if (this.entries.delete(path)) this.dirty = true;
+  }
+
+  rename(oldPath: string, newPath: string): void {
+    const entry = this.entries.get(oldPath);
+    if (!entry) return;
+    this.entries.delete(oldPath);
+    this.entries.set(newPath, entry);
+    this.dirty = true;
+  }
+
+  /**
+   * Drop entries for paths that no longer exist
+   */
+  prune(keep: Set<string>): void {
+    for (const path of this.entries.keys()) {
+      if (!keep.has(path)) {
+        this.entries.delete(path);
+        this.dirty = true;
+      }
+    }
+  }
+
+  /**
+   * Forget every entry, e.g. once the way hashes are computed has changed
+   */
+  clear(): void {
+    if (this.entries.size === 0) return;
+    this.entries.clear();
+    this.dirty = true;
+  }
+
+  get size(): number {
+    return this.entries.size;
+  }
+
+  get isDirty(): boolean {
+    return this.dirty;
+  }
+
+  markClean(): void {
+    this.dirty = false;
+  }
+
+  toJSON(): Record<string, HashCacheEntry> {
+    return Object.fromEntries(this.entries);
+  }
+}
@@ -1,6 +1,117 @@
-export { DebounceService, defaultTimerFactory, type TimerFactory } from "./debounce";
-export { extractNoteMetadata, type ObsidianCachedMetadata } from "./metadata-extractor";
-export { type CachedMetadataLike, extractInternalLinkpathsFromCache } from "./reference-extractor";
+export {
+  type ActivityEntry,
+  type ActivityFilter,
+  ActivityLog,
+  type ActivityLogListener,
+  type ActivityOperation,
+  type ActivityOutcome,
+  DEFAULT_ACTIVITY_LOG_SIZE,
+  filterActivity,
+  formatDuration,
+} from "./activity-log";
+export { BaseHashStore } from "./base-hashes";
+export {
+  type CanvasData,
+  type CanvasEdge,
+  type CanvasFileTarget,
+  type CanvasNode,
+  extractCanvasLinkpaths,
+  type PublishedCanvas,
+  parseCanvas,
+  publishCanvas,
+  serializeCanvas,
+} from "./canvas";
+export { type SanitizeOptions, sanitizeNoteContent } from "./content-sanitizer";
+export {
+  type DebounceListener,
+  DebounceService,
+  defaultTimerFactory,
+  type TimerFactory,
+} from "./debounce";
+export {
+  type ClientIdEntry,
+  type DuplicateClientId,
+  findDuplicateClientIds,
+} from "./duplicate-ids";
+export {
+  type FrontmatterRules,
+  redactFrontmatter,
+  redactFrontmatterBlock,
+  restoreRedactedFrontmatter,
+} from "./frontmatter-redaction";
+export { type FileStatLike, HashCache, type HashCacheEntry } from "./hash-cache";
+export {
+  describeLinkReport,
+  extractNoteLinks,
+  findLinkProblems,
+  LINK_PROBLEM_LABELS,
+  type LinkProblem,
+  type LinkProblemKind,
+  LinkReport,
+  type LinkReportEntry,
+  type LinkReportListener,
+  type LinkTargetState,
+  mergeLinkProblems,
+  type NoteLink,
+} from "./link-check";
+export {
+  extractNoteMetadata,
+  type ObsidianCachedMetadata,
+  omitUnpublishedReferences,
+  slugifyHeading,
+} from "./metadata-extractor";
+export { NoteIdMap, type NoteIdMapListener } from "./note-id-map";
+export {
+  extractNoteTags,
+  globToRegExp,
+  matchesGlob,
+  PublishFilter,
+  readPublishFlag,
+} from "./publish-filter";
+export {
+  countPlanChanges,
+  describeDeletionGuardViolation,
+  describePlanChanges,
+  type PublishPlanChanges,
+  type PublishPreview,
+  resolvePublishPlan,
+} from "./publish-plan";
+export {
+  createPublishProfile,
+  isProfileConfigured,
+  restorePublishProfiles,
+} from "./publish-profiles";
+export {
+  describePublishProgress,
+  formatBytes,
+  type PublishPhase,
+  PublishProgress,
+  type PublishProgressListener,
+  type PublishProgressState,
+} from "./publish-progress";
+export {
+  type DrainResult,
+  PublishQueue,
+  type PublishQueueHandler,
+  type PublishQueueItem,
+  type PublishQueueKind,
+  type PublishQueueListener,
+} from "./publish-queue";
+export {
+  describePublishStatus,
+  formatTimeAgo,
+  type PublishFailure,
+  type PublishState,
+  PublishStatus,
+  type PublishStatusListener,
+  type PublishStatusSnapshot,
+} from "./publish-status";
+export {
+  type CachedMetadataLike,
+  extractEmbedLinkpathsFromCache,
+  extractInternalLinkpathsFromCache,
+  parseLinktext,
+} from "./reference-extractor";
 export {
   type ReferenceDiff,
   ReferenceIndex,
@@ -8,3 +119,21 @@ export {
   type ReferenceResolver,
   type ResolvedReference,
 } from "./reference-index";
+export {
+  ALLOW_SECRETS_KEY,
+  BUILTIN_SECRET_RULES,
+  compileSecretRules,
+  describeSecretFindings,
+  type SecretFinding,
+  SecretReport,
+  type SecretReportListener,
+  type SecretRule,
+  scanForSecrets,
+} from "./secret-scanner";
+export {
+  type EmbeddedNote,
+  type EmbedResolver,
+  expandTransclusions,
+  type TransclusionResult,
+} from "./transclusion";
+export { type UploadSessionListener, UploadSessionStore } from "./upload-sessions";
@@ -0,0 +1,122 @@
+import { describe, expect, test } from "vitest";
+import {
+  describeLinkReport,
+  extractNoteLinks,
+  findLinkProblems,
+  LinkReport,
+  type LinkTargetState,
+  mergeLinkProblems,
+} from "./link-check";
+
+const at = (line: number, offset: number) => ({
+  start: { line, col: 0, offset },
+  end: { line, col: 0, offset },
+});
+
+describe("extractNoteLinks", () => {
+  test("lists links and embeds in document order without subpaths", () => {
+    const links = extractNoteLinks({
+      links: [{ link: "b#Heading", original: "[[b#Heading|B]]", position: at(2, 30) }],
+      embeds: [{ link: "a", original: "![[a]]", position: at(0, 0) }],
+    });
+
+    expect(links).toEqual([
+      { original: "![[a]]", linkpath: "a", embed: true, line: 1 },
+      { original: "[[b#Heading|B]]", linkpath: "b", embed: false, line: 3 },
+    ]);
+  });
+
+  test("leaves out links that are not published", () => {
+    const links = extractNoteLinks(
+      { links: [{ link: "secret", original: "[[secret]]", position: at(0, 0) }] },
+      () => false,
+    );
+
+    expect(links).toEqual([]);
+  });
+});
+
+describe("findLinkProblems", () => {
+  const states: Record<string, LinkTargetState> = {
+    ok: "published",
+    hidden: "excluded",
+    "photo.png": "asset",
+  };
+  const stateOf = (linkpath: string) => states[linkpath] ?? "missing";
+  const link = (linkpath: string, embed = false) => ({
+    original: embed ? `![[${linkpath}]]` : `[[${linkpath}]]`,
+    linkpath,
+    embed,
+    line: 1,
+  });
+
+  test("classifies links by what they point to", () => {
+    const problems = findLinkProblems(
+      [
+        link("ok"),
+        link("photo.png", true),
+        link("hidden"),
+        link("gone"),
+        link("gone", true),
+        link("gone.pdf", true),
+      ],
+      stateOf,
+    );
+
+    expect(problems.map((problem) => problem.kind)).toEqual([
+      "excluded-note",
+      "unresolved-link",
+      "missing-embed",
+      "missing-asset",
+    ]);
+  });
+
+  test("ignores links within the note", () => {
+    expect(findLinkProblems([link("")], stateOf)).toEqual([]);
+  });
+});
+
+describe("mergeLinkProblems", () => {
+  test("lists a problem once and merges its profiles", () => {
+    const merged = mergeLinkProblems(
+      [{ kind: "excluded-note", link: "[[x]]", line: 2, profiles: ["Blog"] }],
+      [
+        { kind: "excluded-note", link: "[[x]]", line: 2, profiles: ["Wiki"] },
+        { kind: "unresolved-link", link: "[[y]]", line: 1 },
+      ],
+    );
+
+    expect(merged).toEqual([
+      { kind: "unresolved-link", link: "[[y]]", line: 1 },
+      { kind: "excluded-note", link: "[[x]]", line: 2, profiles: ["Blog", "Wiki"] },
+    ]);
+  });
+});
+
+describe("LinkReport", () => {
+  test("keeps notes with problems by path and notifies listeners", () => {
+    const report = new LinkReport(() => 42);
+    const seen: number[] = [];
+    report.onChange((entries) => seen.push(entries.length));
+
+    report.replace(
+      new Map([
+        ["z.md", [{ kind: "unresolved-link", link: "[[a]]", line: 1 }]],
+        ["clean.md", []],
+        [
+          "a.md",
+          [
+            { kind: "missing-embed", link: "![[b]]", line: 3 },
+            { kind: "missing-asset", link: "![[c.png]]", line: 4 },
+          ],
+        ],
+      ]),
+    );
+
+    expect(report.list().map((entry) => entry.path)).toEqual(["a.md", "z.md"]);
+    expect(report.problemCount).toBe(3);
+    expect(report.lastCheckedAt).toBe(42);
+    expect(seen).toEqual([2]);
+    expect(describeLinkReport(report.list())).toBe("3 link problems in 2 notes");
+  });
+});
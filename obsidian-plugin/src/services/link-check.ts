@@ -0,0 +1,198 @@
+/**
+ * Link check
+ *
+ * Finds links in published notes that will not work on the published site:
+ * wiki links and embeds that resolve to nothing, links to notes that are not
+ * published and missing attachments. Resolving links is left to the caller;
+ * the last check's results are kept in a `LinkReport` for display.
+ */
+
+import { isAssetFile } from "../utils";
+import type { ObsidianCachedMetadata } from "./metadata-extractor";
+import { parseLinktext } from "./reference-extractor";
+
+export type LinkProblemKind =
+  | "unresolved-link"
+  | "missing-embed"
+  | "excluded-note"
+  | "missing-asset";
+
+export interface NoteLink {
+  /** The link as written */
+  original: string;
+  /** Target without subpath; empty for links within the note */
+  linkpath: string;
+  embed: boolean;
+  /** 1-based */
+  line: number;
+}
+
+/**
+ * What a link points to: a note that is published or not, an attachment, or nothing
+ */
+export type LinkTargetState = "published" | "excluded" | "asset" | "missing";
+
+export interface LinkProblem {
+  kind: LinkProblemKind;
+  /** The link as written */
+  link: string;
+  line: number;
+  /** Profiles that do not publish the linked note; absent when it applies to all */
+  profiles?: string[];
+}
+
+export interface LinkReportEntry {
+  path: string;
+  problems: LinkProblem[];
+}
+
+export type LinkReportListener = (entries: readonly LinkReportEntry[]) => void;
+
+export const LINK_PROBLEM_LABELS: Record<LinkProblemKind, string> = {
+  "unresolved-link": "Link to a missing note",
+  "missing-embed": "Embed of a missing note",
+  "excluded-note": "Link to an unpublished note",
+  "missing-asset": "Missing attachment",
+};
+
+const looksLikeAsset = (linkpath: string): boolean => {
+  const filename = linkpath.split("/").pop() ?? "";
+  const ext = filename.includes(".") ? (filename.split(".").pop() ?? "") : "";
+  return isAssetFile({ extension: ext.toLowerCase() });
+};
+
+/**
+ * A note's links and embeds from its metadata cache, in document order.
+ * Links whose text `isPublished` rejects (e.g. in private sections) are left out.
+ */
+export function extractNoteLinks(
+  cache: Pick<ObsidianCachedMetadata, "links" | "embeds">,
+  isPublished: (original: string) => boolean = () => true,
+): NoteLink[] {
+  const found: Array<{ offset: number; link: NoteLink }> = [];
+  for (const [cached, embed] of [
+    [cache.links ?? [], false],
+    [cache.embeds ?? [], true],
+  ] as const) {
+    for (const { link, original, position } of cached) {
+      if (original === undefined || !position || !isPublished(original)) continue;
+      const { linkpath } = parseLinktext(link);
+      found.push({
+        offset: position.start.offset,
+        link: { original, linkpath, embed, line: position.start.line + 1 },
+      });
+    }
+  }
+  return found.sort((a, b) => a.offset - b.offset).map(({ link }) => link);
+}
+
+/**
+ * Problems with a note's links, in the order of the links
+ */
+export function findLinkProblems(
+  links: NoteLink[],
+  stateOf: (linkpath: string) => LinkTargetState,
+): LinkProblem[] {
+  const problems: LinkProblem[] = [];
+  for (const { original, linkpath, embed, line } of links) {
+    if (!linkpath) continue;
+    const state = stateOf(linkpath);
+    let kind: LinkProblemKind | null = null;
+    if (state === "excluded") {
+      kind = "excluded-note";
+    } else if (state === "missing") {
+      kind = looksLikeAsset(linkpath)
+        ? "missing-asset"
+        : embed
+          ? "missing-embed"
+          : "unresolved-link";
+    }
+    if (kind) problems.push({ kind, link: original, line });
+  }
+  return problems;
+}
+
+/**
+ * Combine one note's problems found for several profiles; the same problem is
+ * listed once, with the profiles it applies to merged
+ */
+export function mergeLinkProblems(current: LinkProblem[], found: LinkProblem[]): LinkProblem[] {
+  const merged = current.map((problem) => ({ ...problem }));
+  for (const problem of found) {
+    const existing = merged.find(
+      (other) =>
+        other.kind === problem.kind && other.line === problem.line && other.link === problem.link,
+    );
+    if (!existing) {
+      merged.push({ ...problem });
+    } else if (existing.profiles && problem.profiles) {
+      existing.profiles = [...new Set([...existing.profiles, ...problem.profiles])];
+    } else {
+      delete existing.profiles;
+    }
+  }
+  return merged.sort((a, b) => a.line - b.line);
+}
+
+/**
+ * One-line summary, e.g. "3 link problems in 2 notes"
+ */
+export function describeLinkReport(entries: readonly LinkReportEntry[]): string {
+  const problems = entries.reduce((count, entry) => count + entry.problems.length, 0);
+  if (problems === 0) return "No link problems";
+  const noun = problems === 1 ? "link problem" : "link problems";
+  return `${problems} ${noun} in ${entries.length} ${entries.length === 1 ? "note" : "notes"}`;
+}
+
+export class LinkReport {
+  private entries: LinkReportEntry[] = [];
+  private listeners = new Set<LinkReportListener>();
+  private checkedAt: number | null = null;
+  private now: () => number;
+
+  constructor(now: () => number = Date.now) {
+    this.now = now;
+  }
+
+  /**
+   * Replace the report with a new check's results; notes without problems are left out
+   */
+  replace(results: Map<string, LinkProblem[]>): void {
+    this.entries = Array.from(results, ([path, problems]) => ({ path, problems }))
+      .filter((entry) => entry.problems.length > 0)
+      .sort((a, b) => a.path.localeCompare(b.path));
+    this.checkedAt = this.now();
+    this.emit();
+  }
+
+  /**
+   * By path
+   */
+  list(): readonly LinkReportEntry[] {
+    return this.entries;
+  }
+
+  /**
+   * When the report was last replaced, null before the first check
+   */
+  get lastCheckedAt(): number | null {
+    return this.checkedAt;
+  }
+
+  get problemCount(): number {
+    return this.entries.reduce((count, entry) => count + entry.problems.length, 0);
+  }
+
+  onChange(listener: LinkReportListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private emit(): void {
+    for (const listener of this.listeners) {
+      listener(this.entries);
+    }
+  }
+}
@@ -1,5 +1,15 @@
 import { describe, expect, test } from "vitest";
-import { extractNoteMetadata, type ObsidianCachedMetadata } from "./metadata-extractor";
+import {
+  extractNoteMetadata,
+  type ObsidianCachedMetadata,
+  omitUnpublishedReferences,
+  slugifyHeading,
+} from "./metadata-extractor";
+
+const at = (line: number) => ({
+  start: { line, col: 0, offset: line * 20 },
+  end: { line, col: 10, offset: line * 20 + 10 },
+});
 
 describe("extractNoteMetadata", () => {
   describe("tags extraction", () => {
@@ -81,6 +91,7 @@ describe("extractNoteMetadata", () => {
         {
           heading: "Introduction",
           level: 1,
+          slug: "introduction",
           position: {
             start: { line: 0, col: 0, offset: 0 },
             end: { line: 0, col: 14, offset: 14 },
@@ -89,6 +100,7 @@ describe("extractNoteMetadata", () => {
         {
           heading: "Getting Started",
           level: 2,
+          slug: "getting-started",
           position: {
             start: { line: 10, col: 0, offset: 100 },
             end: { line: 10, col: 18, offset: 118 },
@@ -106,6 +118,160 @@ describe("extractNoteMetadata", () => {
     });
   });
 
+  describe("heading slugs", () => {
+    test("drops punctuation and joins words with hyphens", () => {
+      expect(slugifyHeading(" Step 1: Set up (fast) ")).toBe("step-1-set-up-fast");
+      expect(slugifyHeading("Über Café")).toBe("über-café");
+    });
+
+    test("numbers repeated headings", () => {
+      const cached: ObsidianCachedMetadata = {
+        headings: ["Notes", "Other", "Notes", "Notes"].map((heading, line) => ({
+          heading,
+          level: 2,
+          position: at(line),
+        })),
+      };
+
+      const result = extractNoteMetadata(cached);
+
+      expect(result.headings?.map((heading) => heading.slug)).toEqual([
+        "notes",
+        "other",
+        "notes-1",
+        "notes-2",
+      ]);
+    });
+  });
+
+  describe("links extraction", () => {
+    test("keeps subpath, display text and embed flag in document order", () => {
+      const cached: ObsidianCachedMetadata = {
+        links: [
+          {
+            link: "Guide#Setup#Step 1",
+            original: "[[Guide#Setup#Step 1|setup]]",
+            displayText: "setup",
+            position: at(3),
+          },
+          { link: "Guide", original: "[[Guide]]", displayText: "Guide", position: at(1) },
+        ],
+        embeds: [{ link: "Guide#^abc123", original: "![[Guide#^abc123]]", position: at(2) }],
+      };
+
+      const result = extractNoteMetadata(cached);
+
+      expect(result.links).toEqual([
+        {
+          link: "Guide",
+          displayText: "Guide",
+          embed: false,
+          original: "[[Guide]]",
+          position: at(1),
+        },
+        {
+          link: "Guide",
+          subpath: "^abc123",
+          embed: true,
+          original: "![[Guide#^abc123]]",
+          position: at(2),
+        },
+        {
+          link: "Guide",
+          subpath: "Setup#Step 1",
+          displayText: "setup",
+          embed: false,
+          original: "[[Guide#Setup#Step 1|setup]]",
+          position: at(3),
+        },
+      ]);
+    });
+
+    test("extracts block IDs", () => {
+      const cached: ObsidianCachedMetadata = {
+        blocks: { abc123: { id: "abc123", position: at(4) } },
+      };
+
+      expect(extractNoteMetadata(cached).blocks).toEqual([{ id: "abc123", position: at(4) }]);
+    });
+
+    test("omits links and block IDs missing from the published content", () => {
+      const metadata = extractNoteMetadata({
+        links: [
+          { link: "Shown", original: "[[Shown]]", position: at(0) },
+          { link: "Hidden", original: "[[Hidden]]", position: at(1) },
+        ],
+        blocks: {
+          kept: { id: "kept", position: at(0) },
+          gone: { id: "gone", position: at(1) },
+        },
+      });
+
+      const result = omitUnpublishedReferences(metadata, "[[Shown]] ^kept");
+
+      expect(result.links?.map((link) => link.link)).toEqual(["Shown"]);
+      expect(result.blocks?.map((block) => block.id)).toEqual(["kept"]);
+    });
+
+    test("omits tags and headings missing from the published content", () => {
+      const metadata = extractNoteMetadata({
+        tags: [
+          { tag: "#shared", position: at(0) },
+          { tag: "#shared", position: at(1) },
+          { tag: "#private-tag", position: at(1) },
+        ],
+        headings: [
+          { heading: "Intro", level: 1, position: at(0) },
+          { heading: "Secret heading #private-tag", level: 2, position: at(1) },
+        ],
+      });
+
+      const result = omitUnpublishedReferences(metadata, "# Intro\n\nSee #shared and #shared-more");
+
+      expect(result.tags?.map((tag) => tag.tag)).toEqual(["#shared"]);
+      expect(result.headings?.map((heading) => heading.heading)).toEqual(["Intro"]);
+    });
+
+    test("numbers slugs of repeated headings among the published ones", () => {
+      const metadata = extractNoteMetadata({
+        headings: [
+          { heading: "Notes!", level: 2, position: at(0) },
+          { heading: "Notes", level: 2, position: at(1) },
+          { heading: "Notes", level: 2, position: at(2) },
+        ],
+      });
+
+      const result = omitUnpublishedReferences(metadata, "## Notes\n\n## Notes");
+
+      expect(result.headings?.map((heading) => heading.slug)).toEqual(["notes", "notes-1"]);
+    });
+
+    test("positions references in the published content", () => {
+      const metadata = extractNoteMetadata({
+        tags: [{ tag: "#todo", position: at(5) }],
+        headings: [{ heading: "Plan", level: 2, position: at(3) }],
+        links: [{ link: "Goals", original: "[[Goals]]", position: at(6) }],
+        blocks: { step: { id: "step", position: at(6) } },
+      });
+
+      const result = omitUnpublishedReferences(metadata, "## Plan\nRead [[Goals]] ^step\n#todo");
+
+      expect(result.headings?.[0].position).toEqual({
+        start: { line: 0, col: 0, offset: 0 },
+        end: { line: 0, col: 7, offset: 7 },
+      });
+      expect(result.links?.[0].position).toEqual({
+        start: { line: 1, col: 5, offset: 13 },
+        end: { line: 1, col: 14, offset: 22 },
+      });
+      expect(result.blocks?.[0].position.start).toEqual({ line: 1, col: 15, offset: 23 });
+      expect(result.tags?.[0].position).toEqual({
+        start: { line: 2, col: 0, offset: 29 },
+        end: { line: 2, col: 5, offset: 34 },
+      });
+    });
+  });
+
   describe("frontmatter extraction", () => {
     test("extracts frontmatter object", () => {
       const cached: ObsidianCachedMetadata = {
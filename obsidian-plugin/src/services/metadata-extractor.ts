@@ -1,4 +1,12 @@
-import type { NoteMetadata } from "../domain/types";
+import type { LinkInfo, NoteMetadata, Position } from "../domain/types";
+import { parseLinktext } from "./reference-extractor";
+
+interface CachedLink {
+  link: string;
+  original?: string;
+  displayText?: string;
+  position?: Position;
+}
 
 /**
  * Minimal representation of Obsidian's CachedMetadata
@@ -20,16 +28,58 @@ export interface ObsidianCachedMetadata {
       end: { line: number; col: number; offset: number };
     };
   }>;
+  links?: CachedLink[];
+  embeds?: CachedLink[];
+  blocks?: Record<string, { id: string; position: Position }>;
   frontmatter?: Record<string, unknown>;
 }
 
+/**
+ * Anchor for a heading: lowercase, punctuation dropped, spaces as hyphens
+ *
+ * @example slugifyHeading("Step 1: Setup") // "step-1-setup"
+ */
+export function slugifyHeading(heading: string): string {
+  return heading
+    .trim()
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}\s_-]/gu, "")
+    .replace(/\s+/g, "-");
+}
+
+/**
+ * Repeated headings get -1, -2, ... so every anchor leads somewhere
+ */
+const withSlugs = <T extends { heading: string }>(headings: T[]): Array<T & { slug: string }> => {
+  const seen = new Map<string, number>();
+  return headings.map((heading) => {
+    const base = slugifyHeading(heading.heading);
+    const count = seen.get(base) ?? 0;
+    seen.set(base, count + 1);
+    return { ...heading, slug: count === 0 ? base : `${base}-${count}` };
+  });
+};
+
+const toLinkInfo = (cached: CachedLink, embed: boolean): LinkInfo | null => {
+  if (cached.original === undefined || !cached.position) return null;
+  const { linkpath, subpath } = parseLinktext(cached.link);
+  return {
+    link: linkpath,
+    ...(subpath ? { subpath } : {}),
+    ...(cached.displayText !== undefined ? { displayText: cached.displayText } : {}),
+    embed,
+    original: cached.original,
+    position: cached.position,
+  };
+};
+
 /**
  * Extract note metadata from Obsidian's cached metadata
  *
  * Pure function - no side effects, easily testable
  *
  * @param cached - Obsidian's CachedMetadata (or null/undefined)
- * @returns NoteMetadata with tags, headings, and frontmatter
+ * @returns NoteMetadata with tags, headings, links, block IDs and frontmatter
  *
  * @example
  * ```ts
@@ -54,10 +104,28 @@ export function extractNoteMetadata(
   }
 
   if (cached.headings) {
-    metadata.headings = cached.headings.map((heading) => ({
-      heading: heading.heading,
-      level: heading.level,
-      position: heading.position,
+    metadata.headings = withSlugs(
+      cached.headings.map((heading) => ({
+        heading: heading.heading,
+        level: heading.level,
+        position: heading.position,
+      })),
+    );
+  }
+
+  if (cached.links || cached.embeds) {
+    metadata.links = [
+      ...(cached.links ?? []).map((link) => toLinkInfo(link, false)),
+      ...(cached.embeds ?? []).map((embed) => toLinkInfo(embed, true)),
+    ]
+      .filter((link): link is LinkInfo => link !== null)
+      .sort((a, b) => a.position.start.offset - b.position.start.offset);
+  }
+
+  if (cached.blocks) {
+    metadata.blocks = Object.values(cached.blocks).map((block) => ({
+      id: block.id,
+      position: block.position,
     }));
   }
 
@@ -67,3 +135,104 @@ export function extractNoteMetadata(
 
   return metadata;
 }
+
+const escapeRegExp = (text: string): string => text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+/**
+ * Finds where references are in published content, in order: each match
+ * starts after the previous one, so a reference repeated in a removed section
+ * is found only as often as the content has it
+ */
+class ContentLocator {
+  private readonly lineStarts = [0];
+  private from = 0;
+
+  constructor(private readonly content: string) {
+    for (let i = 0; i < content.length; i++) {
+      if (content[i] === "\n") this.lineStarts.push(i + 1);
+    }
+  }
+
+  /** Position of the next match of `pattern` (a global regex) */
+  find(pattern: RegExp): Position | null {
+    pattern.lastIndex = this.from;
+    const match = pattern.exec(this.content);
+    if (!match) return null;
+    const start = match.index + (match.groups?.lead?.length ?? 0);
+    const end = match.index + match[0].length;
+    this.from = end;
+    return { start: this.pointAt(start), end: this.pointAt(end) };
+  }
+
+  private pointAt(offset: number): Position["start"] {
+    let line = 0;
+    let high = this.lineStarts.length - 1;
+    while (line < high) {
+      const mid = Math.ceil((line + high) / 2);
+      if (this.lineStarts[mid] <= offset) line = mid;
+      else high = mid - 1;
+    }
+    return { line, col: offset - this.lineStarts[line], offset };
+  }
+}
+
+const byOffset = (a: { position: Position }, b: { position: Position }) =>
+  a.position.start.offset - b.position.start.offset;
+
+const locateAll = <T extends { position: Position }>(
+  content: string,
+  items: T[],
+  pattern: (item: T) => RegExp,
+): T[] => {
+  const locator = new ContentLocator(content);
+  return [...items].sort(byOffset).flatMap((item) => {
+    const position = locator.find(pattern(item));
+    return position ? [{ ...item, position }] : [];
+  });
+};
+
+/**
+ * Keep only the tags, headings, links and block IDs that are in the published
+ * content, dropping those inside private sections, with positions in that
+ * content rather than in the note as written
+ */
+export function omitUnpublishedReferences(metadata: NoteMetadata, content: string): NoteMetadata {
+  const result = { ...metadata };
+  if (metadata.tags) {
+    result.tags = locateAll(
+      content,
+      metadata.tags,
+      (tag) =>
+        new RegExp(
+          `(?<lead>^|[^\\p{L}\\p{N}_/#-])${escapeRegExp(tag.tag)}(?![\\p{L}\\p{N}_/-])`,
+          "gu",
+        ),
+    );
+  }
+  if (metadata.headings) {
+    // Numbered again, as a removed heading may have taken a slug first.
+    result.headings = withSlugs(
+      locateAll(
+        content,
+        metadata.headings,
+        (heading) =>
+          new RegExp(`^ {0,3}#{${heading.level}}[ \\t]+${escapeRegExp(heading.heading)}`, "gm"),
+      ),
+    );
+  }
+  if (metadata.links) {
+    result.links = locateAll(
+      content,
+      metadata.links,
+      (link) => new RegExp(escapeRegExp(link.original), "g"),
+    );
+  }
+  if (metadata.blocks) {
+    result.blocks = locateAll(
+      content,
+      metadata.blocks,
+      (block) => new RegExp(`\\^${escapeRegExp(block.id)}(?![\\w-])`, "g"),
+    );
+  }
+  return result;
+}
@@ -0,0 +1,38 @@
+import { describe, expect, test, vi } from "vitest";
+import { NoteIdMap } from "./note-id-map";
+
+describe("NoteIdMap", () => {
+  test("keeps a note's ID across renames", () => {
+    const map = new NoteIdMap();
+    map.set("a.md", "id-a");
+    map.rename("a.md", "folder/b.md");
+
+    expect(map.get("a.md")).toBeUndefined();
+    expect(map.get("folder/b.md")).toBe("id-a");
+  });
+
+  test("notifies listeners only on changes", () => {
+    const map = new NoteIdMap();
+    const listener = vi.fn();
+    map.onChange(listener);
+
+    map.set("a.md", "id-a");
+    map.set("a.md", "id-a");
+    map.rename("missing.md", "other.md");
+    map.delete("missing.md");
+    map.delete("a.md");
+
+    expect(listener).toHaveBeenCalledTimes(2);
+    expect(map.size).toBe(0);
+  });
+
+  test("round-trips through JSON and drops malformed entries", () => {
+    const map = new NoteIdMap();
+    map.set("a.md", "id-a");
+
+    const restored = new NoteIdMap();
+    restored.restore({ ...map.toJSON(), "b.md": 1, "c.md": " " });
+
+    expect(restored.toJSON()).toEqual({ "a.md": "id-a" });
+  });
+});
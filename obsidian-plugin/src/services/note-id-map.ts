@@ -0,0 +1,69 @@
+/**
+ * Note ID map
+ *
+ * Path-to-ID map used instead of `mdbrain-id` frontmatter when notes should
+ * not be rewritten. Entries follow renames and are only created for notes
+ * that get published. Persistence is delegated to change listeners.
+ */
+
+export type NoteIdMapListener = () => void;
+
+export class NoteIdMap {
+  private ids = new Map<string, string>();
+  private listeners = new Set<NoteIdMapListener>();
+
+  /**
+   * Replace the map with previously persisted IDs, dropping malformed ones
+   */
+  restore(raw: unknown): void {
+    this.ids.clear();
+    if (raw && typeof raw === "object") {
+      for (const [path, id] of Object.entries(raw as Record<string, unknown>)) {
+        if (typeof id === "string" && id.trim()) this.ids.set(path, id.trim());
+      }
+    }
+  }
+
+  get(path: string): string | undefined {
+    return this.ids.get(path);
+  }
+
+  set(path: string, id: string): void {
+    if (this.ids.get(path) === id) return;
+    this.ids.set(path, id);
+    this.emit();
+  }
+
+  delete(path: string): void {
+    if (this.ids.delete(path)) this.emit();
+  }
+
+  rename(oldPath: string, newPath: string): void {
+    const id = this.ids.get(oldPath);
+    if (id === undefined) return;
+    this.ids.delete(oldPath);
+    this.ids.set(newPath, id);
+    this.emit();
+  }
+
+  get size(): number {
+    return this.ids.size;
+  }
+
+  onChange(listener: NoteIdMapListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  toJSON(): Record<string, string> {
+    return Object.fromEntries(this.ids);
+  }
+
+  private emit(): void {
+    for (const listener of this.listeners) {
+      listener();
+    }
+  }
+}
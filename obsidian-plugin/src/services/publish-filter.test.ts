@@ -0,0 +1,96 @@
+import { describe, expect, test } from "vitest";
+import { DEFAULT_PROFILE } from "../domain/types";
+import {
+  extractNoteTags,
+  globToRegExp,
+  matchesGlob,
+  PublishFilter,
+  readPublishFlag,
+} from "./publish-filter";
+
+const filter = (overrides: Partial<typeof DEFAULT_PROFILE.filters>) =>
+  new PublishFilter({ ...DEFAULT_PROFILE.filters, ...overrides });
+
+describe("matchesGlob", () => {
+  test.each([
+    ["Private", "Private/a.md", true],
+    ["Private/", "Private/deep/a.md", true],
+    ["Private", "Public/Private.md", false],
+    ["Daily/*.md", "Daily/2024-01-01.md", true],
+    ["Daily/*.md", "Daily/2024/01.md", false],
+    ["**/drafts", "a/b/drafts/c.md", true],
+    ["**/drafts", "drafts/c.md", true],
+    ["notes/**/*.md", "notes/x.md", true],
+    ["templates", "Templates/t.md", true],
+    ["a?.md", "ab.md", true],
+  ])("%s against %s", (glob, path, expected) => {
+    expect(matchesGlob(path, globToRegExp(glob))).toBe(expected);
+  });
+});
+
+describe("extractNoteTags", () => {
+  test("collects frontmatter and inline tags", () => {
+    expect(
+      extractNoteTags({
+        frontmatter: { tags: ["Private", "#work"], tag: "a, b" },
+        tags: [{ tag: "#Inline", position: { start: {}, end: {} } as never }],
+      }),
+    ).toEqual(["private", "work", "a", "b", "inline"]);
+    expect(extractNoteTags(null)).toEqual([]);
+  });
+});
+
+describe("readPublishFlag", () => {
+  test.each([
+    [true, true],
+    [false, false],
+    ["False", false],
+    [" true ", true],
+    ["yes", null],
+    [1, null],
+    [undefined, null],
+  ])("reads %s as %s", (value, expected) => {
+    expect(readPublishFlag({ frontmatter: { share: value } }, "share")).toBe(expected);
+  });
+});
+
+describe("PublishFilter", () => {
+  test("publishes everything without rules", () => {
+    expect(filter({}).includesNote("any/where.md", 10_000_000, ["x"])).toBe(true);
+  });
+
+  test("excludes folders and tags, including nested tags", () => {
+    const rules = filter({ excludeFolders: ["Private", "Templates/"], excludeTags: ["#secret"] });
+
+    expect(rules.includesNote("Private/a.md", 1, [])).toBe(false);
+    expect(rules.includesNote("Templates/t.md", 1, [])).toBe(false);
+    expect(rules.includesNote("notes/a.md", 1, ["secret/journal"])).toBe(false);
+    expect(rules.includesNote("notes/a.md", 1, ["secretive"])).toBe(true);
+  });
+
+  test("only publishes included notes, and excludes win", () => {
+    const rules = filter({
+      includeFolders: ["Public"],
+      includeTags: ["publish"],
+      excludeFolders: ["Public/Drafts"],
+    });
+
+    expect(rules.includesNote("Public/a.md", 1, ["publish"])).toBe(true);
+    expect(rules.includesNote("Public/a.md", 1, [])).toBe(false);
+    expect(rules.includesNote("Other/a.md", 1, ["publish"])).toBe(false);
+    expect(rules.includesNote("Public/Drafts/a.md", 1, ["publish"])).toBe(false);
+  });
+
+  test("applies excluded folders and the size limit to assets but not include rules", () => {
+    const rules = filter({
+      includeFolders: ["Public"],
+      excludeFolders: ["Private"],
+      maxFileSizeKb: 1,
+    });
+
+    expect(rules.includesAsset("attachments/a.png", 1024)).toBe(true);
+    expect(rules.includesAsset("attachments/big.png", 1025)).toBe(false);
+    expect(rules.includesAsset("Private/a.png", 1)).toBe(false);
+    expect(rules.includesNote("Public/big.md", 2048, [])).toBe(false);
+  });
+});
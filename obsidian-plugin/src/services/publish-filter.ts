@@ -0,0 +1,135 @@
+/**
+ * Publish filter
+ *
+ * Decides which notes and assets a profile publishes, from folder globs, tags
+ * (frontmatter and inline) and file size. Excludes win over includes. Include
+ * rules only select notes: an asset is published when a published note
+ * references it and no exclude rule matches it. A note's own frontmatter
+ * publish flag is read separately since it applies to every profile.
+ */
+
+import type { PublishFilters } from "../domain/types";
+import type { CachedMetadataLike } from "./reference-extractor";
+
+const escapeRegExp = (text: string): string => text.replace(/[.+^${}()|[\]\\]/g, "\\$&");
+
+/**
+ * `**` spans folders, `*` and `?` stay within one path segment
+ */
+export function globToRegExp(glob: string): RegExp {
+  const pattern = glob.trim().replace(/^\/+|\/+$/g, "");
+  let source = "";
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i];
+    if (char === "*" && pattern[i + 1] === "*") {
+      // "**/" also matches no folder at all
+      if (pattern[i + 2] === "/") {
+        source += "(?:.*/)?";
+        i += 2;
+      } else {
+        source += ".*";
+        i += 1;
+      }
+    } else if (char === "*") {
+      source += "[^/]*";
+    } else if (char === "?") {
+      source += "[^/]";
+    } else {
+      source += escapeRegExp(char);
+    }
+  }
+  return new RegExp(`^${source}$`, "i");
+}
+
+/**
+ * A glob matches a path when it matches the path itself or one of its folders,
+ * so `Private` covers everything below `Private/`
+ */
+export function matchesGlob(path: string, glob: RegExp): boolean {
+  if (glob.test(path)) return true;
+  const segments = path.split("/");
+  for (let i = segments.length - 1; i > 0; i--) {
+    if (glob.test(segments.slice(0, i).join("/"))) return true;
+  }
+  return false;
+}
+
+/**
+ * A note's frontmatter publish flag; null when absent or not a boolean
+ */
+export function readPublishFlag(cache: CachedMetadataLike | null, key: string): boolean | null {
+  const value = cache?.frontmatter?.[key];
+  if (typeof value === "boolean") return value;
+  // Quoted YAML values arrive as strings
+  if (typeof value === "string" && /^(true|false)$/i.test(value.trim())) {
+    return value.trim().toLowerCase() === "true";
+  }
+  return null;
+}
+
+const normalizeTag = (tag: string): string => tag.trim().replace(/^#/, "").toLowerCase();
+
+/**
+ * Frontmatter (`tags`/`tag`, as a list or a comma/space separated string) and
+ * inline tags, lowercased without `#`
+ */
+export function extractNoteTags(cache: CachedMetadataLike | null): string[] {
+  const tags = new Set<string>();
+  const frontmatter = cache?.frontmatter ?? {};
+  for (const value of [frontmatter.tags, frontmatter.tag]) {
+    const entries = Array.isArray(value)
+      ? value
+      : typeof value === "string"
+        ? value.split(/[,\s]+/)
+        : [];
+    for (const entry of entries) {
+      if (typeof entry === "string" && normalizeTag(entry)) tags.add(normalizeTag(entry));
+    }
+  }
+  for (const { tag } of cache?.tags ?? []) {
+    if (normalizeTag(tag)) tags.add(normalizeTag(tag));
+  }
+  return Array.from(tags);
+}
+
+/**
+ * A rule tag also covers its nested tags: `private` matches `private/journal`
+ */
+const matchesTag = (tags: string[], rule: string): boolean =>
+  tags.some((tag) => tag === rule || tag.startsWith(`${rule}/`));
+
+export class PublishFilter {
+  private include: RegExp[];
+  private exclude: RegExp[];
+  private includeTags: string[];
+  private excludeTags: string[];
+  private maxBytes: number;
+
+  constructor(filters: PublishFilters) {
+    const globs = (patterns: string[]) =>
+      patterns.filter((pattern) => pattern.trim()).map(globToRegExp);
+    const tags = (rules: string[]) => rules.map(normalizeTag).filter(Boolean);
+    this.include = globs(filters.includeFolders);
+    this.exclude = globs(filters.excludeFolders);
+    this.includeTags = tags(filters.includeTags);
+    this.excludeTags = tags(filters.excludeTags);
+    this.maxBytes = Math.max(0, filters.maxFileSizeKb) * 1024;
+  }
+
+  includesNote(path: string, size: number, tags: string[]): boolean {
+    if (!this.includesAsset(path, size)) return false;
+    if (this.excludeTags.some((rule) => matchesTag(tags, rule))) return false;
+    if (this.include.length > 0 && !this.include.some((glob) => matchesGlob(path, glob))) {
+      return false;
+    }
+    if (this.includeTags.length > 0 && !this.includeTags.some((rule) => matchesTag(tags, rule))) {
+      return false;
+    }
+    return true;
+  }
+
+  includesAsset(path: string, size: number): boolean {
+    if (this.maxBytes > 0 && size > this.maxBytes) return false;
+    return !this.exclude.some((glob) => matchesGlob(path, glob));
+  }
+}
@@ -0,0 +1,63 @@
+import { describe, expect, test } from "vitest";
+import {
+  countPlanChanges,
+  describeDeletionGuardViolation,
+  describePlanChanges,
+  resolvePublishPlan,
+} from "./publish-plan";
+
+describe("resolvePublishPlan", () => {
+  const empty = { add: [], update: [], delete: [] };
+
+  test("maps uploads to local paths and deletions to server paths", () => {
+    const paths = new Map([
+      ["note-b", "notes/b.md"],
+      ["note-a", "notes/a.md"],
+      ["asset-1", "img/a.png"],
+    ]);
+    const preview = resolvePublishPlan(
+      {
+        notes: {
+          add: [{ id: "note-b", hash: "h" }, { id: "note-a" }],
+          update: [{ id: "note-unknown" }],
+          delete: [{ id: "note-old", path: "old.md" }],
+        },
+        assets: { ...empty, update: [{ id: "asset-1" }] },
+      },
+      paths,
+    );
+
+    expect(preview).toEqual({
+      notes: { add: ["notes/a.md", "notes/b.md"], update: ["note-unknown"], delete: ["old.md"] },
+      assets: { add: [], update: ["img/a.png"], delete: [] },
+    });
+    expect(countPlanChanges(preview)).toBe(5);
+  });
+
+  test("describes change counts", () => {
+    expect(describePlanChanges({ add: ["a"], update: [], delete: ["b", "c"] })).toBe(
+      "1 to add, 0 to update, 2 to delete",
+    );
+  });
+});
+
+describe("describeDeletionGuardViolation", () => {
+  test("lists only the limits that are enabled", () => {
+    expect(
+      describeDeletionGuardViolation({
+        notes_to_delete: 30,
+        notes_on_server: 40,
+        max_notes: 20,
+        max_percent: 50,
+      }),
+    ).toBe("This publish would delete 30 of 40 notes on the server (limit: 20 notes or 50%).");
+    expect(
+      describeDeletionGuardViolation({
+        notes_to_delete: 3,
+        notes_on_server: 4,
+        max_notes: 0,
+        max_percent: 50,
+      }),
+    ).toBe("This publish would delete 3 of 4 notes on the server (limit: 50%).");
+  });
+});
@@ -0,0 +1,91 @@
+/**
+ * Full publish preview
+ *
+ * Turns the server's ID-based publish plan into vault paths that can be shown
+ * to the user before anything is applied. Pure logic - no Obsidian dependencies.
+ */
+
+interface PlanEntryLike {
+  id: string;
+  path?: string;
+}
+
+interface ChangeSetLike {
+  add: PlanEntryLike[];
+  update: PlanEntryLike[];
+  delete: PlanEntryLike[];
+}
+
+export interface PublishPlanChanges {
+  add: string[];
+  update: string[];
+  delete: string[];
+}
+
+export interface PublishPreview {
+  notes: PublishPlanChanges;
+  assets: PublishPlanChanges;
+}
+
+const byPath = (a: string, b: string): number => a.localeCompare(b);
+
+function resolveChanges(
+  changes: ChangeSetLike,
+  paths: ReadonlyMap<string, string>,
+): PublishPlanChanges {
+  // Local paths for uploads; deletions only exist on the server, so use its path.
+  const local = (entry: PlanEntryLike) => paths.get(entry.id) ?? entry.path ?? entry.id;
+  const remote = (entry: PlanEntryLike) => entry.path ?? paths.get(entry.id) ?? entry.id;
+  return {
+    add: changes.add.map(local).sort(byPath),
+    update: changes.update.map(local).sort(byPath),
+    delete: changes.delete.map(remote).sort(byPath),
+  };
+}
+
+/**
+ * Resolve a publish plan to paths
+ * @param paths - Client ID (note ID or asset ID) to vault path for the snapshot
+ */
+export function resolvePublishPlan(
+  plan: { notes: ChangeSetLike; assets: ChangeSetLike },
+  paths: ReadonlyMap<string, string>,
+): PublishPreview {
+  return {
+    notes: resolveChanges(plan.notes, paths),
+    assets: resolveChanges(plan.assets, paths),
+  };
+}
+
+export function countPlanChanges(preview: PublishPreview): number {
+  return [preview.notes, preview.assets].reduce(
+    (total, changes) => total + changes.add.length + changes.update.length + changes.delete.length,
+    0,
+  );
+}
+
+/**
+ * Explain why the deletion guard stopped a publish
+ */
+export function describeDeletionGuardViolation(violation: {
+  notes_to_delete: number;
+  notes_on_server: number;
+  max_notes: number | null;
+  max_percent: number | null;
+}): string {
+  const limits = [
+    violation.max_notes ? `${violation.max_notes} notes` : null,
+    violation.max_percent ? `${violation.max_percent}%` : null,
+  ].filter((limit) => limit !== null);
+  return (
+    `This publish would delete ${violation.notes_to_delete} of ${violation.notes_on_server} ` +
+    `notes on the server (limit: ${limits.join(" or ")}).`
+  );
+}
+
+/**
+ * One-line summary, e.g. "2 to add, 1 to update, 0 to delete"
+ */
+export function describePlanChanges(changes: PublishPlanChanges): string {
+  return `${changes.add.length} to add, ${changes.update.length} to update, ${changes.delete.length} to delete`;
+}
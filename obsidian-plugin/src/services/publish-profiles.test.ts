@@ -0,0 +1,57 @@
+import { describe, expect, test } from "vitest";
+import { DEFAULT_PROFILE } from "../domain/types";
+import {
+  createPublishProfile,
+  isProfileConfigured,
+  restorePublishProfiles,
+} from "./publish-profiles";
+
+describe("restorePublishProfiles", () => {
+  test("turns pre-profile settings into the default profile", () => {
+    expect(
+      restorePublishProfiles({ serverUrl: "https://a.test", syncKey: "k", autoSync: false }),
+    ).toEqual([
+      { ...DEFAULT_PROFILE, serverUrl: "https://a.test", publishKey: "k", autoSync: false },
+    ]);
+    expect(restorePublishProfiles({})).toEqual([DEFAULT_PROFILE]);
+  });
+
+  test("keeps saved profiles and drops malformed or repeated ones", () => {
+    const docs = { ...DEFAULT_PROFILE, id: "docs", name: "Docs", serverUrl: "u", publishKey: "k" };
+    const team = { ...docs, id: "team", name: "Team", autoSync: false };
+
+    expect(
+      restorePublishProfiles({
+        serverUrl: "https://ignored.test",
+        profiles: [docs, { id: "broken" }, team, { ...docs, name: "Copy" }],
+      }),
+    ).toEqual([docs, team]);
+  });
+
+  test("resets malformed filter rules", () => {
+    const [profile] = restorePublishProfiles({
+      profiles: [
+        {
+          ...DEFAULT_PROFILE,
+          filters: { excludeFolders: ["Private", 1], includeTags: "x", maxFileSizeKb: -5 },
+        },
+      ],
+    });
+
+    expect(profile.filters).toEqual({ ...DEFAULT_PROFILE.filters, excludeFolders: ["Private"] });
+  });
+});
+
+describe("publish profiles", () => {
+  test("new profiles get their own ID and start unconfigured", () => {
+    const first = createPublishProfile("Docs");
+    const second = createPublishProfile("Team");
+
+    expect(first.id).not.toBe(second.id);
+    expect(first.name).toBe("Docs");
+    expect(isProfileConfigured(first)).toBe(false);
+    expect(isProfileConfigured({ ...first, serverUrl: "https://a.test", publishKey: "k" })).toBe(
+      true,
+    );
+  });
+});
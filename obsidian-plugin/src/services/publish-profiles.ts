@@ -0,0 +1,88 @@
+/**
+ * Publish profiles
+ *
+ * Reads the configured publish destinations from plugin data. Data saved
+ * before profiles existed holds one server and key at the top level; it
+ * becomes the default profile.
+ */
+
+import { DEFAULT_PROFILE, type PublishFilters, type PublishProfile } from "../domain/types";
+
+const isPublishProfile = (value: unknown): value is PublishProfile => {
+  if (!value || typeof value !== "object") return false;
+  const profile = value as Record<string, unknown>;
+  return (
+    typeof profile.id === "string" &&
+    profile.id.length > 0 &&
+    typeof profile.name === "string" &&
+    typeof profile.serverUrl === "string" &&
+    typeof profile.publishKey === "string" &&
+    typeof profile.autoSync === "boolean"
+  );
+};
+
+const stringList = (value: unknown): string[] =>
+  Array.isArray(value) ? value.filter((entry): entry is string => typeof entry === "string") : [];
+
+/**
+ * Saved filters with missing or malformed rules reset to "publish everything"
+ */
+const restoreFilters = (raw: unknown): PublishFilters => {
+  const filters = raw && typeof raw === "object" ? (raw as Record<string, unknown>) : {};
+  return {
+    includeFolders: stringList(filters.includeFolders),
+    excludeFolders: stringList(filters.excludeFolders),
+    includeTags: stringList(filters.includeTags),
+    excludeTags: stringList(filters.excludeTags),
+    maxFileSizeKb:
+      typeof filters.maxFileSizeKb === "number" && filters.maxFileSizeKb > 0
+        ? filters.maxFileSizeKb
+        : 0,
+  };
+};
+
+/**
+ * Profiles from plugin data; never empty
+ */
+export function restorePublishProfiles(data: Record<string, unknown>): PublishProfile[] {
+  const seen = new Set<string>();
+  const profiles: PublishProfile[] = [];
+  for (const profile of Array.isArray(data.profiles) ? data.profiles : []) {
+    if (!isPublishProfile(profile) || seen.has(profile.id)) continue;
+    seen.add(profile.id);
+    profiles.push({
+      id: profile.id,
+      name: profile.name,
+      serverUrl: profile.serverUrl,
+      publishKey: profile.publishKey,
+      autoSync: profile.autoSync,
+      filters: restoreFilters(profile.filters),
+    });
+  }
+  if (profiles.length > 0) return profiles;
+
+  const publishKey = data.publishKey ?? data.syncKey;
+  return [
+    {
+      ...DEFAULT_PROFILE,
+      serverUrl: typeof data.serverUrl === "string" ? data.serverUrl : DEFAULT_PROFILE.serverUrl,
+      publishKey: typeof publishKey === "string" ? publishKey : "",
+      autoSync: typeof data.autoSync === "boolean" ? data.autoSync : DEFAULT_PROFILE.autoSync,
+      filters: restoreFilters(undefined),
+    },
+  ];
+}
+
+export function createPublishProfile(name: string): PublishProfile {
+  return {
+    ...DEFAULT_PROFILE,
+    id: crypto.randomUUID(),
+    name,
+    serverUrl: "",
+    filters: restoreFilters(undefined),
+  };
+}
+
+export function isProfileConfigured(profile: PublishProfile): boolean {
+  return Boolean(profile.serverUrl?.trim()) && Boolean(profile.publishKey?.trim());
+}
@@ -0,0 +1,49 @@
+import { describe, expect, test, vi } from "vitest";
+import { describePublishProgress, formatBytes, PublishProgress } from "./publish-progress";
+
+describe("PublishProgress", () => {
+  test("tracks files and bytes of the current phase", () => {
+    const progress = new PublishProgress();
+    const listener = vi.fn();
+    progress.onChange(listener);
+
+    progress.start("uploading-assets", 2, 3072);
+    progress.advance(1024);
+
+    expect(progress.current).toEqual({
+      phase: "uploading-assets",
+      files: { done: 1, total: 2 },
+      bytes: { done: 1024, total: 3072 },
+    });
+    expect(listener).toHaveBeenCalledTimes(2);
+    expect(describePublishProgress(progress.current)).toBe(
+      "Uploading assets 1/2 (1.0 KB / 3.0 KB)",
+    );
+  });
+
+  test("never counts past the phase totals", () => {
+    const progress = new PublishProgress();
+    progress.start("hashing", 1, 10);
+    progress.advance(10);
+    progress.advance(10);
+
+    expect(progress.current.files.done).toBe(1);
+    expect(progress.current.bytes.done).toBe(10);
+  });
+
+  test("describes phases without counts", () => {
+    const progress = new PublishProgress();
+    progress.start("diffing");
+    expect(describePublishProgress(progress.current)).toBe("Comparing with server");
+    progress.start("uploading-notes", 4);
+    expect(describePublishProgress(progress.current)).toBe("Uploading notes 0/4");
+  });
+});
+
+describe("formatBytes", () => {
+  test("picks a readable unit", () => {
+    expect(formatBytes(512)).toBe("512 B");
+    expect(formatBytes(1536)).toBe("1.5 KB");
+    expect(formatBytes(5 * 1024 * 1024)).toBe("5.0 MB");
+  });
+});
@@ -0,0 +1,99 @@
+/**
+ * Full publish progress
+ *
+ * Tracks which phase a full publish is in and how many files and bytes of the
+ * phase are done. Presentation is left to listeners (status bar, modal).
+ */
+
+export type PublishPhase = "hashing" | "diffing" | "uploading-assets" | "uploading-notes";
+
+export interface PublishProgressState {
+  phase: PublishPhase;
+  files: { done: number; total: number };
+  bytes: { done: number; total: number };
+}
+
+export type PublishProgressListener = (state: PublishProgressState) => void;
+
+const PHASE_LABELS: Record<PublishPhase, string> = {
+  hashing: "Hashing",
+  diffing: "Comparing with server",
+  "uploading-assets": "Uploading assets",
+  "uploading-notes": "Uploading notes",
+};
+
+export class PublishProgress {
+  private state: PublishProgressState = {
+    phase: "hashing",
+    files: { done: 0, total: 0 },
+    bytes: { done: 0, total: 0 },
+  };
+  private listeners = new Set<PublishProgressListener>();
+
+  /**
+   * Enter a phase with the number of files and bytes it will process
+   */
+  start(phase: PublishPhase, totalFiles = 0, totalBytes = 0): void {
+    this.state = {
+      phase,
+      files: { done: 0, total: totalFiles },
+      bytes: { done: 0, total: totalBytes },
+    };
+    this.emit();
+  }
+
+  /**
+   * Record one processed file of the current phase
+   */
+  advance(bytes = 0): void {
+    const { files, bytes: done } = this.state;
+    this.state = {
+      ...this.state,
+      files: { ...files, done: Math.min(files.total, files.done + 1) },
+      bytes: { ...done, done: Math.min(done.total, done.done + bytes) },
+    };
+    this.emit();
+  }
+
+  get current(): PublishProgressState {
+    return this.state;
+  }
+
+  onChange(listener: PublishProgressListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private emit(): void {
+    for (const listener of this.listeners) {
+      listener(this.state);
+    }
+  }
+}
+
+/**
+ * Human-readable size, e.g. "1.5 MB"
+ */
+export function formatBytes(bytes: number): string {
+  const units = ["B", "KB", "MB", "GB"];
+  let value = bytes;
+  let unit = 0;
+  while (value >= 1024 && unit < units.length - 1) {
+    value /= 1024;
+    unit++;
+  }
+  return unit === 0 ? `${value} ${units[unit]}` : `${value.toFixed(1)} ${units[unit]}`;
+}
+
+/**
+ * One-line description, e.g. "Uploading assets 3/10 (1.5 MB / 4.0 MB)"
+ */
+export function describePublishProgress(state: PublishProgressState): string {
+  const label = PHASE_LABELS[state.phase];
+  if (state.files.total === 0) return label;
+  const counts = `${state.files.done}/${state.files.total}`;
+  if (state.bytes.total === 0) return `${label} ${counts}`;
+  return `${label} ${counts} (${formatBytes(state.bytes.done)} / ${formatBytes(state.bytes.total)})`;
+}
@@ -0,0 +1,199 @@
+import { describe, expect, test, vi } from "vitest";
+import { PublishQueue } from "./publish-queue";
+
+const createClock = (start = 1000) => {
+  let current = start;
+  return {
+    now: () => current,
+    advance: (ms: number) => {
+      current += ms;
+    },
+  };
+};
+
+describe("PublishQueue", () => {
+  describe("enqueue", () => {
+    test("replaces an existing item and moves it to the end", () => {
+      const clock = createClock();
+      const queue = new PublishQueue(clock.now);
+
+      queue.enqueue("note", "a.md");
+      clock.advance(1);
+      queue.enqueue("asset", "img.png");
+      clock.advance(1);
+      queue.enqueue("note", "a.md");
+
+      expect(queue.toJSON().map((item) => `${item.kind}:${item.path}`)).toEqual([
+        "asset:img.png",
+        "note:a.md",
+      ]);
+      expect(queue.size).toBe(2);
+    });
+
+    test("notifies listeners with a snapshot", () => {
+      const queue = new PublishQueue(() => 5);
+      const listener = vi.fn();
+      queue.onChange(listener);
+
+      queue.enqueue("delete", "gone.md");
+
+      expect(listener).toHaveBeenCalledWith([
+        { kind: "delete", path: "gone.md", enqueuedAt: 5, attempts: 0 },
+      ]);
+    });
+  });
+
+  describe("complete", () => {
+    test("keeps items re-enqueued after the upload started", () => {
+      const clock = createClock();
+      const queue = new PublishQueue(clock.now);
+
+      queue.enqueue("note", "a.md");
+      const startedAt = clock.now();
+      clock.advance(10);
+      queue.enqueue("note", "a.md");
+
+      queue.complete("note", "a.md", startedAt);
+      expect(queue.has("note", "a.md")).toBe(true);
+
+      queue.complete("note", "a.md");
+      expect(queue.has("note", "a.md")).toBe(false);
+    });
+
+    test("completeAll drops items enqueued before a full publish", () => {
+      const clock = createClock();
+      const queue = new PublishQueue(clock.now);
+
+      queue.enqueue("delete", "old.md");
+      queue.enqueue("note", "a.md");
+      const startedAt = clock.now();
+      clock.advance(5);
+      queue.enqueue("delete", "new.md");
+
+      queue.completeAll(startedAt, "delete");
+      expect(queue.toJSON().map((item) => item.path)).toEqual(["a.md", "new.md"]);
+
+      queue.completeAll(startedAt);
+      expect(queue.toJSON().map((item) => item.path)).toEqual(["new.md"]);
+    });
+  });
+
+  describe("restore", () => {
+    test("ignores malformed persisted items", () => {
+      const queue = new PublishQueue();
+
+      queue.restore([
+        { kind: "note", path: "a.md", enqueuedAt: 1, attempts: 2 },
+        { kind: "unknown", path: "b.md", enqueuedAt: 1 },
+        { kind: "asset", path: "img.png", enqueuedAt: 2 },
+        "garbage",
+      ]);
+
+      expect(queue.toJSON()).toEqual([
+        { kind: "note", path: "a.md", enqueuedAt: 1, attempts: 2 },
+        { kind: "asset", path: "img.png", enqueuedAt: 2, attempts: 0 },
+      ]);
+    });
+
+    test("treats non-array data as an empty queue", () => {
+      const queue = new PublishQueue();
+      queue.restore(undefined);
+      expect(queue.size).toBe(0);
+    });
+  });
+
+  describe("renamePath", () => {
+    test("follows renames for upserts but not deletions", () => {
+      const queue = new PublishQueue();
+      queue.enqueue("note", "old.md");
+      queue.enqueue("delete", "old.md");
+
+      queue.renamePath("old.md", "new.md");
+
+      expect(queue.has("note", "new.md")).toBe(true);
+      expect(queue.has("delete", "old.md")).toBe(true);
+    });
+  });
+
+  describe("drain", () => {
+    test("processes items in order", async () => {
+      const clock = createClock();
+      const queue = new PublishQueue(clock.now);
+      queue.enqueue("note", "a.md");
+      clock.advance(1);
+      queue.enqueue("asset", "img.png");
+
+      const seen: string[] = [];
+      const result = await queue.drain(async (item) => {
+        seen.push(item.path);
+        return true;
+      });
+
+      expect(seen).toEqual(["a.md", "img.png"]);
+      expect(result).toEqual({ processed: 2, remaining: 0 });
+    });
+
+    test("stops at the first failure and keeps the rest", async () => {
+      const queue = new PublishQueue();
+      queue.enqueue("note", "a.md");
+      queue.enqueue("note", "b.md");
+      queue.enqueue("note", "c.md");
+
+      const handler = vi.fn(async (item: { path: string }) => item.path !== "b.md");
+      const result = await queue.drain(handler);
+
+      expect(handler).toHaveBeenCalledTimes(2);
+      expect(result).toEqual({ processed: 1, remaining: 2 });
+      expect(queue.toJSON()[0]).toMatchObject({ path: "b.md", attempts: 1 });
+    });
+
+    test("treats handler errors as failures", async () => {
+      const queue = new PublishQueue();
+      queue.enqueue("asset", "img.png");
+
+      const result = await queue.drain(async () => {
+        throw new Error("offline");
+      });
+
+      expect(result).toEqual({ processed: 0, remaining: 1 });
+    });
+
+    test("skips items settled by an earlier handler", async () => {
+      const queue = new PublishQueue();
+      queue.enqueue("delete", "a.md");
+      queue.enqueue("delete", "b.md");
+
+      const handler = vi.fn(async () => {
+        queue.completeAll(Number.POSITIVE_INFINITY, "delete");
+        return true;
+      });
+      const result = await queue.drain(handler);
+
+      expect(handler).toHaveBeenCalledTimes(1);
+      expect(result.remaining).toBe(0);
+    });
+
+    test("shares a drain that is already running", async () => {
+      const queue = new PublishQueue();
+      queue.enqueue("note", "a.md");
+
+      let release: () => void = () => {};
+      const handler = vi.fn(
+        () =>
+          new Promise<boolean>((resolve) => {
+            release = () => resolve(true);
+          }),
+      );
+
+      const first = queue.drain(handler);
+      const second = queue.drain(handler);
+      expect(queue.isDraining).toBe(true);
+      release();
+
+      await expect(first).resolves.toEqual({ processed: 1, remaining: 0 });
+      await expect(second).resolves.toEqual({ processed: 1, remaining: 0 });
+      expect(handler).toHaveBeenCalledTimes(1);
+      expect(queue.isDraining).toBe(false);
+    });
+  });
+});
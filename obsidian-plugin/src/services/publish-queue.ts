@@ -0,0 +1,190 @@
+/**
+ * Durable publish queue
+ *
+ * Holds pending note upserts, asset uploads and deletions so that edits made
+ * while the server is unreachable (or right before Obsidian closes) are
+ * published on the next drain. Persistence is delegated to change listeners.
+ */
+
+export type PublishQueueKind = "note" | "asset" | "delete";
+
+export interface PublishQueueItem {
+  kind: PublishQueueKind;
+  path: string;
+  enqueuedAt: number;
+  attempts: number;
+}
+
+export type PublishQueueListener = (items: readonly PublishQueueItem[]) => void;
+
+/**
+ * Processes a single queue item.
+ * Resolve `true` when the item is done, `false` to stop draining and keep it.
+ */
+export type PublishQueueHandler = (item: PublishQueueItem) => Promise<boolean>;
+
+export interface DrainResult {
+  processed: number;
+  remaining: number;
+}
+
+const QUEUE_KINDS = new Set<PublishQueueKind>(["note", "asset", "delete"]);
+
+const isQueueItem = (value: unknown): value is PublishQueueItem => {
+  if (!value || typeof value !== "object") return false;
+  const item = value as Record<string, unknown>;
+  return (
+    QUEUE_KINDS.has(item.kind as PublishQueueKind) &&
+    typeof item.path === "string" &&
+    typeof item.enqueuedAt === "number"
+  );
+};
+
+export class PublishQueue {
+  private items: PublishQueueItem[] = [];
+  private listeners = new Set<PublishQueueListener>();
+  private draining: Promise<DrainResult> | null = null;
+  private now: () => number;
+
+  constructor(now: () => number = Date.now) {
+    this.now = now;
+  }
+
+  /**
+   * Replace the queue with previously persisted items, dropping malformed ones
+   */
+  restore(raw: unknown): void {
+    const items = Array.isArray(raw) ? raw.filter(isQueueItem) : [];
+    this.items = items.map((item) => ({
+      kind: item.kind,
+      path: item.path,
+      enqueuedAt: item.enqueuedAt,
+      attempts: typeof item.attempts === "number" ? item.attempts : 0,
+    }));
+  }
+
+  /**
+   * Add an item, replacing any pending item with the same kind and path.
+   * The replacement moves to the end so the queue keeps last-change order.
+   */
+  enqueue(kind: PublishQueueKind, path: string): void {
+    const existing = this.find(kind, path);
+    this.items = this.items.filter((item) => item !== existing);
+    this.items.push({
+      kind,
+      path,
+      enqueuedAt: this.now(),
+      attempts: existing?.attempts ?? 0,
+    });
+    this.emit();
+  }
+
+  /**
+   * Mark an item as published.
+   * When `startedAt` is given, an item re-enqueued after that time is kept so
+   * a newer edit made during the upload is not lost.
+   */
+  complete(kind: PublishQueueKind, path: string, startedAt?: number): void {
+    const existing = this.find(kind, path);
+    if (!existing) return;
+    if (startedAt !== undefined && existing.enqueuedAt > startedAt) return;
+    this.items = this.items.filter((item) => item !== existing);
+    this.emit();
+  }
+
+  /**
+   * Drop every item enqueued at or before `startedAt` (e.g. after a full publish)
+   */
+  completeAll(startedAt: number, kind?: PublishQueueKind): void {
+    const next = this.items.filter(
+      (item) => item.enqueuedAt > startedAt || (kind !== undefined && item.kind !== kind),
+    );
+    if (next.length === this.items.length) return;
+    this.items = next;
+    this.emit();
+  }
+
+  renamePath(oldPath: string, newPath: string): void {
+    let changed = false;
+    for (const item of this.items) {
+      if (item.kind !== "delete" && item.path === oldPath) {
+        item.path = newPath;
+        changed = true;
+      }
+    }
+    if (changed) this.emit();
+  }
+
+  has(kind: PublishQueueKind, path: string): boolean {
+    return this.find(kind, path) !== undefined;
+  }
+
+  get size(): number {
+    return this.items.length;
+  }
+
+  get isDraining(): boolean {
+    return this.draining !== null;
+  }
+
+  toJSON(): PublishQueueItem[] {
+    return this.items.map((item) => ({ ...item }));
+  }
+
+  onChange(listener: PublishQueueListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Process items in order until the handler reports a failure.
+   * Concurrent calls share the drain that is already running.
+   */
+  drain(handler: PublishQueueHandler): Promise<DrainResult> {
+    if (!this.draining) {
+      this.draining = this.runDrain(handler).finally(() => {
+        this.draining = null;
+      });
+    }
+    return this.draining;
+  }
+
+  private async runDrain(handler: PublishQueueHandler): Promise<DrainResult> {
+    let processed = 0;
+    for (const item of [...this.items]) {
+      // Handlers may settle other items (a full publish clears deletions).
+      if (!this.items.includes(item)) continue;
+
+      const startedAt = this.now();
+      let ok = false;
+      try {
+        ok = await handler(item);
+      } catch {
+        ok = false;
+      }
+
+      if (!ok) {
+        item.attempts += 1;
+        this.emit();
+        break;
+      }
+
+      processed++;
+      this.complete(item.kind, item.path, startedAt);
+    }
+    return { processed, remaining: this.items.length };
+  }
+
+  private find(kind: PublishQueueKind, path: string): PublishQueueItem | undefined {
+    return this.items.find((item) => item.kind === kind && item.path === path);
+  }
+
+  private emit(): void {
+    const snapshot = this.toJSON();
+    for (const listener of this.listeners) {
+      listener(snapshot);
+    }
+  }
+}
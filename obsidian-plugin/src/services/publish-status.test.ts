@@ -0,0 +1,106 @@
+import { describe, expect, test, vi } from "vitest";
+import { describePublishStatus, formatTimeAgo, PublishStatus } from "./publish-status";
+
+describe("PublishStatus", () => {
+  test("is publishing while tracked work runs", async () => {
+    const status = new PublishStatus();
+    const states: string[] = [];
+    status.onChange((snapshot) => states.push(snapshot.state));
+
+    await status.track(async () => {
+      expect(status.current.state).toBe("publishing");
+    });
+
+    expect(states).toEqual(["publishing", "idle"]);
+  });
+
+  test("stays publishing until every tracked operation settles", async () => {
+    const status = new PublishStatus();
+    let release = () => {};
+    const slow = status.track(
+      () =>
+        new Promise<void>((resolve) => {
+          release = resolve;
+        }),
+    );
+
+    await status.track(async () => {});
+    expect(status.current.state).toBe("publishing");
+
+    release();
+    await slow;
+    expect(status.current.state).toBe("idle");
+  });
+
+  test("ends tracking when the work throws", async () => {
+    const status = new PublishStatus();
+
+    await expect(status.track(() => Promise.reject(new Error("boom")))).rejects.toThrow("boom");
+
+    expect(status.current.state).toBe("idle");
+  });
+
+  test("reports an error until a later success", () => {
+    let now = 1000;
+    const status = new PublishStatus(() => now);
+
+    status.recordError("note upload failed", "a.md");
+    expect(status.current.state).toBe("error");
+
+    now = 2000;
+    status.recordSuccess();
+    expect(status.current).toMatchObject({ state: "idle", lastSuccessAt: 2000 });
+    expect(status.current.errors).toEqual([
+      { at: 1000, message: "note upload failed", path: "a.md" },
+    ]);
+  });
+
+  test("keeps the newest errors first and bounded", () => {
+    const status = new PublishStatus();
+    for (let i = 0; i < 25; i++) status.recordError(`error ${i}`);
+
+    expect(status.current.errors).toHaveLength(20);
+    expect(status.current.errors[0].message).toBe("error 24");
+
+    status.clearErrors();
+    expect(status.current).toMatchObject({ state: "idle", errors: [] });
+  });
+
+  test("notifies only when the pending count changes", () => {
+    const status = new PublishStatus();
+    const listener = vi.fn();
+    status.onChange(listener);
+
+    status.setPending(2);
+    status.setPending(2);
+
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect(status.current.pending).toBe(2);
+  });
+});
+
+describe("describePublishStatus", () => {
+  const now = 10 * 60_000;
+
+  test("combines state, last success and pending jobs", () => {
+    expect(
+      describePublishStatus({ state: "idle", lastSuccessAt: null, errors: [], pending: 0 }, now),
+    ).toBe("Idle");
+    expect(
+      describePublishStatus(
+        { state: "error", lastSuccessAt: 5 * 60_000, errors: [], pending: 2 },
+        now,
+      ),
+    ).toBe("Publish failed · last published 5 min ago · 2 pending");
+  });
+});
+
+describe("formatTimeAgo", () => {
+  test("rounds down to the largest unit", () => {
+    const now = 3 * 86_400_000;
+    expect(formatTimeAgo(now - 30_000, now)).toBe("just now");
+    expect(formatTimeAgo(now - 59 * 60_000, now)).toBe("59 min ago");
+    expect(formatTimeAgo(now - 5 * 3_600_000, now)).toBe("5 h ago");
+    expect(formatTimeAgo(0, now)).toBe("3 d ago");
+  });
+});
@@ -0,0 +1,142 @@
+/**
+ * Publish status
+ *
+ * Aggregates what the plugin is doing for the status bar: whether a publish is
+ * running, when the last one succeeded, recent failures and how many debounced
+ * publishes are waiting. Presentation is left to listeners.
+ */
+
+export type PublishState = "idle" | "publishing" | "error";
+
+export interface PublishFailure {
+  at: number;
+  message: string;
+  path?: string;
+}
+
+export interface PublishStatusSnapshot {
+  state: PublishState;
+  lastSuccessAt: number | null;
+  /** Newest first */
+  errors: readonly PublishFailure[];
+  pending: number;
+}
+
+export type PublishStatusListener = (status: PublishStatusSnapshot) => void;
+
+// Older failures are dropped; the status bar only needs recent context.
+const MAX_ERRORS = 20;
+
+export class PublishStatus {
+  private active = 0;
+  private lastSuccessAt: number | null = null;
+  private failing = false;
+  private errors: PublishFailure[] = [];
+  private pending = 0;
+  private listeners = new Set<PublishStatusListener>();
+  private now: () => number;
+
+  constructor(now: () => number = Date.now) {
+    this.now = now;
+  }
+
+  /**
+   * Mark a publish as running until `work` settles
+   */
+  async track<T>(work: () => Promise<T>): Promise<T> {
+    this.active++;
+    this.emit();
+    try {
+      return await work();
+    } finally {
+      this.active--;
+      this.emit();
+    }
+  }
+
+  recordSuccess(): void {
+    this.lastSuccessAt = this.now();
+    this.failing = false;
+    this.emit();
+  }
+
+  recordError(message: string, path?: string): void {
+    const at = this.now();
+    this.failing = true;
+    this.errors = [{ at, message, ...(path ? { path } : {}) }, ...this.errors].slice(0, MAX_ERRORS);
+    this.emit();
+  }
+
+  clearErrors(): void {
+    this.errors = [];
+    this.failing = false;
+    this.emit();
+  }
+
+  setPending(pending: number): void {
+    if (pending === this.pending) return;
+    this.pending = pending;
+    this.emit();
+  }
+
+  /**
+   * "error" from a failure until the next success
+   */
+  get current(): PublishStatusSnapshot {
+    return {
+      state: this.active > 0 ? "publishing" : this.failing ? "error" : "idle",
+      lastSuccessAt: this.lastSuccessAt,
+      errors: this.errors,
+      pending: this.pending,
+    };
+  }
+
+  onChange(listener: PublishStatusListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private emit(): void {
+    const status = this.current;
+    for (const listener of this.listeners) {
+      listener(status);
+    }
+  }
+}
+
+/**
+ * Coarse age, e.g. "just now", "5 min ago", "3 h ago", "2 d ago"
+ */
+export function formatTimeAgo(at: number, now: number = Date.now()): string {
+  const minutes = Math.floor((now - at) / 60_000);
+  if (minutes < 1) return "just now";
+  if (minutes < 60) return `${minutes} min ago`;
+  const hours = Math.floor(minutes / 60);
+  if (hours < 24) return `${hours} h ago`;
+  return `${Math.floor(hours / 24)} d ago`;
+}
+
+/**
+ * One-line status, e.g. "Publish failed · last published 5 min ago · 2 pending"
+ */
+export function describePublishStatus(
+  status: PublishStatusSnapshot,
+  now: number = Date.now(),
+): string {
+  const parts = [
+    status.state === "publishing"
+      ? "Publishing…"
+      : status.state === "error"
+        ? "Publish failed"
+        : "Idle",
+  ];
+  if (status.lastSuccessAt !== null) {
+    parts.push(`last published ${formatTimeAgo(status.lastSuccessAt, now)}`);
+  }
+  if (status.pending > 0) {
+    parts.push(`${status.pending} pending`);
+  }
+  return parts.join(" · ");
+}
@@ -28,12 +28,23 @@ export interface CachedMetadataLike {
   frontmatter?: Record<string, unknown>;
 }
 
-const stripSubpath = (link: string): string => {
-  const trimmed = link.trim();
-  if (!trimmed) return "";
+/**
+ * Split a link target into its path and its heading or block subpath, e.g.
+ * `Note#^abc123` into `Note` and `^abc123`. An alias after `|` (escaped as
+ * `\|` inside tables) is dropped.
+ */
+export function parseLinktext(link: string): { linkpath: string; subpath: string } {
+  const [target] = link.split("|");
+  const trimmed = target.trim().replace(/\\$/, "").trim();
   const hashIndex = trimmed.indexOf("#");
-  return (hashIndex >= 0 ? trimmed.slice(0, hashIndex) : trimmed).trim();
-};
+  if (hashIndex < 0) return { linkpath: trimmed, subpath: "" };
+  return {
+    linkpath: trimmed.slice(0, hashIndex).trim(),
+    subpath: trimmed.slice(hashIndex + 1).trim(),
+  };
+}
+
+const stripSubpath = (link: string): string => parseLinktext(link).linkpath;
 
 const isExternalLink = (value: string): boolean => {
   const lower = value.toLowerCase();
@@ -42,6 +53,22 @@ const isExternalLink = (value: string): boolean => {
   return /^[a-z][a-z0-9+.-]*:\/\//i.test(value);
 };
 
+const normalizeLinkpaths = (candidates: string[]): string[] => {
+  const seen = new Set<string>();
+  const results: string[] = [];
+
+  for (const raw of candidates) {
+    const linkpath = stripSubpath(String(raw ?? ""));
+    if (!linkpath) continue;
+    if (isExternalLink(linkpath)) continue;
+    if (seen.has(linkpath)) continue;
+    seen.add(linkpath);
+    results.push(linkpath);
+  }
+
+  return results;
+};
+
 export function extractInternalLinkpathsFromCache(
   cache: CachedMetadataLike | null | undefined,
 ): string[] {
@@ -59,17 +86,14 @@ export function extractInternalLinkpathsFromCache(
     candidates.push(ref.link);
   }
 
-  const seen = new Set<string>();
-  const results: string[] = [];
-
-  for (const raw of candidates) {
-    const linkpath = stripSubpath(String(raw ?? ""));
-    if (!linkpath) continue;
-    if (isExternalLink(linkpath)) continue;
-    if (seen.has(linkpath)) continue;
-    seen.add(linkpath);
-    results.push(linkpath);
-  }
+  return normalizeLinkpaths(candidates);
+}
 
-  return results;
+/**
+ * Link paths of the note's `![[...]]` embeds, without subpaths
+ */
+export function extractEmbedLinkpathsFromCache(
+  cache: CachedMetadataLike | null | undefined,
+): string[] {
+  return normalizeLinkpaths((cache?.embeds ?? []).map((ref) => ref.link));
 }
@@ -16,18 +16,76 @@ export interface ReferenceDiff {
 
 const emptySet = (): Set<string> => new Set();
 
+/**
+ * Replace a note's outgoing links, keeping the reverse map in step
+ */
+const setLinks = (
+  forward: Map<string, Set<string>>,
+  reverse: Map<string, Set<string>>,
+  notePath: string,
+  targets: Set<string>,
+): void => {
+  for (const target of forward.get(notePath) ?? []) {
+    if (targets.has(target)) continue;
+    const sources = reverse.get(target);
+    if (sources) {
+      sources.delete(notePath);
+      if (sources.size === 0) reverse.delete(target);
+    }
+  }
+  for (const target of targets) {
+    const sources = reverse.get(target) ?? new Set<string>();
+    sources.add(notePath);
+    reverse.set(target, sources);
+  }
+  if (targets.size > 0) {
+    forward.set(notePath, targets);
+  } else {
+    forward.delete(notePath);
+  }
+};
+
+/**
+ * Move a note's links in both directions to its new path
+ */
+const renameInLinks = (
+  forward: Map<string, Set<string>>,
+  reverse: Map<string, Set<string>>,
+  oldPath: string,
+  newPath: string,
+): void => {
+  const targets = forward.get(oldPath) ?? emptySet();
+  setLinks(forward, reverse, oldPath, emptySet());
+  setLinks(forward, reverse, newPath, targets);
+
+  const sources = reverse.get(oldPath);
+  if (!sources) return;
+  reverse.delete(oldPath);
+  reverse.set(newPath, new Set([...(reverse.get(newPath) ?? []), ...sources]));
+  for (const source of sources) {
+    const sourceTargets = forward.get(source);
+    if (sourceTargets?.delete(oldPath)) sourceTargets.add(newPath);
+  }
+};
+
 export class ReferenceIndex {
   private resolve: ReferenceResolver;
 
   private noteToAssets = new Map<string, Set<string>>();
   private noteToNotes = new Map<string, Set<string>>();
   private assetToNotes = new Map<string, Set<string>>();
+  private backlinks = new Map<string, Set<string>>();
+  private noteToEmbeds = new Map<string, Set<string>>();
+  private embedToNotes = new Map<string, Set<string>>();
 
   constructor(resolver: ReferenceResolver) {
     this.resolve = resolver;
   }
 
-  updateNote(notePath: string, linkpaths: string[]): ReferenceDiff {
+  /**
+   * @param embedLinkpaths the subset of `linkpaths` that are embeds (`![[...]]`)
+   */
+  updateNote(notePath: string, linkpaths: string[], embedLinkpaths: string[] = []): ReferenceDiff {
     const prevAssets = this.noteToAssets.get(notePath) ?? emptySet();
     const prevNotes = this.noteToNotes.get(notePath) ?? emptySet();
 
@@ -76,7 +134,14 @@ export class ReferenceIndex {
     }
 
     this.noteToAssets.set(notePath, nextAssets);
-    this.noteToNotes.set(notePath, nextNotes);
+    setLinks(this.noteToNotes, this.backlinks, notePath, nextNotes);
+
+    const nextEmbeds = new Set<string>();
+    for (const linkpath of embedLinkpaths) {
+      const resolved = this.resolve(linkpath, notePath);
+      if (resolved?.kind === "note") nextEmbeds.add(resolved.path);
+    }
+    setLinks(this.noteToEmbeds, this.embedToNotes, notePath, nextEmbeds);
 
     return { addedAssets, removedAssets, addedNotes, removedNotes };
   }
@@ -94,14 +159,15 @@ export class ReferenceIndex {
     }
 
     this.noteToAssets.delete(notePath);
-    this.noteToNotes.delete(notePath);
+    // Notes linking to this one keep their entries; their links may resolve again.
+    setLinks(this.noteToNotes, this.backlinks, notePath, emptySet());
+    setLinks(this.noteToEmbeds, this.embedToNotes, notePath, emptySet());
   }
 
   renameNote(oldPath: string, newPath: string): void {
     if (oldPath === newPath) return;
 
     const assets = this.noteToAssets.get(oldPath);
-    const notes = this.noteToNotes.get(oldPath);
 
     if (assets) {
       this.noteToAssets.delete(oldPath);
@@ -115,10 +181,8 @@ export class ReferenceIndex {
       }
     }
 
-    if (notes) {
-      this.noteToNotes.delete(oldPath);
-      this.noteToNotes.set(newPath, notes);
-    }
+    renameInLinks(this.noteToNotes, this.backlinks, oldPath, newPath);
+    renameInLinks(this.noteToEmbeds, this.embedToNotes, oldPath, newPath);
   }
 
   getAssetsForNote(notePath: string): Set<string> {
@@ -129,6 +193,20 @@ export class ReferenceIndex {
     return new Set(this.noteToNotes.get(notePath) ?? []);
   }
 
+  /**
+   * Notes linking to or embedding the note
+   */
+  getBacklinks(notePath: string): Set<string> {
+    return new Set(this.backlinks.get(notePath) ?? []);
+  }
+
+  /**
+   * Notes that embed the note directly
+   */
+  getNotesEmbedding(notePath: string): Set<string> {
+    return new Set(this.embedToNotes.get(notePath) ?? []);
+  }
+
   getNotesForAsset(assetPath: string): Set<string> {
     return new Set(this.assetToNotes.get(assetPath) ?? []);
   }
@@ -0,0 +1,144 @@
+/**
+ * Secret scanner
+ *
+ * Finds high-confidence secrets (cloud keys, private key blocks, JWTs and
+ * custom patterns) in note content before it is published. The report keeps
+ * the latest findings per note for display; matched values are masked so the
+ * report does not spread them further.
+ */
+
+export interface SecretRule {
+  name: string;
+  pattern: RegExp;
+}
+
+export interface SecretFinding {
+  rule: string;
+  /** 1-based */
+  line: number;
+  /** Start of the match, the rest masked */
+  preview: string;
+}
+
+export type SecretReportListener = (report: ReadonlyMap<string, SecretFinding[]>) => void;
+
+/** Frontmatter property that lets a note publish despite findings */
+export const ALLOW_SECRETS_KEY = "mdbrain-allow-secrets";
+
+export const BUILTIN_SECRET_RULES: readonly SecretRule[] = [
+  { name: "AWS access key", pattern: /\b(?:AKIA|ASIA)[0-9A-Z]{16}\b/ },
+  { name: "Google API key", pattern: /\bAIza[0-9A-Za-z_-]{35}\b/ },
+  { name: "GitHub token", pattern: /\b(?:gh[pousr]_[A-Za-z0-9]{36,}|github_pat_\w{60,})\b/ },
+  { name: "Slack token", pattern: /\bxox[abprs]-[A-Za-z0-9-]{10,}/ },
+  { name: "Stripe secret key", pattern: /\b[rs]k_live_[0-9A-Za-z]{24,}\b/ },
+  { name: "Azure storage key", pattern: /AccountKey=[A-Za-z0-9+/]{86}==/ },
+  {
+    name: "Private key",
+    pattern: /-----BEGIN (?:[A-Z]+ )?PRIVATE KEY(?: BLOCK)?-----/,
+  },
+  {
+    name: "JWT",
+    pattern: /\beyJ[A-Za-z0-9_-]{10,}\.eyJ[A-Za-z0-9_-]{10,}\.[A-Za-z0-9_-]{10,}/,
+  },
+];
+
+/**
+ * Built-in rules plus the custom patterns that compile
+ */
+export function compileSecretRules(customPatterns: string[]): {
+  rules: SecretRule[];
+  invalid: string[];
+} {
+  const rules = [...BUILTIN_SECRET_RULES];
+  const invalid: string[] = [];
+  for (const source of customPatterns) {
+    if (!source.trim()) continue;
+    try {
+      rules.push({ name: `Custom pattern ${source}`, pattern: new RegExp(source) });
+    } catch {
+      invalid.push(source);
+    }
+  }
+  return { rules, invalid };
+}
+
+const mask = (value: string): string =>
+  value.length <= 8 ? "*".repeat(value.length) : `${value.slice(0, 4)}${"*".repeat(8)}`;
+
+export function scanForSecrets(content: string, rules: readonly SecretRule[]): SecretFinding[] {
+  const findings: SecretFinding[] = [];
+  const lines = content.split("\n");
+  for (const rule of rules) {
+    const pattern = new RegExp(rule.pattern.source, rule.pattern.flags.replace("g", ""));
+    lines.forEach((text, index) => {
+      const match = pattern.exec(text);
+      if (match?.[0]) findings.push({ rule: rule.name, line: index + 1, preview: mask(match[0]) });
+    });
+  }
+  return findings.sort((a, b) => a.line - b.line);
+}
+
+/**
+ * Notes whose last publish was blocked, with what was found
+ */
+export class SecretReport {
+  private findings = new Map<string, SecretFinding[]>();
+  private listeners = new Set<SecretReportListener>();
+
+  /**
+   * Replace a note's findings; none clears the note from the report
+   */
+  record(path: string, findings: SecretFinding[]): void {
+    if (findings.length === 0) {
+      if (!this.findings.delete(path)) return;
+    } else {
+      this.findings.set(path, findings);
+    }
+    this.emit();
+  }
+
+  rename(oldPath: string, newPath: string): void {
+    const findings = this.findings.get(oldPath);
+    if (!findings) return;
+    this.findings.delete(oldPath);
+    this.findings.set(newPath, findings);
+    this.emit();
+  }
+
+  get(path: string): SecretFinding[] {
+    return this.findings.get(path) ?? [];
+  }
+
+  /**
+   * By path
+   */
+  list(): Array<{ path: string; findings: SecretFinding[] }> {
+    return Array.from(this.findings, ([path, findings]) => ({ path, findings })).sort((a, b) =>
+      a.path.localeCompare(b.path),
+    );
+  }
+
+  get size(): number {
+    return this.findings.size;
+  }
+
+  onChange(listener: SecretReportListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private emit(): void {
+    for (const listener of this.listeners) {
+      listener(this.findings);
+    }
+  }
+}
+
+/**
+ * One-line summary, e.g. "AWS access key (line 3), JWT (line 9)"
+ */
+export function describeSecretFindings(findings: SecretFinding[]): string {
+  return findings.map((finding) => `${finding.rule} (line ${finding.line})`).join(", ");
+}
@@ -0,0 +1,115 @@
+import { describe, expect, test } from "vitest";
+import { type EmbeddedNote, expandTransclusions } from "./transclusion";
+
+const notes: Record<string, string> = {
+  "Source.md": [
+    "---",
+    "title: Source",
+    "---",
+    "Intro",
+    "",
+    "# Part one",
+    "One",
+    "## Detail",
+    "Deep",
+    "# Part two",
+    "Two",
+    "",
+    "First line",
+    "second line ^para",
+    "",
+    "- item a",
+    "- item b ^item",
+    "",
+    "> quoted",
+    "",
+    "^quote",
+  ].join("\n"),
+  "Outer.md": "Outer start\n![[Inner]]",
+  "Inner.md": "Inner text",
+  "Loop A.md": "A\n![[Loop B]]",
+  "Loop B.md": "B\n![[Loop A]]",
+  "Chain 1.md": "one ![[Chain 2]]",
+  "Chain 2.md": "two ![[Chain 3]]",
+  "Chain 3.md": "three",
+};
+
+const resolve = async (linkpath: string): Promise<EmbeddedNote | null> => {
+  const path = linkpath.endsWith(".md") ? linkpath : `${linkpath}.md`;
+  return path in notes ? { path, content: notes[path] } : null;
+};
+
+const expand = (content: string, maxDepth = 5) =>
+  expandTransclusions(content, "Note.md", resolve, maxDepth);
+
+describe("expandTransclusions", () => {
+  test("writes out a whole note without its frontmatter", async () => {
+    const result = await expand("Before\n![[Inner]]\nAfter");
+
+    expect(result).toEqual({
+      content: "Before\nInner text\nAfter",
+      embeds: ["Inner"],
+      embedded: ["Inner.md"],
+    });
+    expect((await expand("![[Source]]")).content.startsWith("Intro\n")).toBe(true);
+  });
+
+  test("embeds a heading section up to the next heading of the same level", async () => {
+    const result = await expand("![[Source#Part one]]");
+
+    expect(result.content).toBe("# Part one\nOne\n## Detail\nDeep");
+  });
+
+  test("follows nested heading paths", async () => {
+    const result = await expand("![[Source#Part one#Detail|Alias]]");
+
+    expect(result.content).toBe("## Detail\nDeep");
+  });
+
+  test("reads embeds in tables, where the alias pipe is escaped", async () => {
+    const result = await expand("| ![[Inner\\|Alias]] |");
+
+    expect(result.content).toBe("| Inner text |");
+  });
+
+  test("embeds the paragraph, list item or block a block ID belongs to", async () => {
+    expect((await expand("![[Source#^para]]")).content).toBe("First line\nsecond line");
+    expect((await expand("![[Source#^item]]")).content).toBe("- item b");
+    expect((await expand("![[Source#^quote]]")).content).toBe("> quoted");
+  });
+
+  test("expands nested embeds", async () => {
+    const result = await expand("![[Outer]]");
+
+    expect(result.content).toBe("Outer start\nInner text");
+    expect(result.embedded).toEqual(["Outer.md", "Inner.md"]);
+    expect(result.embeds).toEqual(["Outer"]);
+  });
+
+  test("leaves an embed that would repeat a note being embedded", async () => {
+    const result = await expand("![[Loop A]]");
+
+    expect(result.content).toBe("A\nB\n![[Loop A]]");
+  });
+
+  test("stops at the depth limit", async () => {
+    const result = await expand("![[Chain 1]]", 2);
+
+    expect(result.content).toBe("one two ![[Chain 3]]");
+  });
+
+  test("leaves unresolved embeds, missing sections and assets as written", async () => {
+    const content = "![[Missing]] ![[Source#Nowhere]] ![[image.png]]";
+    const result = await expand(content);
+
+    expect(result.content).toBe(content);
+    expect(result.embeds).toEqual(["Missing", "Source"]);
+  });
+
+  test("ignores embeds in code", async () => {
+    const content = "```\n![[Inner]]\n```\n`![[Inner]]` ![[Inner]]";
+    const result = await expand(content);
+
+    expect(result.content).toBe("```\n![[Inner]]\n```\n`![[Inner]]` Inner text");
+  });
+});
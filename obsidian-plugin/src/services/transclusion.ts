@@ -0,0 +1,220 @@
+/**
+ * Note transclusion
+ *
+ * Writes `![[note]]`, `![[note#Heading]]` and `![[note#^block]]` embeds out
+ * into the embedding note, the way Obsidian shows them. Embeds that do not
+ * resolve to a note, that would repeat a note already being embedded or that
+ * sit below the depth limit are left as written. Fenced and inline code are
+ * left alone.
+ */
+
+import { isAssetFile } from "../utils";
+import { parseLinktext } from "./reference-extractor";
+
+export interface EmbeddedNote {
+  path: string;
+  /** Content as it may be published; its frontmatter is dropped */
+  content: string;
+}
+
+/**
+ * Looks up the note behind an embed; null leaves the embed as written
+ */
+export type EmbedResolver = (linkpath: string, sourcePath: string) => Promise<EmbeddedNote | null>;
+
+export interface TransclusionResult {
+  content: string;
+  /** Link paths of the note's own note embeds, resolved or not */
+  embeds: string[];
+  /** Paths of the notes written into the content, nested embeds included */
+  embedded: string[];
+}
+
+type EmbedTarget = ReturnType<typeof parseLinktext>;
+
+const FENCE = /^\s*(`{3,}|~{3,})/;
+const HEADING = /^(#{1,6})\s+(.*?)(?:\s+#+)?\s*$/;
+const LIST_ITEM = /^\s*(?:[-*+]|\d+[.)])\s/;
+// Inline code spans are matched first so that embeds inside them are skipped.
+const EMBED_OR_CODE = /(`+)[\s\S]*?\1|!\[\[([^\]\n]+)\]\]/g;
+
+const isNoteEmbed = ({ linkpath }: EmbedTarget): boolean => {
+  const filename = linkpath.split("/").pop() ?? "";
+  const ext = filename.includes(".") ? (filename.split(".").pop() ?? "") : "";
+  return !isAssetFile({ extension: ext.toLowerCase() });
+};
+
+const stripFrontmatter = (lines: string[]): string[] => {
+  if (lines[0]?.trim() !== "---") return lines;
+  for (let i = 1; i < lines.length; i++) {
+    if (lines[i].trim() === "---" || lines[i].trim() === "...") return lines.slice(i + 1);
+  }
+  return lines;
+};
+
+// Obsidian treats these characters as spaces in heading links.
+const normalizeHeading = (heading: string): string =>
+  heading
+    .replace(/[#|^:%[\]]/g, " ")
+    .replace(/\s+/g, " ")
+    .trim()
+    .toLowerCase();
+
+/**
+ * Headings outside fenced code, in document order
+ */
+const findHeadings = (lines: string[]): Array<{ line: number; level: number; text: string }> => {
+  const headings: Array<{ line: number; level: number; text: string }> = [];
+  let fence: string | null = null;
+  lines.forEach((line, index) => {
+    const marker = FENCE.exec(line)?.[1];
+    if (marker) {
+      if (fence === null) fence = marker;
+      else if (marker.startsWith(fence)) fence = null;
+      return;
+    }
+    if (fence !== null) return;
+    const match = HEADING.exec(line);
+    if (match) headings.push({ line: index, level: match[1].length, text: match[2] });
+  });
+  return headings;
+};
+
+/**
+ * A heading's section, from the heading to the next one of the same or a
+ * higher level. `A#B` is heading B inside section A.
+ */
+const extractHeadingSection = (lines: string[], subpath: string): string[] | null => {
+  const headings = findHeadings(lines);
+  let start = 0;
+  let end = lines.length;
+  for (const segment of subpath.split("#").map(normalizeHeading).filter(Boolean)) {
+    const index = headings.findIndex(
+      (heading) =>
+        heading.line >= start && heading.line < end && normalizeHeading(heading.text) === segment,
+    );
+    if (index < 0) return null;
+    const heading = headings[index];
+    const next = headings
+      .slice(index + 1)
+      .find((other) => other.line < end && other.level <= heading.level);
+    start = heading.line;
+    end = next?.line ?? end;
+  }
+  return lines.slice(start, end);
+};
+
+/**
+ * The block carrying `^id`: its list item, its paragraph, or the block just
+ * above when the ID stands on a line of its own
+ */
+const extractBlock = (lines: string[], id: string): string[] | null => {
+  const escaped = id.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+  const marker = new RegExp(`(^|\\s)\\^${escaped}\\s*$`);
+  const index = lines.findIndex((line) => marker.test(line));
+  if (index < 0) return null;
+
+  const ownLine = lines[index].trim() === `^${id}`;
+  const last = ownLine ? index - 1 : index;
+  if (!ownLine && LIST_ITEM.test(lines[index])) {
+    return [lines[index].replace(marker, "")];
+  }
+  let first = last;
+  while (first > 0 && lines[first - 1].trim() !== "") first--;
+  if (last < first) return null;
+  const block = lines.slice(first, last + 1);
+  if (!ownLine) block[block.length - 1] = block[block.length - 1].replace(marker, "");
+  return block;
+};
+
+const extractSubpath = (content: string, subpath: string): string | null => {
+  const lines = stripFrontmatter(content.split("\n"));
+  const selected = !subpath
+    ? lines
+    : subpath.startsWith("^")
+      ? extractBlock(lines, subpath.slice(1))
+      : extractHeadingSection(lines, subpath);
+  if (!selected) return null;
+  return selected.join("\n").replace(/^\s*\n|\n\s*$/g, "");
+};
+
+interface ExpandContext {
+  resolve: EmbedResolver;
+  maxDepth: number;
+  embedded: Set<string>;
+}
+
+const expand = async (
+  content: string,
+  sourcePath: string,
+  chain: string[],
+  context: ExpandContext,
+  embeds?: string[],
+): Promise<string> => {
+  const lines = content.split("\n");
+  let fence: string | null = null;
+
+  for (let i = 0; i < lines.length; i++) {
+    const marker = FENCE.exec(lines[i])?.[1];
+    if (marker) {
+      if (fence === null) fence = marker;
+      else if (marker.startsWith(fence)) fence = null;
+      continue;
+    }
+    if (fence !== null || !lines[i].includes("![[")) continue;
+
+    let expanded = "";
+    let last = 0;
+    for (const match of lines[i].matchAll(EMBED_OR_CODE)) {
+      const inner = match[2];
+      if (inner === undefined) continue;
+      const target = parseLinktext(inner);
+      if (!isNoteEmbed(target)) continue;
+      embeds?.push(target.linkpath || sourcePath);
+
+      const replacement = await expandEmbed(target, sourcePath, chain, context);
+      if (replacement === null) continue;
+      const start = match.index ?? 0;
+      expanded += lines[i].slice(last, start) + replacement;
+      last = start + match[0].length;
+    }
+    lines[i] = expanded + lines[i].slice(last);
+  }
+
+  return lines.join("\n");
+};
+
+const expandEmbed = async (
+  target: EmbedTarget,
+  sourcePath: string,
+  chain: string[],
+  context: ExpandContext,
+): Promise<string | null> => {
+  if (chain.length > context.maxDepth) return null;
+  // `![[#Heading]]` embeds part of the note it is in.
+  const note = await context.resolve(target.linkpath || sourcePath, sourcePath);
+  if (!note) return null;
+  const key = `${note.path}#${target.subpath}`;
+  if (chain.includes(key)) return null;
+
+  const section = extractSubpath(note.content, target.subpath);
+  if (section === null) return null;
+  context.embedded.add(note.path);
+  return expand(section, note.path, [...chain, key], context);
+};
+
+/**
+ * Write a note's embeds of other notes out into its content, up to `maxDepth`
+ * embeds deep
+ */
+export async function expandTransclusions(
+  content: string,
+  sourcePath: string,
+  resolve: EmbedResolver,
+  maxDepth: number,
+): Promise<TransclusionResult> {
+  const context: ExpandContext = { resolve, maxDepth, embedded: new Set() };
+  const embeds: string[] = [];
+  const expanded = await expand(content, sourcePath, [`${sourcePath}#`], context, embeds);
+  return { content: expanded, embeds: [...new Set(embeds)], embedded: [...context.embedded] };
+}
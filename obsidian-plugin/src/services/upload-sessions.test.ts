@@ -0,0 +1,38 @@
+import { describe, expect, test, vi } from "vitest";
+import { UploadSessionStore } from "./upload-sessions";
+
+describe("UploadSessionStore", () => {
+  const session = { uploadId: "u1", hash: "h1", size: 10, offset: 4 };
+
+  test("returns a session only for the same content", () => {
+    const store = new UploadSessionStore();
+    store.set("a.mp4", session);
+
+    expect(store.get("a.mp4", "h1", 10)).toEqual(session);
+    expect(store.get("a.mp4", "h2", 10)).toBeNull();
+    expect(store.get("a.mp4", "h1", 11)).toBeNull();
+    expect(store.get("b.mp4", "h1", 10)).toBeNull();
+  });
+
+  test("restores persisted sessions and drops malformed ones", () => {
+    const store = new UploadSessionStore();
+    store.restore({ "a.mp4": session, "b.mp4": { uploadId: "u2" }, "c.mp4": null });
+
+    expect(store.paths()).toEqual(["a.mp4"]);
+    expect(store.toJSON()).toEqual({ "a.mp4": session });
+  });
+
+  test("follows renames and notifies listeners on changes", () => {
+    const store = new UploadSessionStore();
+    const listener = vi.fn();
+    store.onChange(listener);
+
+    store.set("a.mp4", session);
+    store.rename("a.mp4", "b.mp4");
+    store.delete("b.mp4");
+    store.delete("missing.mp4");
+
+    expect(listener).toHaveBeenCalledTimes(3);
+    expect(store.size).toBe(0);
+  });
+});
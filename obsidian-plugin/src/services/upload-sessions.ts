@@ -0,0 +1,97 @@
+/**
+ * Resumable upload sessions
+ *
+ * Remembers in-progress chunked asset uploads by vault path so an upload
+ * interrupted by a network failure or a plugin reload continues from the last
+ * acknowledged chunk. Persistence is delegated to change listeners.
+ */
+
+import type { UploadSession } from "../domain/types";
+
+export type UploadSessionListener = () => void;
+
+const isSession = (value: unknown): value is UploadSession => {
+  if (!value || typeof value !== "object") return false;
+  const session = value as Record<string, unknown>;
+  return (
+    typeof session.uploadId === "string" &&
+    typeof session.hash === "string" &&
+    typeof session.size === "number" &&
+    typeof session.offset === "number"
+  );
+};
+
+export class UploadSessionStore {
+  private sessions = new Map<string, UploadSession>();
+  private listeners = new Set<UploadSessionListener>();
+
+  /**
+   * Replace the store with previously persisted sessions, dropping malformed ones
+   */
+  restore(raw: unknown): void {
+    this.sessions.clear();
+    if (raw && typeof raw === "object") {
+      for (const [path, session] of Object.entries(raw as Record<string, unknown>)) {
+        if (isSession(session)) {
+          this.sessions.set(path, {
+            uploadId: session.uploadId,
+            hash: session.hash,
+            size: session.size,
+            offset: session.offset,
+          });
+        }
+      }
+    }
+  }
+
+  /**
+   * Session for a path, or null when missing or started for different content
+   */
+  get(path: string, hash: string, size: number): UploadSession | null {
+    const session = this.sessions.get(path);
+    if (!session || session.hash !== hash || session.size !== size) return null;
+    return session;
+  }
+
+  set(path: string, session: UploadSession): void {
+    this.sessions.set(path, { ...session });
+    this.emit();
+  }
+
+  delete(path: string): void {
+    if (this.sessions.delete(path)) this.emit();
+  }
+
+  rename(oldPath: string, newPath: string): void {
+    const session = this.sessions.get(oldPath);
+    if (!session) return;
+    this.sessions.delete(oldPath);
+    this.sessions.set(newPath, session);
+    this.emit();
+  }
+
+  paths(): string[] {
+    return [...this.sessions.keys()];
+  }
+
+  get size(): number {
+    return this.sessions.size;
+  }
+
+  onChange(listener: UploadSessionListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  toJSON(): Record<string, UploadSession> {
+    return Object.fromEntries(this.sessions);
+  }
+
+  private emit(): void {
+    for (const listener of this.listeners) {
+      listener();
+    }
+  }
+}
@@ -128,6 +128,27 @@ export class App {
   }
 }
 
+export class Modal {
+  app: App;
+
+  constructor(app: App) {
+    this.app = app;
+  }
+
+  open(): void {}
+  close(): void {}
+}
+
+export class WorkspaceLeaf {}
+
+export class ItemView {
+  leaf: WorkspaceLeaf;
+
+  constructor(leaf: WorkspaceLeaf) {
+    this.leaf = leaf;
+  }
+}
+
 export class PluginSettingTab {
   display(): void {}
 }
@@ -151,6 +172,10 @@ export class Plugin {
     this.manifest = manifest;
   }
 
+  async loadData(): Promise<unknown> {
+    return null;
+  }
+  async saveData(_data: unknown): Promise<void> {}
   async loadSettings(): Promise<void> {}
   async saveSettings(): Promise<void> {}
 }
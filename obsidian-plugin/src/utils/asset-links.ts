@@ -30,8 +30,8 @@ const looksLikeAsset = (path: string): boolean => {
   return isAssetFile({ extension: ext });
 };
 
-const extractWikiPaths = (content: string): string[] => {
-  const matches = content.matchAll(/!?\[\[([^\]]+)\]\]/g);
+const extractWikiPaths = (content: string, embedsOnly = false): string[] => {
+  const matches = content.matchAll(embedsOnly ? /!\[\[([^\]]+)\]\]/g : /!?\[\[([^\]]+)\]\]/g);
   const results: string[] = [];
   for (const match of matches) {
     const inner = match[1] ?? "";
@@ -158,3 +158,10 @@ export function extractNotePaths(content: string): string[] {
   const markdownLinks = extractMarkdownLinkPaths(sanitizedContent);
   return [...wikiPaths, ...markdownLinks];
 }
+
+/**
+ * Targets of `![[...]]` embeds, notes and assets alike
+ */
+export function extractEmbedPaths(content: string): string[] {
+  return extractWikiPaths(stripCodeBlocks(content), true);
+}
@@ -1,5 +1,12 @@
 import { describe, expect, test } from "vitest";
-import { ASSET_EXTENSIONS, isAssetFile, isResourceFile, RESOURCE_EXTENSIONS } from "./asset";
+import {
+  ASSET_EXTENSIONS,
+  isAssetFile,
+  isCanvasFile,
+  isDocumentFile,
+  isResourceFile,
+  RESOURCE_EXTENSIONS,
+} from "./asset";
 
 describe("asset utils", () => {
   describe("ASSET_EXTENSIONS", () => {
@@ -70,6 +77,20 @@ describe("asset utils", () => {
     });
   });
 
+  describe("isCanvasFile / isDocumentFile", () => {
+    test("should treat canvases as documents, not assets", () => {
+      expect(isCanvasFile({ extension: "canvas" })).toBe(true);
+      expect(isAssetFile({ extension: "canvas" })).toBe(false);
+      expect(isDocumentFile({ extension: "canvas" })).toBe(true);
+    });
+
+    test("should treat notes as documents and assets as neither", () => {
+      expect(isDocumentFile({ extension: "md" })).toBe(true);
+      expect(isCanvasFile({ extension: "md" })).toBe(false);
+      expect(isDocumentFile({ extension: "png" })).toBe(false);
+    });
+  });
+
   describe("backward compatibility aliases", () => {
     test("RESOURCE_EXTENSIONS should be same as ASSET_EXTENSIONS", () => {
       expect(RESOURCE_EXTENSIONS).toBe(ASSET_EXTENSIONS);
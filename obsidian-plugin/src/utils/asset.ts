@@ -26,3 +26,17 @@ export function isAssetFile(file: FileWithExtension): boolean {
 }
 
 export const isResourceFile = isAssetFile;
+
+/**
+ * Obsidian Canvas (JSON Canvas) files
+ */
+export function isCanvasFile(file: FileWithExtension): boolean {
+  return file.extension.toLowerCase() === "canvas";
+}
+
+/**
+ * Notes and canvases: published as documents with their own ID, unlike assets
+ */
+export function isDocumentFile(file: FileWithExtension): boolean {
+  return file.extension === "md" || isCanvasFile(file);
+}
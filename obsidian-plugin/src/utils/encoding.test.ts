@@ -1,5 +1,5 @@
 import { describe, expect, test } from "vitest";
-import { arrayBufferToBase64 } from "./encoding";
+import { arrayBufferToBase64, bytesToBase64 } from "./encoding";
 
 describe("encoding utils", () => {
   describe("arrayBufferToBase64", () => {
@@ -39,4 +39,32 @@ describe("encoding utils", () => {
       expect(result1).toBe(result2);
     });
   });
+
+  describe("bytesToBase64", () => {
+    const ascii = (value: string) => new TextEncoder().encode(value);
+
+    test("matches the RFC 4648 test vectors", () => {
+      expect(bytesToBase64(ascii(""))).toBe("");
+      expect(bytesToBase64(ascii("f"))).toBe("Zg==");
+      expect(bytesToBase64(ascii("fo"))).toBe("Zm8=");
+      expect(bytesToBase64(ascii("foo"))).toBe("Zm9v");
+      expect(bytesToBase64(ascii("foob"))).toBe("Zm9vYg==");
+      expect(bytesToBase64(ascii("fooba"))).toBe("Zm9vYmE=");
+      expect(bytesToBase64(ascii("foobar"))).toBe("Zm9vYmFy");
+    });
+
+    test("encodes every byte value", () => {
+      const allBytes = Uint8Array.from({ length: 256 }, (_, i) => i);
+      expect(bytesToBase64(allBytes)).toBe(
+        "AAECAwQFBgcICQoLDA0ODxAREhMUFRYXGBkaGxwdHh8gISIjJCUmJygpKissLS4vMDEyMzQ1Njc4OTo7PD0+P0BBQkNERUZHSElKS0xNTk9QUVJTVFVWV1hZWltcXV5fYGFiY2RlZmdoaWprbG1ub3BxcnN0dXZ3eHl6e3x9fn+AgYKDhIWGh4iJiouMjY6PkJGSk5SVlpeYmZqbnJ2en6ChoqOkpaanqKmqq6ytrq+wsbKztLW2t7i5uru8vb6/wMHCw8TFxsfIycrLzM3Oz9DR0tPU1dbX2Nna29zd3t/g4eLj5OXm5+jp6uvs7e7v8PHy8/T19vf4+fr7/P3+/w==",
+      );
+    });
+
+    test("agrees with btoa across chunk boundaries", () => {
+      const bytes = Uint8Array.from({ length: 3 * 16384 + 2 }, (_, i) => (i * 31) & 0xff);
+      let binary = "";
+      for (const byte of bytes) binary += String.fromCharCode(byte);
+      expect(bytesToBase64(bytes)).toBe(btoa(binary));
+    });
+  });
 });
@@ -2,19 +2,59 @@
  * Encoding utilities
  *
  * Pure functions for encoding binary data.
- * No Obsidian dependencies - fully unit-testable.
+ * No Obsidian or Node dependencies (`Buffer` is missing on mobile) - fully unit-testable.
  */
 
+const BASE64_ALPHABET = "ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/";
+
+// Two alphabet characters for each 12-bit value, so the hot loop does two lookups per 3 bytes
+const PAIRS: string[] = Array.from(
+  { length: 4096 },
+  (_, i) => BASE64_ALPHABET[i >> 6] + BASE64_ALPHABET[i & 63],
+);
+
+// Joined in slices to keep intermediate strings small on large assets
+const CHUNK_BYTES = 3 * 16384;
+
+/**
+ * Encode bytes as standard (RFC 4648, padded) base64
+ * @param bytes - Bytes to encode
+ * @returns Base64 encoded string
+ */
+export function bytesToBase64(bytes: Uint8Array): string {
+  const parts: string[] = [];
+  const length = bytes.length;
+  const fullEnd = length - (length % 3);
+
+  for (let start = 0; start < fullEnd; start += CHUNK_BYTES) {
+    const end = Math.min(start + CHUNK_BYTES, fullEnd);
+    let chunk = "";
+    for (let i = start; i < end; i += 3) {
+      const triple = (bytes[i] << 16) | (bytes[i + 1] << 8) | bytes[i + 2];
+      chunk += PAIRS[triple >> 12] + PAIRS[triple & 0xfff];
+    }
+    parts.push(chunk);
+  }
+
+  const remaining = length - fullEnd;
+  if (remaining === 1) {
+    const value = bytes[fullEnd];
+    parts.push(`${BASE64_ALPHABET[value >> 2]}${BASE64_ALPHABET[(value & 0x03) << 4]}==`);
+  } else if (remaining === 2) {
+    const value = (bytes[fullEnd] << 8) | bytes[fullEnd + 1];
+    parts.push(
+      `${BASE64_ALPHABET[value >> 10]}${BASE64_ALPHABET[(value >> 4) & 63]}${BASE64_ALPHABET[(value & 0x0f) << 2]}=`,
+    );
+  }
+
+  return parts.join("");
+}
+
 /**
  * Convert ArrayBuffer to base64 string
  * @param buffer - ArrayBuffer to encode
  * @returns Base64 encoded string
  */
 export async function arrayBufferToBase64(buffer: ArrayBuffer): Promise<string> {
-  const bytes = new Uint8Array(buffer);
-  let binary = "";
-  for (let i = 0; i < bytes.byteLength; i++) {
-    binary += String.fromCharCode(bytes[i]);
-  }
-  return btoa(binary);
+  return bytesToBase64(new Uint8Array(buffer));
 }
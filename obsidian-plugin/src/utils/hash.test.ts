@@ -1,5 +1,5 @@
 import { describe, expect, test } from "vitest";
-import { hashString, md5Hash } from "./hash";
+import { hashString, md5Bytes, md5Hash } from "./hash";
 
 describe("hash utils", () => {
   describe("md5Hash", () => {
@@ -70,4 +70,43 @@ describe("hash utils", () => {
       expect(result).toBe("65396ee4aad0b4f17aacd1c6112ee364");
     });
   });
+
+  describe("md5Bytes", () => {
+    const ascii = (value: string) => new TextEncoder().encode(value);
+    const repeat = (length: number) => new Uint8Array(length).fill(0x61);
+
+    test("matches the RFC 1321 test suite", () => {
+      expect(md5Bytes(ascii("a"))).toBe("0cc175b9c0f1b6a831c399e269772661");
+      expect(md5Bytes(ascii("abc"))).toBe("900150983cd24fb0d6963f7d28e17f72");
+      expect(md5Bytes(ascii("message digest"))).toBe("f96b697d7cb7938d525a2f31aaf161d0");
+      expect(md5Bytes(ascii("abcdefghijklmnopqrstuvwxyz"))).toBe(
+        "c3fcd3d76192e4007dfb496cca67e13b",
+      );
+      expect(
+        md5Bytes(ascii("ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789")),
+      ).toBe("d174ab98d277d9f5a5611c2c9f419d9f");
+      expect(md5Bytes(ascii("1234567890".repeat(8)))).toBe("57edf4a22be3c955ac49da2e2107b67a");
+    });
+
+    test("handles padding around block boundaries", () => {
+      expect(md5Bytes(repeat(55))).toBe("ef1772b6dff9a122358552954ad0df65");
+      expect(md5Bytes(repeat(56))).toBe("3b0c8ac703f828b04c6c197006d17218");
+      expect(md5Bytes(repeat(63))).toBe("b06521f39153d618550606be297466d5");
+      expect(md5Bytes(repeat(64))).toBe("014842d480b571495a4a0363793f7367");
+      expect(md5Bytes(repeat(65))).toBe("c743a45e0d2e6a95cb859adae0248435");
+      expect(md5Bytes(repeat(127))).toBe("020406e1d05cdc2aa287641f7ae2cc39");
+      expect(md5Bytes(repeat(128))).toBe("e510683b3f5ffe4093d021808bc6ff70");
+    });
+
+    test("hashes every byte value and large inputs", () => {
+      const allBytes = Uint8Array.from({ length: 256 }, (_, i) => i);
+      expect(md5Bytes(allBytes)).toBe("e2c865db4162bed963bfaa9ef6ac18f0");
+      expect(md5Bytes(repeat(1_000_000))).toBe("7707d6ae4e027c70eea2a935c2296f21");
+    });
+
+    test("respects the view offset of a subarray", () => {
+      const padded = new Uint8Array([0xff, ...ascii("abc"), 0xff]);
+      expect(md5Bytes(padded.subarray(1, 4))).toBe("900150983cd24fb0d6963f7d28e17f72");
+    });
+  });
 });
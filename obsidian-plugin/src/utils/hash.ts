@@ -1,11 +1,125 @@
 /**
  * Hash utilities
  *
- * Pure functions for hashing data using Node crypto.
+ * Pure TypeScript MD5 (RFC 1321). Web Crypto has no MD5 and `node:crypto`
+ * is missing on Obsidian mobile, so the digest is computed by hand.
  * No Obsidian dependencies - fully unit-testable.
  */
 
-import { createHash } from "node:crypto";
+// Per-round left-rotate amounts
+const S = [
+  7, 12, 17, 22, 7, 12, 17, 22, 7, 12, 17, 22, 7, 12, 17, 22, 5, 9, 14, 20, 5, 9, 14, 20, 5, 9, 14,
+  20, 5, 9, 14, 20, 4, 11, 16, 23, 4, 11, 16, 23, 4, 11, 16, 23, 4, 11, 16, 23, 6, 10, 15, 21, 6,
+  10, 15, 21, 6, 10, 15, 21, 6, 10, 15, 21,
+];
+
+// Round constants from RFC 1321, written out rather than derived from
+// Math.sin, whose precision varies between JavaScript engines
+const K = Int32Array.from([
+  0xd76aa478, 0xe8c7b756, 0x242070db, 0xc1bdceee, 0xf57c0faf, 0x4787c62a, 0xa8304613, 0xfd469501,
+  0x698098d8, 0x8b44f7af, 0xffff5bb1, 0x895cd7be, 0x6b901122, 0xfd987193, 0xa679438e, 0x49b40821,
+  0xf61e2562, 0xc040b340, 0x265e5a51, 0xe9b6c7aa, 0xd62f105d, 0x02441453, 0xd8a1e681, 0xe7d3fbc8,
+  0x21e1cde6, 0xc33707d6, 0xf4d50d87, 0x455a14ed, 0xa9e3e905, 0xfcefa3f8, 0x676f02d9, 0x8d2a4c8a,
+  0xfffa3942, 0x8771f681, 0x6d9d6122, 0xfde5380c, 0xa4beea44, 0x4bdecfa9, 0xf6bb4b60, 0xbebfbc70,
+  0x289b7ec6, 0xeaa127fa, 0xd4ef3085, 0x04881d05, 0xd9d4d039, 0xe6db99e5, 0x1fa27cf8, 0xc4ac5665,
+  0xf4292244, 0x432aff97, 0xab9423a7, 0xfc93a039, 0x655b59c3, 0x8f0ccc92, 0xffeff47d, 0x85845dd1,
+  0x6fa87e4f, 0xfe2ce6e0, 0xa3014314, 0x4e0811a1, 0xf7537e82, 0xbd3af235, 0x2ad7d2bb, 0xeb86d391,
+]);
+
+const HEX = Array.from({ length: 256 }, (_, i) => i.toString(16).padStart(2, "0"));
+
+/**
+ * Compress one 64-byte block into the running state
+ */
+function md5Block(state: Int32Array, words: Int32Array): void {
+  let a = state[0];
+  let b = state[1];
+  let c = state[2];
+  let d = state[3];
+
+  for (let i = 0; i < 64; i++) {
+    let f: number;
+    let g: number;
+    if (i < 16) {
+      f = (b & c) | (~b & d);
+      g = i;
+    } else if (i < 32) {
+      f = (d & b) | (~d & c);
+      g = (5 * i + 1) & 15;
+    } else if (i < 48) {
+      f = b ^ c ^ d;
+      g = (3 * i + 5) & 15;
+    } else {
+      f = c ^ (b | ~d);
+      g = (7 * i) & 15;
+    }
+    const sum = (a + f + K[i] + words[g]) | 0;
+    a = d;
+    d = c;
+    c = b;
+    b = (b + ((sum << S[i]) | (sum >>> (32 - S[i])))) | 0;
+  }
+
+  state[0] = (state[0] + a) | 0;
+  state[1] = (state[1] + b) | 0;
+  state[2] = (state[2] + c) | 0;
+  state[3] = (state[3] + d) | 0;
+}
+
+function readWords(bytes: Uint8Array, offset: number, words: Int32Array): void {
+  for (let i = 0; i < 16; i++) {
+    const j = offset + i * 4;
+    words[i] = bytes[j] | (bytes[j + 1] << 8) | (bytes[j + 2] << 16) | (bytes[j + 3] << 24);
+  }
+}
+
+/**
+ * Compute the MD5 digest of raw bytes
+ * @param bytes - Input bytes
+ * @returns Hex-encoded MD5 hash (32 characters)
+ */
+export function md5Bytes(bytes: Uint8Array): string {
+  const state = new Int32Array([0x67452301, 0xefcdab89 | 0, 0x98badcfe | 0, 0x10325476]);
+  const words = new Int32Array(16);
+  const length = bytes.length;
+
+  // Full blocks are read in place; only the padded tail is copied.
+  const fullBlocksEnd = length - (length % 64);
+  for (let offset = 0; offset < fullBlocksEnd; offset += 64) {
+    readWords(bytes, offset, words);
+    md5Block(state, words);
+  }
+
+  const remaining = length - fullBlocksEnd;
+  const tail = new Uint8Array(remaining < 56 ? 64 : 128);
+  tail.set(bytes.subarray(fullBlocksEnd));
+  tail[remaining] = 0x80;
+
+  // Message length in bits, little-endian, in the last 8 bytes
+  const bitLengthLow = (length * 8) >>> 0;
+  const bitLengthHigh = Math.floor(length / 0x20000000);
+  const lengthOffset = tail.length - 8;
+  for (let i = 0; i < 4; i++) {
+    tail[lengthOffset + i] = (bitLengthLow >>> (i * 8)) & 0xff;
+    tail[lengthOffset + 4 + i] = (bitLengthHigh >>> (i * 8)) & 0xff;
+  }
+
+  for (let offset = 0; offset < tail.length; offset += 64) {
+    readWords(tail, offset, words);
+    md5Block(state, words);
+  }
+
+  let hex = "";
+  for (let i = 0; i < 4; i++) {
+    const word = state[i];
+    hex +=
+      HEX[word & 0xff] +
+      HEX[(word >>> 8) & 0xff] +
+      HEX[(word >>> 16) & 0xff] +
+      HEX[(word >>> 24) & 0xff];
+  }
+  return hex;
+}
 
 /**
  * Compute MD5 hash of an ArrayBuffer
@@ -13,9 +127,7 @@ import { createHash } from "node:crypto";
  * @returns Hex-encoded MD5 hash (32 characters)
  */
 export async function md5Hash(buffer: ArrayBuffer): Promise<string> {
-  const hash = createHash("md5");
-  hash.update(new Uint8Array(buffer));
-  return hash.digest("hex");
+  return md5Bytes(new Uint8Array(buffer));
 }
 
 /**
@@ -25,6 +137,5 @@ export async function md5Hash(buffer: ArrayBuffer): Promise<string> {
  */
 export async function hashString(str: string): Promise<string> {
   const encoder = new TextEncoder();
-  const data = encoder.encode(str);
-  return md5Hash(data.buffer);
+  return md5Bytes(encoder.encode(str));
 }
@@ -2,10 +2,13 @@ export {
   ASSET_EXTENSIONS,
   type FileWithExtension,
   isAssetFile,
+  isCanvasFile,
+  isDocumentFile,
   isResourceFile,
   RESOURCE_EXTENSIONS,
 } from "./asset";
-export { extractAssetPaths, extractNotePaths } from "./asset-links";
-export { arrayBufferToBase64 } from "./encoding";
-export { hashString, md5Hash } from "./hash";
+export { extractAssetPaths, extractEmbedPaths, extractNotePaths } from "./asset-links";
+export { arrayBufferToBase64, bytesToBase64 } from "./encoding";
+export { hashString, md5Bytes, md5Hash } from "./hash";
+export { type DiffLine, type DiffLineType, diffLines } from "./line-diff";
 export { getContentType, MIME_TYPES } from "./mime";
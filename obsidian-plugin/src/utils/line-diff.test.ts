@@ -0,0 +1,29 @@
+import { describe, expect, test } from "vitest";
+import { diffLines } from "./line-diff";
+
+const render = (before: string, after: string) =>
+  diffLines(before, after).map(({ type, text }) =>
+    type === "same" ? `  ${text}` : type === "add" ? `+ ${text}` : `- ${text}`,
+  );
+
+describe("diffLines", () => {
+  test("returns unchanged lines for equal texts", () => {
+    expect(render("a\nb", "a\nb")).toEqual(["  a", "  b"]);
+  });
+
+  test("marks replaced, added and removed lines", () => {
+    expect(render("title\nold\nkeep\ngone", "title\nnew\nkeep\nextra\n")).toEqual([
+      "  title",
+      "- old",
+      "+ new",
+      "  keep",
+      "- gone",
+      "+ extra",
+      "+ ",
+    ]);
+  });
+
+  test("handles one side being empty", () => {
+    expect(render("", "a")).toEqual(["- ", "+ a"]);
+  });
+});
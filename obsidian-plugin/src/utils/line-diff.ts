@@ -0,0 +1,77 @@
+/**
+ * Line diff utilities
+ *
+ * Minimal line-based diff (longest common subsequence) for showing two
+ * versions of a note side by side in a conflict prompt.
+ * No Obsidian dependencies - fully unit-testable.
+ */
+
+export type DiffLineType = "same" | "add" | "remove";
+
+export interface DiffLine {
+  type: DiffLineType;
+  text: string;
+}
+
+// Above this many LCS cells the changed middle is shown as a full replacement.
+const MAX_LCS_CELLS = 4_000_000;
+
+/**
+ * Diff two texts line by line; "remove" lines come from `before`, "add" from `after`
+ */
+export function diffLines(before: string, after: string): DiffLine[] {
+  const a = before.split("\n");
+  const b = after.split("\n");
+
+  let start = 0;
+  while (start < a.length && start < b.length && a[start] === b[start]) start++;
+  let endA = a.length;
+  let endB = b.length;
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+    endA--;
+    endB--;
+  }
+
+  const same = (text: string): DiffLine => ({ type: "same", text });
+  return [
+    ...a.slice(0, start).map(same),
+    ...diffMiddle(a.slice(start, endA), b.slice(start, endB)),
+    ...a.slice(endA).map(same),
+  ];
+}
+
+function diffMiddle(a: string[], b: string[]): DiffLine[] {
+  const remove = (text: string): DiffLine => ({ type: "remove", text });
+  const add = (text: string): DiffLine => ({ type: "add", text });
+  if (a.length === 0 || b.length === 0 || a.length * b.length > MAX_LCS_CELLS) {
+    return [...a.map(remove), ...b.map(add)];
+  }
+
+  // lengths[i * cols + j] = LCS length of a[i..] and b[j..]
+  const cols = b.length + 1;
+  const lengths = new Uint32Array((a.length + 1) * cols);
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lengths[i * cols + j] =
+        a[i] === b[j]
+          ? lengths[(i + 1) * cols + j + 1] + 1
+          : Math.max(lengths[(i + 1) * cols + j], lengths[i * cols + j + 1]);
+    }
+  }
+
+  const lines: DiffLine[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      lines.push({ type: "same", text: a[i] });
+      i++;
+      j++;
+    } else if (lengths[(i + 1) * cols + j] >= lengths[i * cols + j + 1]) {
+      lines.push(remove(a[i++]));
+    } else {
+      lines.push(add(b[j++]));
+    }
+  }
+  return [...lines, ...a.slice(i).map(remove), ...b.slice(j).map(add)];
+}
@@ -1,5 +1,5 @@
 import { describe, expect, test } from "vitest";
-import { extractNotePaths } from "./asset-links";
+import { extractEmbedPaths, extractNotePaths } from "./asset-links";
 
 describe("extractNotePaths", () => {
   test("extracts wiki links and strips section anchors", () => {
@@ -22,3 +22,10 @@ describe("extractNotePaths", () => {
     expect(extractNotePaths(input)).toEqual(["Real"]);
   });
 });
+
+describe("extractEmbedPaths", () => {
+  test("extracts only embeds, notes and assets alike", () => {
+    const input = "[[Linked]] ![[Embedded#Heading|Alias]] ![[image.png]] `![[Code]]`";
+    expect(extractEmbedPaths(input)).toEqual(["Embedded", "image.png"]);
+  });
+});
@@ -141,6 +141,10 @@
     :local-path (or (getenv "LOCAL_STORAGE_PATH")
                     (.getPath (io/file (data-path) "storage")))}
 
+   :uploads
+   {:path (or (getenv "UPLOAD_TMP_PATH")
+              (.getPath (io/file (data-path) "uploads")))}
+
    :environment
    (keyword (or (getenv "ENVIRONMENT") "development"))})
 
@@ -165,6 +169,11 @@
 (defn s3-enabled? []
   (some? (:endpoint (s3-config))))
 
+(defn upload-tmp-path
+  "Directory for in-progress chunked asset uploads."
+  []
+  (get-config :uploads :path))
+
 (defn storage-config []
   (get-config :storage))
 
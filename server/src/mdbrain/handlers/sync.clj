@@ -3,19 +3,27 @@
 
    Endpoints:
    - POST /obsidian/sync/changes
+   - POST /obsidian/sync/changes/plan
    - POST /obsidian/sync/notes/{id}
-   - POST /obsidian/sync/assets/{id}"
+   - DELETE /obsidian/sync/notes/{id}
+   - POST /obsidian/sync/assets/{id}
+   - PUT  /obsidian/sync/assets/{id}/content
+   - POST /obsidian/sync/uploads (+ GET/PUT /{upload-id}, POST /{upload-id}/commit)"
   (:require [mdbrain.config :as config]
             [mdbrain.db :as db]
             [mdbrain.object-store :as object-store]
             [mdbrain.response :as resp]
+            [mdbrain.upload-sessions :as uploads]
             [mdbrain.link-parser :as link-parser]
             [mdbrain.utils :as utils]
+            [mdbrain.utils.crypto :as crypto]
+            [mdbrain.utils.stream :as utils.stream]
             [clojure.data.json :as json]
             [clojure.string :as str]
             [clojure.set :as set]
             [clojure.tools.logging :as log])
-  (:import (java.util Base64)))
+  (:import (java.nio.file Files)
+           (java.util Base64)))
 
 ;; =============================================================================
 ;; Auth Helpers
@@ -96,6 +104,29 @@
                 {:vault-id (:id vault)
                  :error (.getMessage e)}))))
 
+(defn- note-conflict
+  "Conflict details when the client edited a different version than the one
+   stored: `base-hash` is the hash the client last published or fetched. No
+   base hash (older clients, first publish) or no stored note never conflicts."
+  [existing base-hash note-hash]
+  (when (and existing
+             (not (str/blank? base-hash))
+             (not= (:hash existing) base-hash)
+             (not= (:hash existing) note-hash))
+    {:server_hash (:hash existing)
+     :server_path (:path existing)
+     :server_content (:content existing)}))
+
+(def ^:private document-types
+  "Documents stored as notes; canvases hold JSON Canvas content."
+  #{"note" "canvas"})
+
+(defn- document-metadata
+  "Metadata to store for a document; non-note documents are marked with their type."
+  [doc-type metadata]
+  (cond-> metadata
+    (and doc-type (not= doc-type "note")) (assoc :type doc-type)))
+
 (defn- normalize-hash-entry [entry]
   {:id (:id entry)
    :hash (:hash entry)})
@@ -110,6 +141,26 @@
   (when (some? value)
     (str value)))
 
+(def capabilities
+  "Optional protocol features advertised through /obsidian/vault/info."
+  ["asset-binary" "asset-chunked"])
+
+(def ^:private upload-chunk-size
+  "Suggested chunk size for resumable uploads (bytes)."
+  (* 4 1024 1024))
+
+(defn- parse-long-param
+  [value]
+  (cond
+    (number? value) (long value)
+    (string? value) (parse-long (str/trim value))
+    :else nil))
+
+(defn- media-type
+  "Content-Type header without parameters such as charset."
+  [content-type]
+  (some-> content-type (str/split #";") first str/trim not-empty))
+
 (defn- upsert-note-with-links!
   [tenant-id vault-id note-id path content hash metadata]
   (let [metadata-str (when metadata (json/write-str metadata))]
@@ -194,78 +245,149 @@
 ;; Handlers
 ;; =============================================================================
 
+(defn- diff-entries
+  "Compare client {:id :hash} entries with server {:id :hash :path} entries.
+
+   :upsert is every client entry the server lacks or has with another hash,
+   split into :add (unknown id) and :update; :delete is every server entry
+   missing from the client snapshot."
+  [client-entries server-entries]
+  (let [client-map (into {} (map (juxt :id :hash) client-entries))
+        server-by-id (into {} (map (juxt :id identity) server-entries))
+        upsert (->> client-map
+                    (filter (fn [[id hash]]
+                              (not= hash (get-in server-by-id [id :hash]))))
+                    (mapv (fn [[id hash]] {:id id :hash hash})))]
+    {:server-count (count server-entries)
+     :upsert upsert
+     :add (filterv #(not (contains? server-by-id (:id %))) upsert)
+     :update (filterv #(contains? server-by-id (:id %)) upsert)
+     :delete (filterv #(not (contains? client-map (:id %))) server-entries)}))
+
+(defn- changes-plan
+  "Diff a client snapshot against the vault without changing anything."
+  [vault-id notes assets]
+  {:notes (diff-entries (map normalize-hash-entry (or notes []))
+                        (map (fn [note]
+                               {:id (:client-id note)
+                                :hash (:hash note)
+                                :path (:path note)})
+                             (db/list-notes-by-vault vault-id)))
+   :assets (diff-entries (map normalize-hash-entry (or assets []))
+                         (map (fn [asset]
+                                {:id (:client-id asset)
+                                 :hash (:md5 asset)
+                                 :path (:path asset)})
+                              (db/list-assets-by-vault vault-id)))})
+
+(defn- deletion-guard-violation
+  "Check planned note deletions against a client-supplied guard
+   {max_notes, max_percent}. Non-positive or missing limits are ignored.
+   Returns the violation details, or nil when the plan is within limits."
+  [guard plan]
+  (when (map? guard)
+    (let [max-notes (parse-long-param (:max_notes guard))
+          max-percent (:max_percent guard)
+          max-percent (when (number? max-percent) max-percent)
+          to-delete (count (get-in plan [:notes :delete]))
+          on-server (get-in plan [:notes :server-count])
+          percent (if (pos? on-server) (* 100.0 (/ to-delete on-server)) 0.0)]
+      (when (or (and max-notes (pos? max-notes) (> to-delete max-notes))
+                (and max-percent (pos? max-percent) (> percent max-percent)))
+        {:notes_to_delete to-delete
+         :notes_on_server on-server
+         :max_notes max-notes
+         :max_percent max-percent}))))
+
+(defn- hash-entries
+  [entries]
+  (mapv #(select-keys % [:id :hash]) entries))
+
 (defn sync-changes
   "POST /obsidian/sync/changes
 
    Request body:
    {
      notes: [{id: \"...\", hash: \"...\"}],
-     assets: [{id: \"...\", hash: \"...\"}]
+     assets: [{id: \"...\", hash: \"...\"}],
+     deletion_guard: {max_notes: 20, max_percent: 50}   (optional)
    }
 
    Response body:
    {
      need_upsert: {notes: [...], assets: [...]},
      deleted_on_server: {notes: [...], assets: [...]}
-   }"
+   }
+
+   When the snapshot would delete more notes than `deletion_guard` allows,
+   nothing is changed and the response is 409 with the violation details."
   [request]
   (let [{:keys [ok vault response]} (require-auth request)]
     (if-not ok
       response
       (try
         (let [vault-id (:id vault)
-              {:keys [notes assets]} (:body-params request)
-              client-notes (map normalize-hash-entry (or notes []))
-              client-assets (map normalize-hash-entry (or assets []))
-              client-note-map (into {} (map (juxt :id :hash) client-notes))
-              client-asset-map (into {} (map (juxt :id :hash) client-assets))
-              server-notes (db/list-notes-by-vault vault-id)
-              server-assets (db/list-assets-by-vault vault-id)
-              server-note-map (into {} (map (juxt :client-id :hash) server-notes))
-              server-asset-map (into {} (map (juxt :client-id :md5) server-assets))
-              notes-to-delete (->> server-note-map
-                                   (remove (fn [[id _]] (contains? client-note-map id)))
-                                   (map (fn [[id hash]] {:id id :hash hash})))
-              assets-to-delete (->> server-asset-map
-                                    (remove (fn [[id _]] (contains? client-asset-map id)))
-                                    (map (fn [[id hash]] {:id id :hash hash})))
-              notes-to-upsert (->> client-note-map
-                                   (filter (fn [[id hash]]
-                                             (not= hash (get server-note-map id))))
-                                   (map (fn [[id hash]] {:id id :hash hash})))
-              assets-to-upsert (->> client-asset-map
-                                    (filter (fn [[id hash]]
-                                              (not= hash (get server-asset-map id))))
-                                    (map (fn [[id hash]] {:id id :hash hash})))
-              response (do
-                         (doseq [{:keys [id]} notes-to-delete]
-                           (delete-note! vault-id id))
-                         (doseq [{:keys [id]} assets-to-delete]
-                           (delete-asset! vault-id id))
-                         (resp/ok {:need_upsert {:notes (vec notes-to-upsert)
-                                                 :assets (vec assets-to-upsert)}
-                                   :deleted_on_server {:notes (vec notes-to-delete)
-                                                       :assets (vec assets-to-delete)}}))]
+              {:keys [notes assets deletion_guard]} (:body-params request)
+              plan (changes-plan vault-id notes assets)
+              violation (deletion-guard-violation deletion_guard plan)
+              response (if violation
+                         (assoc-in (resp/error 409 "Publish would delete too many notes")
+                                   [:body :deletion_guard] violation)
+                         (do
+                           (doseq [{:keys [id]} (get-in plan [:notes :delete])]
+                             (delete-note! vault-id id))
+                           (doseq [{:keys [id]} (get-in plan [:assets :delete])]
+                             (delete-asset! vault-id id))
+                           (resp/ok {:need_upsert {:notes (get-in plan [:notes :upsert])
+                                                   :assets (get-in plan [:assets :upsert])}
+                                     :deleted_on_server {:notes (hash-entries (get-in plan [:notes :delete]))
+                                                         :assets (hash-entries (get-in plan [:assets :delete]))}})))]
           (record-publish-result! vault response))
         (catch Exception e
           (record-publish-exception! vault e)
           (throw e))))))
 
+(defn sync-changes-plan
+  "POST /obsidian/sync/changes/plan
+
+   Same request body as sync-changes, but nothing is deleted. Returns what a
+   publish of this snapshot would do (deletions include the server path):
+   {
+     notes: {add: [...], update: [...], delete: [{id, hash, path}]},
+     assets: {add: [...], update: [...], delete: [{id, hash, path}]},
+     deletion_guard: {...}   (only when the guard would reject the publish)
+   }"
+  [request]
+  (let [{:keys [ok vault response]} (require-auth request)]
+    (if-not ok
+      response
+      (let [{:keys [notes assets deletion_guard]} (:body-params request)
+            plan (changes-plan (:id vault) notes assets)
+            violation (deletion-guard-violation deletion_guard plan)]
+        (resp/ok (cond-> {:notes (select-keys (:notes plan) [:add :update :delete])
+                          :assets (select-keys (:assets plan) [:add :update :delete])}
+                   violation (assoc :deletion_guard violation)))))))
+
 (defn sync-note
   "POST /obsidian/sync/notes/{id}
 
    Request body:
    {
+     type: \"note\" | \"canvas\"   (optional, defaults to note),
      path: \"...\",
      content: \"...\",
      hash: \"...\",
      metadata: {...},
      assets: [{id: \"...\", hash: \"...\"}],
-     linked_notes: [{id: \"...\", hash: \"...\"}]
+     linked_notes: [{id: \"...\", hash: \"...\"}],
+     base_hash: \"...\"   (optional)
    }
 
    Behavior:
-   - Upserts the note + parsed note links
+   - Responds 409 with {conflict: {server_hash, server_path, server_content}}
+     when base_hash is given and the stored note has a different hash
+   - Upserts the note + parsed note links; a canvas is stored the same way,
+     with its type in the metadata
    - Syncs note_asset_refs (and removes orphan assets)
    - Returns missing assets/linked notes based on server state
 
@@ -284,13 +406,17 @@
         (let [vault-id (:id vault)
               tenant-id (:tenant-id vault)
               note-id (get-in request [:path-params :id])
-              {:keys [path content hash metadata assets linked_notes]} (:body-params request)
+              {doc-type :type
+               :keys [path content hash metadata assets linked_notes base_hash]} (:body-params request)
               note-path (ensure-string path)
               note-hash (ensure-string hash)
               response (cond
                          (str/blank? note-id)
                          (resp/bad-request "Missing note id")
 
+                         (and (some? doc-type) (not (contains? document-types doc-type)))
+                         (resp/bad-request "Unknown document type")
+
                          (str/blank? note-path)
                          (resp/bad-request "Missing note path")
 
@@ -309,11 +435,20 @@
                          :else
                          (let [existing (db/get-note-by-client-id vault-id note-id)
                                existing-hash (:hash existing)
-                               existing-path (:path existing)]
-                           (if (and existing (= existing-hash note-hash) (= existing-path note-path))
+                               existing-path (:path existing)
+                               conflict (note-conflict existing (ensure-string base_hash) note-hash)]
+                           (cond
+                             (and existing (= existing-hash note-hash) (= existing-path note-path))
                              (resp/ok {:status "skipped" :noteId note-id})
+
+                             conflict
+                             (assoc-in (resp/error 409 "Note was changed on the server")
+                                       [:body :conflict] conflict)
+
+                             :else
                              (do
-                               (upsert-note-with-links! tenant-id vault-id note-id note-path content note-hash metadata)
+                               (upsert-note-with-links! tenant-id vault-id note-id note-path content note-hash
+                                                        (document-metadata doc-type metadata))
                                (let [asset-entries assets
                                      asset-ids (mapv :id asset-entries)
                                      linked-entries (mapv normalize-hash-entry linked_notes)
@@ -349,20 +484,178 @@
           (record-publish-exception! vault e)
           (throw e))))))
 
-(defn sync-asset
-  "POST /obsidian/sync/assets/{id}"
+(defn sync-delete-note
+  "DELETE /obsidian/sync/notes/{id}
+
+   Removes one note with its links and asset references; assets no other note
+   references are deleted too. Lets a client take a single note down without
+   sending a full snapshot.
+
+   Response body:
+   {status: \"deleted\" | \"missing\", noteId: \"...\"}"
   [request]
   (let [{:keys [ok vault response]} (require-auth request)]
     (if-not ok
       response
       (try
         (let [vault-id (:id vault)
-              tenant-id (:tenant-id vault)
-              asset-id (get-in request [:path-params :id])
+              note-id (get-in request [:path-params :id])
+              response (cond
+                         (str/blank? note-id)
+                         (resp/bad-request "Missing note id")
+
+                         (nil? (db/get-note-by-client-id vault-id note-id))
+                         (resp/ok {:status "missing" :noteId note-id})
+
+                         :else
+                         (do
+                           (update-note-asset-refs! vault-id note-id [])
+                           (delete-note! vault-id note-id)
+                           (resp/ok {:status "deleted" :noteId note-id})))]
+          (record-publish-result! vault response))
+        (catch Exception e
+          (record-publish-exception! vault e)
+          (throw e))))))
+
+(defn- store-asset!
+  "Validate asset fields, skip unchanged assets, otherwise store the bytes
+   returned by `read-content` (called lazily so skipped uploads are never read)."
+  [vault asset-id {:keys [path size hash content-type]} read-content]
+  (let [vault-id (:id vault)
+        tenant-id (:tenant-id vault)
+        asset-path (ensure-string path)
+        asset-hash (ensure-string hash)
+        asset-content-type (ensure-string content-type)]
+    (cond
+      (str/blank? asset-id)
+      (resp/bad-request "Missing asset id")
+
+      (str/blank? asset-path)
+      (resp/bad-request "Missing asset path")
+
+      (str/blank? asset-hash)
+      (resp/bad-request "Missing asset hash")
+
+      (str/blank? asset-content-type)
+      (resp/bad-request "Missing asset contentType")
+
+      :else
+      (let [existing (db/get-asset-by-client-id vault-id asset-id)
+            existing-hash (:md5 existing)
+            existing-path (:path existing)]
+        (if (and existing
+                 (= existing-hash asset-hash)
+                 (= existing-path asset-path))
+          (do
+            (when (config/development?)
+              (log/debug "sync-asset skipped"
+                         {:vault-id vault-id
+                          :asset-id asset-id
+                          :path asset-path
+                          :hash asset-hash}))
+            (resp/ok {:status "skipped" :assetId asset-id}))
+          (let [content-bytes (read-content)]
+            (if (nil? content-bytes)
+              (resp/bad-request "Missing asset content")
+              (let [extension (object-store/extension-from-path asset-path)
+                    object-key (object-store/asset-object-key asset-id extension)
+                    asset-size (or size (alength ^bytes content-bytes))]
+                (when (config/development?)
+                  (log/debug "sync-asset stored"
+                             {:vault-id vault-id
+                              :asset-id asset-id
+                              :path asset-path
+                              :hash asset-hash
+                              :object-key object-key
+                              :size asset-size}))
+                (object-store/put-object! vault-id object-key content-bytes asset-content-type)
+                (db/upsert-asset! (utils/generate-uuid)
+                                  tenant-id vault-id asset-id asset-path object-key
+                                  asset-size asset-content-type asset-hash)
+                (resp/ok {:status "stored" :assetId asset-id})))))))))
+
+(defn sync-asset
+  "POST /obsidian/sync/assets/{id}
+
+   Request body (JSON):
+   {path, contentType, size, hash, content: \"<base64>\"}"
+  [request]
+  (let [{:keys [ok vault response]} (require-auth request)]
+    (if-not ok
+      response
+      (try
+        (let [asset-id (get-in request [:path-params :id])
               {:keys [path contentType size hash content]} (:body-params request)
+              response (store-asset! vault asset-id
+                                     {:path path
+                                      :size size
+                                      :hash hash
+                                      :content-type contentType}
+                                     #(decode-base64 content))]
+          (record-publish-result! vault response))
+        (catch Exception e
+          (record-publish-exception! vault e)
+          (throw e))))))
+
+(defn sync-asset-content
+  "PUT /obsidian/sync/assets/{id}/content?path=...&hash=...&size=...
+
+   Binary variant of sync-asset: the raw request body is the asset and the
+   Content-Type header is its media type. Avoids the base64 overhead."
+  [request]
+  (let [{:keys [ok vault response]} (require-auth request)]
+    (if-not ok
+      response
+      (try
+        (let [asset-id (get-in request [:path-params :id])
+              params (:query-params request)
+              body (:body request)
+              response (store-asset! vault asset-id
+                                     {:path (get params "path")
+                                      :size (parse-long-param (get params "size"))
+                                      :hash (get params "hash")
+                                      :content-type (media-type (get-in request [:headers "content-type"]))}
+                                     #(when body (utils.stream/input-stream->bytes body)))]
+          (record-publish-result! vault response))
+        (catch Exception e
+          (record-publish-exception! vault e)
+          (throw e))))))
+
+;; =============================================================================
+;; Resumable Uploads
+;; =============================================================================
+
+(defn- upload-session-response
+  [{:keys [upload-id offset size]}]
+  {:status "pending"
+   :uploadId upload-id
+   :offset offset
+   :size size
+   :chunkSize upload-chunk-size})
+
+(defn sync-upload-init
+  "POST /obsidian/sync/uploads
+
+   Request body (JSON):
+   {id, path, contentType, size, hash}
+
+   Starts (or resumes) a chunked upload. Returns {status: \"skipped\"} when the
+   server already has this asset version, otherwise
+   {status: \"pending\", uploadId, offset, size, chunkSize}."
+  [request]
+  (let [{:keys [ok vault response]} (require-auth request)]
+    (if-not ok
+      response
+      (try
+        (let [vault-id (:id vault)
+              {:keys [id path contentType size hash]} (:body-params request)
+              asset-id (ensure-string id)
               asset-path (ensure-string path)
               asset-hash (ensure-string hash)
               asset-content-type (ensure-string contentType)
+              asset-size (parse-long-param size)
+              existing (when-not (str/blank? asset-id)
+                         (db/get-asset-by-client-id vault-id asset-id))
               response (cond
                          (str/blank? asset-id)
                          (resp/bad-request "Missing asset id")
@@ -376,40 +669,112 @@
                          (str/blank? asset-content-type)
                          (resp/bad-request "Missing asset contentType")
 
+                         (or (nil? asset-size) (neg? asset-size))
+                         (resp/bad-request "Missing asset size")
+
+                         (and existing
+                              (= (:md5 existing) asset-hash)
+                              (= (:path existing) asset-path))
+                         (resp/ok {:status "skipped" :assetId asset-id})
+
                          :else
-                         (let [existing (db/get-asset-by-client-id vault-id asset-id)
-                               existing-hash (:md5 existing)
-                               existing-path (:path existing)]
-                           (if (and existing
-                                    (= existing-hash asset-hash)
-                                    (= existing-path asset-path))
-                             (do
-                               (when (config/development?)
-                                 (log/debug "sync-asset skipped"
-                                            {:vault-id vault-id
-                                             :asset-id asset-id
-                                             :path asset-path
-                                             :hash asset-hash}))
-                               (resp/ok {:status "skipped" :assetId asset-id}))
-                             (let [content-bytes (decode-base64 content)]
-                               (if (nil? content-bytes)
-                                 (resp/bad-request "Missing asset content")
-                                 (let [extension (object-store/extension-from-path asset-path)
-                                       object-key (object-store/asset-object-key asset-id extension)
-                                       asset-size (or size (alength ^bytes content-bytes))]
-                                   (when (config/development?)
-                                     (log/debug "sync-asset stored"
-                                                {:vault-id vault-id
-                                                 :asset-id asset-id
-                                                 :path asset-path
-                                                 :hash asset-hash
-                                                 :object-key object-key
-                                                 :size asset-size}))
-                                   (object-store/put-object! vault-id object-key content-bytes asset-content-type)
-                                   (db/upsert-asset! (utils/generate-uuid)
-                                                     tenant-id vault-id asset-id asset-path object-key
-                                                     asset-size asset-content-type asset-hash)
-                                   (resp/ok {:status "stored" :assetId asset-id})))))))]
+                         (resp/ok (upload-session-response
+                                   (uploads/open-session! vault-id
+                                                          {:asset-id asset-id
+                                                           :path asset-path
+                                                           :content-type asset-content-type
+                                                           :size asset-size
+                                                           :hash asset-hash}))))]
+          (record-publish-result! vault response))
+        (catch Exception e
+          (record-publish-exception! vault e)
+          (throw e))))))
+
+(defn sync-upload-status
+  "GET /obsidian/sync/uploads/{upload-id}
+
+   Returns the number of bytes received so far, so clients can resume."
+  [request]
+  (let [{:keys [ok vault response]} (require-auth request)]
+    (if-not ok
+      response
+      (if-let [session (uploads/get-session (:id vault)
+                                            (get-in request [:path-params :upload-id]))]
+        (resp/ok (upload-session-response session))
+        (resp/not-found "Upload not found")))))
+
+(defn sync-upload-chunk
+  "PUT /obsidian/sync/uploads/{upload-id}?offset=N
+
+   Raw request body is appended at `offset`. Responds 409 with the current
+   offset when it does not match what the server has received."
+  [request]
+  (let [{:keys [ok vault response]} (require-auth request)]
+    (if-not ok
+      response
+      (let [upload-id (get-in request [:path-params :upload-id])
+            offset (parse-long-param (get-in request [:query-params "offset"]))
+            body (:body request)]
+        (cond
+          (nil? offset)
+          (resp/bad-request "Missing offset")
+
+          (nil? body)
+          (resp/bad-request "Missing chunk content")
+
+          :else
+          (let [result (uploads/append-chunk! (:id vault) upload-id offset body)]
+            (if (:ok result)
+              (resp/ok {:uploadId upload-id :offset (:offset result)})
+              (case (:reason result)
+                :not-found (resp/not-found "Upload not found")
+                :offset-mismatch (assoc-in (resp/error 409 "Offset mismatch")
+                                           [:body :offset] (:offset result))
+                :too-large (resp/bad-request "Chunk exceeds declared size")))))))))
+
+(defn sync-upload-commit
+  "POST /obsidian/sync/uploads/{upload-id}/commit
+
+   Request body (JSON): {hash}
+
+   Verifies size and MD5 of the received bytes, stores the asset and removes
+   the session. Responds like sync-asset."
+  [request]
+  (let [{:keys [ok vault response]} (require-auth request)]
+    (if-not ok
+      response
+      (try
+        (let [vault-id (:id vault)
+              upload-id (get-in request [:path-params :upload-id])
+              final-hash (ensure-string (get-in request [:body-params :hash]))
+              {:keys [asset-id path content-type size hash offset] :as session}
+              (uploads/get-session vault-id upload-id)
+              data (uploads/data-file vault-id upload-id)
+              response (cond
+                         (nil? session)
+                         (resp/not-found "Upload not found")
+
+                         (not= final-hash hash)
+                         (resp/bad-request "Upload hash does not match")
+
+                         (not= offset size)
+                         (assoc-in (resp/error 409 "Upload incomplete")
+                                   [:body :offset] offset)
+
+                         (not= hash (crypto/md5-file-hex data))
+                         (do
+                           (uploads/delete-session! vault-id upload-id)
+                           (resp/bad-request "Uploaded content does not match hash"))
+
+                         :else
+                         (let [result (store-asset! vault asset-id
+                                                    {:path path
+                                                     :size size
+                                                     :hash hash
+                                                     :content-type content-type}
+                                                    #(Files/readAllBytes (.toPath data)))]
+                           (uploads/delete-session! vault-id upload-id)
+                           result))]
           (record-publish-result! vault response))
         (catch Exception e
           (record-publish-exception! vault e)
@@ -422,4 +787,5 @@
       (resp/ok {:vault {:id (:id vault)
                         :name (:name vault)
                         :domain (:domain vault)
-                        :createdAt (:created-at vault)}}))))
+                        :createdAt (:created-at vault)}
+                :capabilities capabilities}))))
@@ -34,8 +34,15 @@
           ["/obsidian"
            ["/sync"
             ["/changes" {:post sync/sync-changes}]
-           ["/notes/:id" {:post sync/sync-note}]
-           ["/assets/:id" {:post sync/sync-asset}]]
+            ["/changes/plan" {:post sync/sync-changes-plan}]
+           ["/notes/:id" {:post sync/sync-note
+                          :delete sync/sync-delete-note}]
+           ["/assets/:id" {:post sync/sync-asset}]
+           ["/assets/:id/content" {:put sync/sync-asset-content}]
+           ["/uploads" {:post sync/sync-upload-init}]
+           ["/uploads/:upload-id" {:get sync/sync-upload-status
+                                   :put sync/sync-upload-chunk}]
+           ["/uploads/:upload-id/commit" {:post sync/sync-upload-commit}]]
           ["/vault/info" {:get sync/vault-info}]]
 
          ["/console"
@@ -0,0 +1,181 @@
+(ns mdbrain.upload-sessions
+  "On-disk sessions for resumable (chunked) asset uploads.
+
+   Each session lives in `<upload-tmp-path>/<vault-id>/<upload-id>/` with
+   `meta.edn` (asset fields from init) and `data.part` (bytes received so far).
+   The session id is derived from vault, asset id, hash and size, so a client
+   that re-initialises the same upload after a restart resumes it."
+  (:require [clojure.edn :as edn]
+            [clojure.java.io :as io]
+            [clojure.tools.logging :as log]
+            [mdbrain.config :as config]
+            [mdbrain.utils.crypto :as crypto])
+  (:import [java.io File FileOutputStream InputStream]
+           [java.nio.file Files]))
+
+;; ============================================================
+;; Paths
+;; ============================================================
+
+(def ^:private session-ttl-ms
+  "Sessions untouched for this long are removed."
+  (* 24 60 60 1000))
+
+(def ^:private session-lock
+  "Held only for quick file operations, never while reading a request body."
+  (Object.))
+
+(def ^:private receiving
+  "[vault-id upload-id] pairs with a chunk on its way to disk."
+  (atom #{}))
+
+(defn- vault-dir ^File [vault-id]
+  (io/file (config/upload-tmp-path) (str vault-id)))
+
+(defn- session-dir ^File [vault-id upload-id]
+  (io/file (vault-dir vault-id) upload-id))
+
+(defn- meta-file ^File [vault-id upload-id]
+  (io/file (session-dir vault-id upload-id) "meta.edn"))
+
+(defn data-file
+  "File holding the bytes received so far."
+  ^File [vault-id upload-id]
+  (io/file (session-dir vault-id upload-id) "data.part"))
+
+(defn valid-upload-id?
+  [upload-id]
+  (boolean (and (string? upload-id)
+                (re-matches #"[0-9a-f]{32}" upload-id))))
+
+(defn upload-id
+  "Deterministic session id for an asset version."
+  [vault-id asset-id hash size]
+  (crypto/sha256-hex (.getBytes (str vault-id ":" asset-id ":" hash ":" size) "UTF-8") 16))
+
+(defn- delete-dir!
+  [^File dir]
+  (when (.exists dir)
+    (doseq [^File f (reverse (file-seq dir))]
+      (.delete f))))
+
+;; ============================================================
+;; Sessions
+;; ============================================================
+
+(defn- read-session
+  [vault-id upload-id]
+  (let [meta (meta-file vault-id upload-id)]
+    (when (.exists meta)
+      (let [session (edn/read-string (slurp meta))
+            data (data-file vault-id upload-id)]
+        (assoc session
+               :upload-id upload-id
+               :offset (if (.exists data) (.length data) 0))))))
+
+(defn get-session
+  "Session with its current `:offset`, or nil when missing or malformed."
+  [vault-id upload-id]
+  (when (valid-upload-id? upload-id)
+    (try
+      (read-session vault-id upload-id)
+      (catch Exception e
+        (log/warn "Unreadable upload session" {:vault-id vault-id
+                                               :upload-id upload-id
+                                               :error (.getMessage e)})
+        nil))))
+
+(defn cleanup-expired!
+  "Remove sessions of a vault that have not received data for a day."
+  [vault-id]
+  (let [cutoff (- (System/currentTimeMillis) session-ttl-ms)]
+    (doseq [^File dir (.listFiles (vault-dir vault-id))
+            :when (.isDirectory dir)]
+      (let [data (io/file dir "data.part")
+            touched (if (.exists data) (.lastModified data) (.lastModified dir))]
+        (when (< touched cutoff)
+          (delete-dir! dir))))))
+
+(defn open-session!
+  "Create the session for an asset version, or return the existing one.
+   `asset` is {:asset-id :path :content-type :size :hash}."
+  [vault-id {:keys [asset-id hash size] :as asset}]
+  (locking session-lock
+    (cleanup-expired! vault-id)
+    (let [id (upload-id vault-id asset-id hash size)
+          dir (session-dir vault-id id)
+          meta (select-keys asset [:asset-id :path :content-type :size :hash])]
+      (.mkdirs dir)
+      (.createNewFile (data-file vault-id id))
+      ;; Path and content type may change between attempts; the bytes cannot.
+      (spit (meta-file vault-id id) (pr-str meta))
+      (read-session vault-id id))))
+
+(defn- receive-chunk!
+  "Copy `in` to `tmp`. Returns the number of bytes, or nil past `limit`."
+  [^File tmp ^InputStream in limit]
+  (with-open [out (FileOutputStream. tmp)]
+    (let [buffer (byte-array 65536)]
+      (loop [written 0]
+        (let [n (.read in buffer)]
+          (cond
+            (neg? n) written
+            (> (+ written n) limit) nil
+            :else (do
+                    (.write out buffer 0 n)
+                    (recur (+ written n)))))))))
+
+(defn- reserve-offset!
+  "Claim the session for one chunk at `offset`, returning the session, or the
+   failure result when it is missing, at another offset or already receiving."
+  [vault-id upload-id offset]
+  (locking session-lock
+    (let [{current :offset :as session} (get-session vault-id upload-id)]
+      (cond
+        (nil? session)
+        {:ok false :reason :not-found}
+
+        (or (not= offset current)
+            (contains? @receiving [vault-id upload-id]))
+        {:ok false :reason :offset-mismatch :offset current}
+
+        :else
+        (do
+          (swap! receiving conj [vault-id upload-id])
+          session)))))
+
+(defn append-chunk!
+  "Append `in` to the session when `offset` matches what was received so far.
+
+   The chunk is read into a temp file without holding the lock, so a slow
+   client only delays its own upload; the lock is taken again to append it.
+
+   Returns {:ok true :offset n} or
+   {:ok false :reason :not-found|:offset-mismatch|:too-large :offset n}."
+  [vault-id upload-id offset in]
+  (let [{:keys [size] :as session} (reserve-offset! vault-id upload-id offset)]
+    (if (false? (:ok session))
+      session
+      (try
+        (let [tmp (File/createTempFile "chunk-" ".tmp" (session-dir vault-id upload-id))]
+          (try
+            (if-let [n (receive-chunk! tmp in (- size offset))]
+              (locking session-lock
+                (let [data (data-file vault-id upload-id)]
+                  (if (.exists data)
+                    (do
+                      (with-open [out (FileOutputStream. data true)]
+                        (Files/copy (.toPath tmp) out))
+                      {:ok true :offset (+ offset n)})
+                    {:ok false :reason :not-found})))
+              {:ok false :reason :too-large :offset offset})
+            (finally
+              (.delete tmp))))
+        (finally
+          (swap! receiving disj [vault-id upload-id]))))))
+
+(defn delete-session!
+  [vault-id upload-id]
+  (when (valid-upload-id? upload-id)
+    (locking session-lock
+      (delete-dir! (session-dir vault-id upload-id)))))
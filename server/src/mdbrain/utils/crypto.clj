@@ -1,4 +1,6 @@
 (ns mdbrain.utils.crypto
+  (:require
+   [clojure.java.io :as io])
   (:import
    [java.security MessageDigest]))
 
@@ -13,3 +15,15 @@
          truncated (take length hash-bytes)]
      (apply str (map #(format "%02x" %) truncated)))))
 
+(defn md5-file-hex
+  "Compute the MD5 of a file by streaming it; returns a lowercase hex string."
+  [file]
+  (let [md (MessageDigest/getInstance "MD5")
+        buffer (byte-array 65536)]
+    (with-open [in (io/input-stream file)]
+      (loop []
+        (let [n (.read in buffer)]
+          (when (pos? n)
+            (.update md buffer 0 n)
+            (recur)))))
+    (apply str (map #(format "%02x" %) (.digest md)))))
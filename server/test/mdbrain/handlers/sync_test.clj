@@ -1,6 +1,8 @@
 (ns mdbrain.handlers.sync-test
   (:require
+   [clojure.data.json :as json]
    [clojure.test :refer [deftest is testing use-fixtures]]
+   [mdbrain.config :as config]
    [mdbrain.db :as db]
    [mdbrain.handlers.sync :as sync]
    [mdbrain.object-store :as object-store]
@@ -46,6 +48,64 @@
         (is (nil? (db/get-note-by-client-id vault-id note-id-3)))
         (is (nil? (db/get-asset-by-client-id vault-id asset-id-2)))))))
 
+(deftest test-sync-changes-plan
+  (testing "reports adds, updates and deletes without applying them"
+    (let [tenant-id (support/create-test-tenant!)
+          {:keys [vault-id sync-key]} (support/create-test-vault! tenant-id "sync-plan.com")
+          _ (db/upsert-note! (utils/generate-uuid) tenant-id vault-id "a.md" "note-1" "A" "{}" "hash-a" nil)
+          _ (db/upsert-note! (utils/generate-uuid) tenant-id vault-id "b.md" "note-2" "B" "{}" "hash-b" nil)
+          _ (db/upsert-asset! (utils/generate-uuid) tenant-id vault-id "asset-1" "img/a.png" "assets/a.png" 10 "image/png" "md5-a")
+          request (auth-request :post "/obsidian/sync/changes/plan" sync-key
+                                {:notes [{:id "note-1" :hash "hash-a-new"}
+                                         {:id "note-3" :hash "hash-c"}]
+                                 :assets []})
+          response (sync/sync-changes-plan request)
+          body (:body response)]
+      (is (= 200 (:status response)))
+      (is (= [{:id "note-3" :hash "hash-c"}] (get-in body [:notes :add])))
+      (is (= [{:id "note-1" :hash "hash-a-new"}] (get-in body [:notes :update])))
+      (is (= [{:id "note-2" :hash "hash-b" :path "b.md"}] (get-in body [:notes :delete])))
+      (is (= [{:id "asset-1" :hash "md5-a" :path "img/a.png"}] (get-in body [:assets :delete])))
+      (is (some? (db/get-note-by-client-id vault-id "note-2")))
+      (is (some? (db/get-asset-by-client-id vault-id "asset-1"))))))
+
+(deftest test-sync-changes-deletion-guard
+  (let [tenant-id (support/create-test-tenant!)
+        {:keys [vault-id sync-key]} (support/create-test-vault! tenant-id "sync-guard.com")]
+    (doseq [n (range 4)]
+      (db/upsert-note! (utils/generate-uuid) tenant-id vault-id (str n ".md") (str "note-" n) "N" "{}" (str "hash-" n) nil))
+
+    (testing "refuses to delete more notes than the guard allows"
+      (let [response (sync/sync-changes
+                      (auth-request :post "/obsidian/sync/changes" sync-key
+                                    {:notes [{:id "note-0" :hash "hash-0"}]
+                                     :assets []
+                                     :deletion_guard {:max_notes 10 :max_percent 50}}))]
+        (is (= 409 (:status response)))
+        (is (= {:notes_to_delete 3 :notes_on_server 4 :max_notes 10 :max_percent 50}
+               (get-in response [:body :deletion_guard])))
+        (is (some? (db/get-note-by-client-id vault-id "note-3")))))
+
+    (testing "plan reports the violation without failing"
+      (let [response (sync/sync-changes-plan
+                      (auth-request :post "/obsidian/sync/changes/plan" sync-key
+                                    {:notes []
+                                     :assets []
+                                     :deletion_guard {:max_notes 2}}))]
+        (is (= 200 (:status response)))
+        (is (= 4 (get-in response [:body :deletion_guard :notes_to_delete])))))
+
+    (testing "applies deletions within the limits"
+      (let [response (sync/sync-changes
+                      (auth-request :post "/obsidian/sync/changes" sync-key
+                                    {:notes [{:id "note-0" :hash "hash-0"}
+                                             {:id "note-1" :hash "hash-1"}
+                                             {:id "note-2" :hash "hash-2"}]
+                                     :assets []
+                                     :deletion_guard {:max_notes 1 :max_percent 50}}))]
+        (is (= 200 (:status response)))
+        (is (nil? (db/get-note-by-client-id vault-id "note-3")))))))
+
 (deftest test-vault-publish-status-snapshot
   (testing "records last publish status/time/error for authorized sync requests"
     (with-redefs [object-store/delete-object! (fn [_ _] nil)]
@@ -126,6 +186,100 @@
               {:id missing-id :hash "md5-missing"}]
              missing)))))
 
+(deftest test-sync-note-conflict
+  (let [tenant-id (support/create-test-tenant!)
+        {:keys [vault-id sync-key]} (support/create-test-vault! tenant-id "sync-conflict.com")
+        note-id "note-conflict"
+        publish (fn [body]
+                  (sync/sync-note
+                   (-> (auth-request :post (str "/obsidian/sync/notes/" note-id) sync-key
+                                     (merge {:path "notes/a.md" :assets [] :linked_notes []} body))
+                       (assoc :path-params {:id note-id}))))]
+    (is (= 200 (:status (publish {:content "Server" :hash "hash-server"}))))
+
+    (testing "rejects an edit based on a version the server no longer has"
+      (let [response (publish {:content "Local" :hash "hash-local" :base_hash "hash-old"})]
+        (is (= 409 (:status response)))
+        (is (= {:server_hash "hash-server"
+                :server_path "notes/a.md"
+                :server_content "Server"}
+               (get-in response [:body :conflict])))
+        (is (= "hash-server" (:hash (db/get-note-by-client-id vault-id note-id))))))
+
+    (testing "accepts an edit based on the stored version"
+      (is (= 200 (:status (publish {:content "Local" :hash "hash-local" :base_hash "hash-server"}))))
+      (is (= "hash-local" (:hash (db/get-note-by-client-id vault-id note-id)))))
+
+    (testing "accepts content the server already has, whatever the base"
+      (is (= 200 (:status (publish {:content "Local" :hash "hash-local" :base_hash "hash-old"})))))
+
+    (testing "keeps last-writer-wins for clients that send no base hash"
+      (is (= 200 (:status (publish {:content "Other" :hash "hash-other"})))))))
+
+(deftest test-sync-note-canvas
+  (let [tenant-id (support/create-test-tenant!)
+        {:keys [vault-id sync-key]} (support/create-test-vault! tenant-id "sync-canvas.com")
+        note-id "canvas-board"
+        publish (fn [body]
+                  (sync/sync-note
+                   (-> (auth-request :post (str "/obsidian/sync/notes/" note-id) sync-key
+                                     (merge {:path "boards/plan.canvas"
+                                             :content "{\"nodes\":[],\"edges\":[]}"
+                                             :hash "hash-canvas"
+                                             :metadata {:files []}
+                                             :assets []
+                                             :linked_notes []}
+                                            body))
+                       (assoc :path-params {:id note-id}))))]
+    (testing "rejects unknown document types"
+      (is (= 400 (:status (publish {:type "whiteboard"}))))
+      (is (nil? (db/get-note-by-client-id vault-id note-id))))
+
+    (testing "stores a canvas as a document marked with its type"
+      (is (= 200 (:status (publish {:type "canvas"}))))
+      (let [stored (db/get-note-by-client-id vault-id note-id)]
+        (is (= "boards/plan.canvas" (:path stored)))
+        (is (= {"files" [] "type" "canvas"} (json/read-str (:metadata stored))))))))
+
+(deftest test-sync-delete-note
+  (with-redefs [object-store/delete-object! (fn [_ _] nil)]
+    (let [tenant-id (support/create-test-tenant!)
+          {:keys [vault-id sync-key]} (support/create-test-vault! tenant-id "sync-delete.com")
+          asset-id "asset-only"
+          _ (db/upsert-asset! (utils/generate-uuid) tenant-id vault-id asset-id "a.png" "assets/a.png" 10 "image/png" "md5-a")
+          publish (fn [note-id]
+                    (sync/sync-note
+                     (-> (auth-request :post (str "/obsidian/sync/notes/" note-id) sync-key
+                                       {:path (str note-id ".md")
+                                        :content "Hello"
+                                        :hash (str "hash-" note-id)
+                                        :assets [{:id asset-id :hash "md5-a"}]
+                                        :linked_notes []})
+                         (assoc :path-params {:id note-id}))))
+          delete (fn [note-id]
+                   (sync/sync-delete-note
+                    (-> (auth-request :delete (str "/obsidian/sync/notes/" note-id) sync-key nil)
+                        (assoc :path-params {:id note-id}))))]
+      (publish "note-a")
+      (publish "note-b")
+
+      (testing "removes the note and keeps assets other notes reference"
+        (let [response (delete "note-a")]
+          (is (= 200 (:status response)))
+          (is (= "deleted" (get-in response [:body :status])))
+          (is (nil? (db/get-note-by-client-id vault-id "note-a")))
+          (is (some? (db/get-note-by-client-id vault-id "note-b")))
+          (is (some? (db/get-asset-by-client-id vault-id asset-id)))))
+
+      (testing "deletes assets only the note referenced"
+        (delete "note-b")
+        (is (nil? (db/get-asset-by-client-id vault-id asset-id))))
+
+      (testing "succeeds for notes the server does not have"
+        (let [response (delete "note-a")]
+          (is (= 200 (:status response)))
+          (is (= "missing" (get-in response [:body :status]))))))))
+
 (deftest test-sync-note-need-upload-notes
   (testing "returns missing linked notes and stale hashes"
     (let [tenant-id (support/create-test-tenant!)
@@ -326,3 +480,165 @@
           (is (= 200 (:status response)))
           (is (= "stored" (get-in response [:body :status])))
           (is (= 1 @stored)))))))
+
+(deftest test-sync-asset-content
+  (testing "stores the raw request body using query params for metadata"
+    (let [tenant-id (support/create-test-tenant!)
+          {:keys [vault-id sync-key]} (support/create-test-vault! tenant-id "sync-binary.com")
+          asset-id "asset-binary"
+          content-bytes (.getBytes "binary" "UTF-8")
+          stored (atom nil)
+          request (-> (mock/request :put (str "/obsidian/sync/assets/" asset-id "/content"))
+                      (mock/body content-bytes)
+                      (assoc :headers {"authorization" (str "Bearer " sync-key)
+                                       "content-type" "image/png"})
+                      (assoc :path-params {:id asset-id})
+                      (assoc :query-params {"path" "assets/a.png"
+                                            "hash" "md5-binary"
+                                            "size" "6"}))]
+      (with-redefs [object-store/put-object! (fn [_ _ body content-type]
+                                               (reset! stored {:body (String. ^bytes body "UTF-8")
+                                                               :content-type content-type}))]
+        (let [response (sync/sync-asset-content request)
+              asset (db/get-asset-by-client-id vault-id asset-id)]
+          (is (= 200 (:status response)))
+          (is (= "stored" (get-in response [:body :status])))
+          (is (= {:body "binary" :content-type "image/png"} @stored))
+          (is (= "md5-binary" (:md5 asset)))
+          (is (= "assets/a.png" (:path asset)))))))
+
+  (testing "requires a content type"
+    (let [tenant-id (support/create-test-tenant!)
+          {:keys [sync-key]} (support/create-test-vault! tenant-id "sync-binary-2.com")
+          request (-> (mock/request :put "/obsidian/sync/assets/asset-x/content")
+                      (mock/body (.getBytes "x" "UTF-8"))
+                      (assoc :headers {"authorization" (str "Bearer " sync-key)})
+                      (assoc :path-params {:id "asset-x"})
+                      (assoc :query-params {"path" "assets/x.png" "hash" "md5-x"}))
+          response (sync/sync-asset-content request)]
+      (is (= 400 (:status response)))
+      (is (= "Missing asset contentType" (get-in response [:body :error]))))))
+
+(deftest test-vault-info-capabilities
+  (testing "advertises binary asset uploads"
+    (let [tenant-id (support/create-test-tenant!)
+          {:keys [sync-key]} (support/create-test-vault! tenant-id "sync-capabilities.com")
+          response (sync/vault-info (auth-request :get "/obsidian/vault/info" sync-key nil))]
+      (is (= 200 (:status response)))
+      (is (some #{"asset-binary"} (get-in response [:body :capabilities])))
+      (is (some #{"asset-chunked"} (get-in response [:body :capabilities]))))))
+
+(defn- temp-upload-dir []
+  (let [dir (.toFile (java.nio.file.Files/createTempDirectory
+                      "mdbrain-uploads"
+                      (make-array java.nio.file.attribute.FileAttribute 0)))]
+    (.deleteOnExit dir)
+    (.getPath dir)))
+
+(defn- chunk-request
+  [sync-key upload-id offset ^String content]
+  (-> (mock/request :put (str "/obsidian/sync/uploads/" upload-id))
+      (mock/body (.getBytes content "UTF-8"))
+      (assoc :headers {"authorization" (str "Bearer " sync-key)
+                       "content-type" "application/octet-stream"})
+      (assoc :path-params {:upload-id upload-id})
+      (assoc :query-params {"offset" (str offset)})))
+
+(defn- upload-request
+  [method upload-id sync-key body]
+  (-> (auth-request method (str "/obsidian/sync/uploads/" upload-id) sync-key body)
+      (assoc :path-params {:upload-id upload-id})))
+
+(deftest test-sync-upload-chunked
+  (let [upload-dir (temp-upload-dir)
+        ;; md5("hello world")
+        content-hash "5eb63bbbe01eeed093cb22bb8f5acdc3"]
+    (with-redefs [config/upload-tmp-path (constantly upload-dir)]
+      (testing "uploads in chunks, resumes from the server offset and stores on commit"
+        (let [tenant-id (support/create-test-tenant!)
+              {:keys [vault-id sync-key]} (support/create-test-vault! tenant-id "sync-chunked.com")
+              stored (atom nil)
+              init-body {:id "asset-big" :path "assets/big.png" :contentType "image/png"
+                         :size 11 :hash content-hash}
+              init (sync/sync-upload-init (auth-request :post "/obsidian/sync/uploads" sync-key init-body))
+              upload-id (get-in init [:body :uploadId])]
+          (is (= 200 (:status init)))
+          (is (= "pending" (get-in init [:body :status])))
+          (is (= 0 (get-in init [:body :offset])))
+
+          (is (= 6 (get-in (sync/sync-upload-chunk (chunk-request sync-key upload-id 0 "hello ")) [:body :offset])))
+
+          (testing "re-initialising resumes the same session"
+            (let [again (sync/sync-upload-init (auth-request :post "/obsidian/sync/uploads" sync-key init-body))]
+              (is (= upload-id (get-in again [:body :uploadId])))
+              (is (= 6 (get-in again [:body :offset])))))
+
+          (testing "rejects chunks at the wrong offset with the current offset"
+            (let [response (sync/sync-upload-chunk (chunk-request sync-key upload-id 0 "hello "))]
+              (is (= 409 (:status response)))
+              (is (= 6 (get-in response [:body :offset])))))
+
+          (testing "rejects chunks past the declared size"
+            (let [response (sync/sync-upload-chunk (chunk-request sync-key upload-id 6 "world!!"))]
+              (is (= 400 (:status response)))
+              (is (= 6 (get-in (sync/sync-upload-status (upload-request :get upload-id sync-key nil))
+                               [:body :offset])))))
+
+          (is (= 11 (get-in (sync/sync-upload-chunk (chunk-request sync-key upload-id 6 "world")) [:body :offset])))
+
+          (with-redefs [object-store/put-object! (fn [_ _ body content-type]
+                                                   (reset! stored {:body (String. ^bytes body "UTF-8")
+                                                                   :content-type content-type}))]
+            (let [response (sync/sync-upload-commit
+                            (upload-request :post upload-id sync-key {:hash content-hash}))
+                  asset (db/get-asset-by-client-id vault-id "asset-big")]
+              (is (= 200 (:status response)))
+              (is (= "stored" (get-in response [:body :status])))
+              (is (= {:body "hello world" :content-type "image/png"} @stored))
+              (is (= content-hash (:md5 asset)))
+              (is (= 404 (:status (sync/sync-upload-status (upload-request :get upload-id sync-key nil)))))))
+
+          (testing "skips assets the server already has"
+            (let [response (sync/sync-upload-init (auth-request :post "/obsidian/sync/uploads" sync-key init-body))]
+              (is (= "skipped" (get-in response [:body :status])))))))
+
+      (testing "refuses to commit incomplete or corrupted uploads"
+        (let [tenant-id (support/create-test-tenant!)
+              {:keys [sync-key]} (support/create-test-vault! tenant-id "sync-chunked-2.com")
+              init (sync/sync-upload-init
+                    (auth-request :post "/obsidian/sync/uploads" sync-key
+                                  {:id "asset-bad" :path "assets/bad.png" :contentType "image/png"
+                                   :size 11 :hash content-hash}))
+              upload-id (get-in init [:body :uploadId])]
+          (sync/sync-upload-chunk (chunk-request sync-key upload-id 0 "hello "))
+          (is (= 409 (:status (sync/sync-upload-commit
+                               (upload-request :post upload-id sync-key {:hash content-hash})))))
+          (sync/sync-upload-chunk (chunk-request sync-key upload-id 6 "wurld"))
+          (let [response (sync/sync-upload-commit
+                          (upload-request :post upload-id sync-key {:hash content-hash}))]
+            (is (= 400 (:status response)))
+            (is (= "Uploaded content does not match hash" (get-in response [:body :error]))))))
+
+      (testing "a chunk still arriving does not hold up other uploads"
+        (let [tenant-id (support/create-test-tenant!)
+              {:keys [sync-key]} (support/create-test-vault! tenant-id "sync-chunked-3.com")
+              init! (fn [asset-id]
+                      (get-in (sync/sync-upload-init
+                               (auth-request :post "/obsidian/sync/uploads" sync-key
+                                             {:id asset-id :path (str "assets/" asset-id ".png")
+                                              :contentType "image/png" :size 11 :hash content-hash}))
+                              [:body :uploadId]))
+              slow-id (init! "asset-slow")
+              fast-id (init! "asset-fast")
+              release (promise)
+              slow-body (proxy [java.io.InputStream] []
+                          (read
+                            ([] @release -1)
+                            ([_] @release -1)
+                            ([_ _ _] @release -1)))
+              slow (future (sync/sync-upload-chunk
+                            (assoc (chunk-request sync-key slow-id 0 "") :body slow-body)))
+              fast (future (sync/sync-upload-chunk (chunk-request sync-key fast-id 0 "hello ")))]
+          (is (= 6 (get-in (deref fast 5000 nil) [:body :offset])))
+          (deliver release true)
+          (is (= 200 (:status (deref slow 5000 nil)))))))))